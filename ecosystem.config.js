@@ -1,9 +1,10 @@
 module.exports = {
   apps: [{
     name: 'mcp-wiki-performance',
-    script: './src/index.js',
-    instances: 'max',
-    exec_mode: 'cluster',
+    script: './dist/server.js',
+    // HTTP sessions live in the memory of one process, so the server runs as a single instance
+    instances: 1,
+    exec_mode: 'fork',
     
     // Performance optimizations
     node_args: [
@@ -16,7 +17,9 @@ module.exports = {
     // Environment variables
     env: {
       NODE_ENV: 'production',
-      PORT: 3000,
+      MCP_TRANSPORT: 'http',
+      MCP_HTTP_HOST: process.env.MCP_HTTP_HOST || '0.0.0.0',
+      MCP_HTTP_PORT: process.env.MCP_HTTP_PORT || 3000,
       PERFORMANCE_MONITORING: 'true',
       CACHE_ENABLED: 'true',
       INDEXING_ENABLED: 'true',
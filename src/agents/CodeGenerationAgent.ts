@@ -7,9 +7,27 @@ import {
   ProjectStructure, 
   CodePattern, 
   FileNode,
-  TransformationResult
+  TransformationResult,
+  OperationControl
 } from '../transformation/types';
 import { AIProvider } from '../ai/aiProvider';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('CodeGenerationAgent');
+
+// Languages the generator knows a file extension for; also offered as argument completions
+export const FILE_EXTENSIONS: Record<string, string> = {
+  'typescript': 'ts',
+  'javascript': 'js',
+  'python': 'py',
+  'java': 'java',
+  'csharp': 'cs',
+  'go': 'go',
+  'rust': 'rs',
+  'php': 'php',
+  'ruby': 'rb',
+  'shell': 'sh'
+};
 
 /**
  * Agent responsible for code generation from wiki content
@@ -28,7 +46,7 @@ export class CodeGenerationAgent implements Agent {
 
   async initialize(): Promise<void> {
     await this.templateEngine.initialize();
-    console.log('CodeGenerationAgent initialized');
+    logger.debug('CodeGenerationAgent initialized');
   }
 
   async run(...args: any[]): Promise<any> {
@@ -57,7 +75,7 @@ export class CodeGenerationAgent implements Agent {
     framework?: string;
     projectType?: string;
     template?: string;
-  }): Promise<GeneratedCode[]> {
+  } & OperationControl): Promise<GeneratedCode[]> {
     
     const result = await this.contentTransformer.transformMarkdownToCode(
       params.wikiContent,
@@ -65,7 +83,9 @@ export class CodeGenerationAgent implements Agent {
       {
         framework: params.framework,
         projectType: params.projectType,
-        customVariables: params.template ? { template: params.template } : undefined
+        customVariables: params.template ? { template: params.template } : undefined,
+        signal: params.signal,
+        onProgress: params.onProgress
       }
     );
 
@@ -110,7 +130,7 @@ export class CodeGenerationAgent implements Agent {
           generated.push(...result.generated);
         }
       } catch (error) {
-        console.warn(`Failed to generate code for pattern ${pattern.name}:`, error);
+        logger.warning(`Failed to generate code for pattern ${pattern.name}:`, error);
       }
     }
 
@@ -157,6 +177,7 @@ export class CodeGenerationAgent implements Agent {
 
   /**
    * Generate project structure with files
+   * Reports the AI request, each generated file and dependency collection through params.onProgress
    */
   async generateProjectStructure(params: {
     projectType: string;
@@ -164,21 +185,33 @@ export class CodeGenerationAgent implements Agent {
     framework?: string;
     features?: string[];
     projectName?: string;
-  }): Promise<ProjectStructure> {
+  } & OperationControl): Promise<ProjectStructure> {
     
     const projectName = params.projectName || 'new-project';
+    const { signal, onProgress } = params;
     
     // Create basic project structure prompt
     const prompt = this.buildProjectStructurePrompt(params);
     
     try {
-      const aiResponse = await this.aiProvider.summarizeContent(prompt, 2000);
+      onProgress?.(0, undefined, 'Requesting project structure');
+      const aiResponse = await this.aiProvider.summarizeContent(prompt, 2000, { signal });
+      signal?.throwIfAborted();
       
       // Parse AI response to extract project structure
       const generated = await this.parseProjectStructureResponse(aiResponse, params);
+
+      // One step for the AI request, one per file, one for dependency collection
+      const total = generated.length + 2;
+      onProgress?.(1, total, `Received ${generated.length} files`);
+      generated.forEach((file, index) => {
+        onProgress?.(index + 2, total, `Generated ${file.filename}`);
+      });
       
+      signal?.throwIfAborted();
       const structure = this.generateFileStructure(generated, params.projectType);
       const dependencies = this.collectDependencies(generated);
+      onProgress?.(total, total, 'Collected dependencies');
       const setupInstructions = this.generateSetupInstructions(params, dependencies);
 
       return {
@@ -191,7 +224,10 @@ export class CodeGenerationAgent implements Agent {
       };
       
     } catch (error) {
-      console.error('Error generating project structure:', error);
+      if (signal?.aborted) {
+        throw error;
+      }
+      logger.error('Error generating project structure:', error);
       throw new Error(`Failed to generate project structure: ${error}`);
     }
   }
@@ -470,8 +506,8 @@ Return ONLY the JSON array, no other text or formatting.`;
 
     try {
       // Debug: Log the AI response to understand what we're getting
-      console.error('[DEBUG] AI Response length:', response.length);
-      console.error('[DEBUG] AI Response preview:', response.substring(0, 200) + '...');
+      logger.debug('AI Response length:', response.length);
+      logger.debug('AI Response preview:', response.substring(0, 200) + '...');
 
       let jsonString = '';
       
@@ -479,25 +515,25 @@ Return ONLY the JSON array, no other text or formatting.`;
       const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
       if (codeBlockMatch) {
         jsonString = codeBlockMatch[1].trim();
-        console.error('[DEBUG] Extracted from code block:', jsonString.substring(0, 200) + '...');
+        logger.debug('Extracted from code block:', jsonString.substring(0, 200) + '...');
       } else {
         // Try to find JSON array pattern
         const arrayMatch = response.match(/\[[\s\S]*?\]/);
         if (arrayMatch) {
           jsonString = arrayMatch[0];
-          console.error('[DEBUG] Extracted array pattern:', jsonString.substring(0, 200) + '...');
+          logger.debug('Extracted array pattern:', jsonString.substring(0, 200) + '...');
         } else {
           // Try to find JSON object pattern
           const objectMatch = response.match(/\{[\s\S]*?\}/);
           if (objectMatch) {
             jsonString = objectMatch[0];
-            console.error('[DEBUG] Extracted object pattern:', jsonString.substring(0, 200) + '...');
+            logger.debug('Extracted object pattern:', jsonString.substring(0, 200) + '...');
           }
         }
       }
       
       if (jsonString) {
-        console.error('[DEBUG] Attempting to parse JSON of length:', jsonString.length);
+        logger.debug('Attempting to parse JSON of length:', jsonString.length);
         
         // Use a more lenient parsing approach
         let files;
@@ -505,16 +541,16 @@ Return ONLY the JSON array, no other text or formatting.`;
           // First try direct parsing
           files = JSON.parse(jsonString);
         } catch (firstError) {
-          console.error('[DEBUG] Direct parsing failed, trying to fix JSON...');
+          logger.debug('Direct parsing failed, trying to fix JSON...');
           
           // Try sanitization first
           const sanitizedJson = this.sanitizeJsonString(jsonString);
-          console.error('[DEBUG] Attempting to parse sanitized JSON...');
+          logger.debug('Attempting to parse sanitized JSON...');
           
           try {
             files = JSON.parse(sanitizedJson);
           } catch (secondError) {
-            console.error('[DEBUG] Sanitized parsing failed, trying line-by-line reconstruction...');
+            logger.debug('Sanitized parsing failed, trying line-by-line reconstruction...');
             
             // Try to fix the JSON by parsing it more carefully
             try {
@@ -568,12 +604,12 @@ Return ONLY the JSON array, no other text or formatting.`;
               }
               
               const fixedJson = fixedLines.join('\n');
-              console.error('[DEBUG] Attempting to parse fixed JSON...');
+              logger.debug('Attempting to parse fixed JSON...');
               files = JSON.parse(fixedJson);
               
             } catch (thirdError) {
               // Last resort: try eval (dangerous but controlled environment)
-              console.error('[DEBUG] JSON parsing still failed, trying eval as last resort...');
+              logger.debug('JSON parsing still failed, trying eval as last resort...');
               try {
                 files = eval('(' + jsonString + ')');
               } catch (evalError) {
@@ -601,26 +637,26 @@ Return ONLY the JSON array, no other text or formatting.`;
           }
         }
         
-        console.error('[DEBUG] Successfully parsed', generated.length, 'files from AI response');
+        logger.debug('Successfully parsed', generated.length, 'files from AI response');
       } else {
-        console.error('[DEBUG] No JSON pattern found in AI response');
+        logger.debug('No JSON pattern found in AI response');
       }
     } catch (parseError: any) {
-      console.error('Failed to parse AI project structure response:', parseError);
-      console.error('[DEBUG] Parse error details:', parseError.message);
+      logger.error('Failed to parse AI project structure response:', parseError);
+      logger.debug('Parse error details:', parseError.message);
       
       // Log the problematic JSON for debugging
       if (parseError.message.includes('position')) {
         const position = parseInt(parseError.message.match(/position (\d+)/)?.[1] || '0');
-        console.error('[DEBUG] Error context around position', position + ':');
-        console.error('[DEBUG] Before:', response.substring(Math.max(0, position - 50), position));
-        console.error('[DEBUG] At error:', response.substring(position, position + 50));
+        logger.debug('Error context around position', position + ':');
+        logger.debug('Before:', response.substring(Math.max(0, position - 50), position));
+        logger.debug('At error:', response.substring(position, position + 50));
       }
     }
 
     // If parsing failed, generate basic structure
     if (generated.length === 0) {
-      console.error('[DEBUG] Falling back to basic project structure');
+      logger.debug('Falling back to basic project structure');
       generated.push(...await this.generateBasicProjectStructure(params));
     }
 
@@ -765,20 +801,7 @@ if __name__ == "__main__":
    * Get file extension for language
    */
   private getFileExtension(language: string): string {
-    const mapping: Record<string, string> = {
-      'typescript': 'ts',
-      'javascript': 'js',
-      'python': 'py',
-      'java': 'java',
-      'csharp': 'cs',
-      'go': 'go',
-      'rust': 'rs',
-      'php': 'php',
-      'ruby': 'rb',
-      'shell': 'sh'
-    };
-    
-    return mapping[language.toLowerCase()] || 'txt';
+    return FILE_EXTENSIONS[language.toLowerCase()] || 'txt';
   }
 
   /**
@@ -1,5 +1,8 @@
 import { Agent } from "./Agent";
 import { WikiSource } from "../sources/wikiSource";
+import { Logger } from "../utils/logger";
+
+const logger = new Logger("WikiContentAgent");
 
 export interface WikiContentAgentArgs {
   query: string;
@@ -36,10 +39,8 @@ export class WikiContentAgent implements Agent {
   }
 
   private log(message: string) {
-    // Simple logging, can be replaced with a logger
     if (this.config.verbose) {
-      // eslint-disable-next-line no-console
-      console.log(`[WikiContentAgent] ${message}`);
+      logger.info(message);
     }
   }
 
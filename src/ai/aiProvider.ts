@@ -22,9 +22,10 @@ export interface AIProvider {
    * Summarize content
    * @param content Text to summarize
    * @param maxLength Optional maximum length of summary
+   * @param options Optional per-request options such as an abort signal
    * @returns Summarized text
    */
-  summarizeContent(content: string, maxLength?: number): Promise<string>;
+  summarizeContent(content: string, maxLength?: number, options?: AIRequestOptions): Promise<string>;
 
   /**
    * Generate code from a prompt
@@ -46,6 +47,13 @@ export interface AIProvider {
   transformContent?(content: string, sourceFormat: string, targetFormat: string, options?: any): Promise<string>;
 }
 
+/**
+ * Per-request options for provider calls
+ */
+export interface AIRequestOptions {
+  signal?: AbortSignal; // Aborts the pending HTTP request; the call then rejects instead of falling back
+}
+
 /**
  * Configuration options for AI providers
  */
@@ -110,3 +118,19 @@ export interface LocalModelConfig extends ProviderConfig {
   modelPath: string;
   embeddingDimension?: number;
 }
+
+/**
+ * Client sampling provider configuration; needs no API key
+ */
+export interface SamplingConfig extends ProviderConfig {
+  type: 'sampling';
+  modelHints?: string[];        // Model name hints passed to the client, e.g. ["gpt-4o", "gemini-2.5-pro"]
+  maxTokens?: {                 // Per-request token limits by task
+    summary?: number;
+    relevance?: number;
+    code?: number;
+    transform?: number;
+  };
+  maxInputChars?: number;       // Longer content is truncated before it is sent to the client
+  timeoutSeconds?: number;
+}
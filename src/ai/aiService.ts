@@ -3,6 +3,10 @@ import { OpenAIProvider } from './openAIProvider';
 import { GeminiProvider } from './geminiProvider';
 import { AzureOpenAIProvider } from './azureOpenAIProvider';
 import { MockProvider } from './mockProvider';
+import { SamplingProvider } from './samplingProvider';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('AIService');
 
 /**
  * AI Service for managing various AI providers
@@ -40,14 +44,14 @@ export class AIService {
     // Check environment variable override
     const enableAI = process.env.MCP_ENABLE_AI;
     if (enableAI === 'false') {
-      console.log('AI features disabled via environment variable');
+      logger.info('AI features disabled via environment variable');
       return;
     }
     
     // Check for mock provider environment variable
     const useMockProvider = process.env.MCP_USE_MOCK_AI === 'true';
     if (useMockProvider) {
-      console.log('Using mock AI provider for testing');
+      logger.info('Using mock AI provider for testing');
       this.providers.set('mock', new MockProvider());
       this.primaryProvider = 'mock';
       return;
@@ -55,7 +59,7 @@ export class AIService {
 
     // Only initialize if enabled
     if (!this.config.enabled) {
-      console.log('AI features disabled in configuration');
+      logger.info('AI features disabled in configuration');
       return;
     }
     
@@ -76,18 +80,21 @@ export class AIService {
           case 'azureopenai':
             this.providers.set(key, new AzureOpenAIProvider(providerConfig as any, cacheTime));
             break;
+          case 'sampling':
+            this.providers.set(key, new SamplingProvider(providerConfig as any));
+            break;
           // Add other provider types as they're implemented
           default:
-            console.warn(`Unknown provider type: ${providerConfig.type}`);
+            logger.warning(`Unknown provider type: ${providerConfig.type}`);
         }
       } catch (error) {
-        console.error(`Failed to initialize AI provider '${key}':`, error);
+        logger.error(`Failed to initialize AI provider '${key}':`, error);
       }
     }
 
     // Make sure we have at least one provider
     if (this.providers.size === 0) {
-      console.warn('No AI providers were successfully initialized');
+      logger.warning('No AI providers were successfully initialized');
     }
     
     // Check if primary provider was initialized
@@ -95,7 +102,7 @@ export class AIService {
       // Fall back to first available provider
       const firstProvider = this.providers.keys().next().value;
       if (firstProvider) {
-        console.warn(`Primary provider '${this.primaryProvider}' not available, using '${firstProvider}' instead`);
+        logger.warning(`Primary provider '${this.primaryProvider}' not available, using '${firstProvider}' instead`);
         this.primaryProvider = firstProvider;
       }
     }
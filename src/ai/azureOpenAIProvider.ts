@@ -1,6 +1,9 @@
 import axios from 'axios';
-import { AIProvider, AzureOpenAIConfig } from './aiProvider';
+import { AIProvider, AIRequestOptions, AzureOpenAIConfig } from './aiProvider';
 import { calculateCosineSimilarity } from './utilities';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('AzureOpenAIProvider');
 
 // Latest Azure OpenAI API version as of 2025
 const AZURE_OPENAI_API_VERSION = '2024-02-01';
@@ -71,7 +74,7 @@ export class AzureOpenAIProvider implements AIProvider {
       
       return vector;
     } catch (error) {
-      console.error('Error generating Azure OpenAI embedding:', error);
+      logger.error('Error generating Azure OpenAI embedding:', error);
       throw error;
     }
   }
@@ -86,7 +89,7 @@ export class AzureOpenAIProvider implements AIProvider {
       
       return calculateCosineSimilarity(queryEmbedding, contentEmbedding);
     } catch (error) {
-      console.error('Error calculating relevance with Azure OpenAI:', error);
+      logger.error('Error calculating relevance with Azure OpenAI:', error);
       return 0; // Return minimum score on error
     }
   }
@@ -94,7 +97,7 @@ export class AzureOpenAIProvider implements AIProvider {
   /**
    * Summarize content using Azure OpenAI API
    */
-  async summarizeContent(content: string, maxLength: number = 200): Promise<string> {
+  async summarizeContent(content: string, maxLength: number = 200, options: AIRequestOptions = {}): Promise<string> {
     // Validate required configuration
     if (!this.config.summaryDeployment || !this.config.endpoint) {
       // If no summary model is configured, return truncated content
@@ -121,6 +124,7 @@ export class AzureOpenAIProvider implements AIProvider {
           temperature: 0.3
         },
         {
+          signal: options.signal,
           headers: {
             'api-key': this.config.apiKey,
             'Content-Type': 'application/json'
@@ -130,7 +134,10 @@ export class AzureOpenAIProvider implements AIProvider {
       
       return response.data.choices[0].message.content.trim();
     } catch (error) {
-      console.error('Error summarizing content with Azure OpenAI:', error);
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      logger.error('Error summarizing content with Azure OpenAI:', error);
       // In case of error, return truncated original content
       return content.length > maxLength
         ? content.substring(0, maxLength - 3) + '...'
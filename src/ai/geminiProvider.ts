@@ -1,6 +1,9 @@
 import axios from 'axios';
-import { AIProvider, GeminiConfig } from './aiProvider';
+import { AIProvider, AIRequestOptions, GeminiConfig } from './aiProvider';
 import { calculateCosineSimilarity } from './utilities';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('GeminiProvider');
 
 // Latest Gemini API version as of 2025
 const GEMINI_API_VERSION = 'v1';
@@ -76,7 +79,7 @@ export class GeminiProvider implements AIProvider {
       
       return vector;
     } catch (error) {
-      console.error('Error generating Gemini embedding:', error);
+      logger.error('Error generating Gemini embedding:', error);
       throw error;
     }
   }
@@ -91,7 +94,7 @@ export class GeminiProvider implements AIProvider {
       
       return calculateCosineSimilarity(queryEmbedding, contentEmbedding);
     } catch (error) {
-      console.error('Error calculating relevance with Gemini:', error);
+      logger.error('Error calculating relevance with Gemini:', error);
       return 0; // Return minimum score on error
     }
   }
@@ -99,7 +102,7 @@ export class GeminiProvider implements AIProvider {
   /**
    * Summarize content using Gemini API
    */
-  async summarizeContent(content: string, maxLength: number = 200): Promise<string> {
+  async summarizeContent(content: string, maxLength: number = 200, options: AIRequestOptions = {}): Promise<string> {
     // Validate required configuration
     if (!this.config.apiKey) {
       // Return truncated content if API key is missing
@@ -131,6 +134,7 @@ export class GeminiProvider implements AIProvider {
           }
         },
         {
+          signal: options.signal,
           params: {
             key: this.config.apiKey
           },
@@ -142,7 +146,10 @@ export class GeminiProvider implements AIProvider {
       
       return response.data.candidates[0].content.parts[0].text;
     } catch (error) {
-      console.error('Error summarizing content with Gemini:', error);
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      logger.error('Error summarizing content with Gemini:', error);
       // In case of error, return truncated original content
       return content.length > maxLength
         ? content.substring(0, maxLength - 3) + '...'
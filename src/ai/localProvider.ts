@@ -1,7 +1,10 @@
 import fs from 'fs';
 import path from 'path';
-import { AIProvider, LocalModelConfig } from './aiProvider';
+import { AIProvider, AIRequestOptions, LocalModelConfig } from './aiProvider';
 import { calculateCosineSimilarity } from './utilities';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('LocalProvider');
 
 /**
  * Simple local model implementation for embeddings
@@ -35,13 +38,13 @@ export class LocalProvider implements AIProvider {
         throw new Error(`Model file not found at: ${this.config.modelPath}`);
       }
       
-      console.log(`Local model initialized from: ${this.config.modelPath}`);
+      logger.info(`Local model initialized from: ${this.config.modelPath}`);
       this.modelLoaded = true;
       
       // In a real implementation, this would load the model using
       // a framework like ONNX Runtime or TensorFlow.js
     } catch (error) {
-      console.error('Failed to load local model:', error);
+      logger.error('Failed to load local model:', error);
       this.modelLoaded = false;
     }
   }
@@ -91,7 +94,7 @@ export class LocalProvider implements AIProvider {
       
       return normalized;
     } catch (error) {
-      console.error('Error generating local embedding:', error);
+      logger.error('Error generating local embedding:', error);
       throw error;
     }
   }
@@ -106,7 +109,7 @@ export class LocalProvider implements AIProvider {
       
       return calculateCosineSimilarity(queryEmbedding, contentEmbedding);
     } catch (error) {
-      console.error('Error calculating relevance with local model:', error);
+      logger.error('Error calculating relevance with local model:', error);
       return 0;
     }
   }
@@ -115,7 +118,9 @@ export class LocalProvider implements AIProvider {
    * Summarize content (basic implementation)
    * This would need to be replaced with actual local model inference
    */
-  async summarizeContent(content: string, maxLength: number = 200): Promise<string> {
+  async summarizeContent(content: string, maxLength: number = 200, options: AIRequestOptions = {}): Promise<string> {
+    options.signal?.throwIfAborted();
+
     // This is just a very basic extractive summary as a placeholder
     // In a real implementation, this would run inference on a local model
     
@@ -1,4 +1,4 @@
-import { AIProvider } from './aiProvider';
+import { AIProvider, AIRequestOptions } from './aiProvider';
 
 /**
  * Mock implementation of AIProvider for testing without real AI APIs
@@ -42,7 +42,9 @@ export class MockProvider implements AIProvider {
   /**
    * Generate a simple summary by extracting key sentences
    */
-  async summarizeContent(content: string, maxLength: number = 200): Promise<string> {
+  async summarizeContent(content: string, maxLength: number = 200, options: AIRequestOptions = {}): Promise<string> {
+    options.signal?.throwIfAborted();
+
     if (content.length <= maxLength) {
       return content;
     }
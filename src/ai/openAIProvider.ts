@@ -1,6 +1,9 @@
 import axios from 'axios';
-import { AIProvider, OpenAIConfig } from './aiProvider';
+import { AIProvider, AIRequestOptions, OpenAIConfig } from './aiProvider';
 import { calculateCosineSimilarity } from './utilities';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('OpenAIProvider');
 
 /**
  * OpenAI implementation of AIProvider
@@ -63,7 +66,7 @@ export class OpenAIProvider implements AIProvider {
       
       return vector;
     } catch (error) {
-      console.error('Error generating OpenAI embedding:', error);
+      logger.error('Error generating OpenAI embedding:', error);
       throw error;
     }
   }
@@ -78,7 +81,7 @@ export class OpenAIProvider implements AIProvider {
       
       return calculateCosineSimilarity(queryEmbedding, contentEmbedding);
     } catch (error) {
-      console.error('Error calculating relevance with OpenAI:', error);
+      logger.error('Error calculating relevance with OpenAI:', error);
       return 0; // Return minimum score on error
     }
   }
@@ -86,7 +89,7 @@ export class OpenAIProvider implements AIProvider {
   /**
    * Summarize content using OpenAI API
    */
-  async summarizeContent(content: string, maxLength: number = 200): Promise<string> {
+  async summarizeContent(content: string, maxLength: number = 200, options: AIRequestOptions = {}): Promise<string> {
     try {
       const response = await axios.post(
         'https://api.openai.com/v1/chat/completions',
@@ -106,6 +109,7 @@ export class OpenAIProvider implements AIProvider {
           temperature: 0.3
         },
         {
+          signal: options.signal,
           headers: {
             'Authorization': `Bearer ${this.config.apiKey}`,
             'Content-Type': 'application/json'
@@ -115,7 +119,10 @@ export class OpenAIProvider implements AIProvider {
       
       return response.data.choices[0].message.content.trim();
     } catch (error) {
-      console.error('Error summarizing content with OpenAI:', error);
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      logger.error('Error summarizing content with OpenAI:', error);
       // In case of error, return truncated original content
       return content.length > maxLength
         ? content.substring(0, maxLength - 3) + '...'
@@ -164,7 +171,7 @@ Return only the code, no explanations unless specifically requested.`;
       
       return response.data.choices[0].message.content.trim();
     } catch (error) {
-      console.error('Error generating code with OpenAI:', error);
+      logger.error('Error generating code with OpenAI:', error);
       throw new Error(`Failed to generate code: ${error}`);
     }
   }
@@ -214,7 +221,7 @@ ${options.style ? `Style requirements: ${options.style}` : ''}`;
       
       return response.data.choices[0].message.content.trim();
     } catch (error) {
-      console.error('Error transforming content with OpenAI:', error);
+      logger.error('Error transforming content with OpenAI:', error);
       throw new Error(`Failed to transform content: ${error}`);
     }
   }
@@ -0,0 +1,159 @@
+import { AIProvider, AIRequestOptions, SamplingConfig } from './aiProvider';
+import { requestContext } from '../requestContext';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('SamplingProvider');
+
+type SamplingTask = 'summary' | 'relevance' | 'code' | 'transform';
+
+// Upper bounds on tokens the client may generate per request, unless the config sets its own
+const DEFAULT_MAX_TOKENS: Record<SamplingTask, number> = {
+  summary: 1024,
+  relevance: 8,
+  code: 2000,
+  transform: 2000
+};
+
+// What matters most for each task, passed to the client as model preferences
+const TASK_PRIORITIES: Record<SamplingTask, { costPriority: number; speedPriority: number; intelligencePriority: number }> = {
+  summary: { costPriority: 0.5, speedPriority: 0.6, intelligencePriority: 0.4 },
+  relevance: { costPriority: 0.7, speedPriority: 0.9, intelligencePriority: 0.2 },
+  code: { costPriority: 0.2, speedPriority: 0.3, intelligencePriority: 0.9 },
+  transform: { costPriority: 0.3, speedPriority: 0.3, intelligencePriority: 0.8 }
+};
+
+/**
+ * AIProvider that asks the connected MCP client to run prompts through its own model
+ * with sampling/createMessage, so the server needs no API keys.
+ * Only works while handling a request from a client that declared the sampling capability.
+ */
+export class SamplingProvider implements AIProvider {
+  private config: SamplingConfig;
+
+  constructor(config: SamplingConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Sampling returns text only; callers fall back to other relevance scoring
+   */
+  async generateEmbedding(): Promise<number[]> {
+    throw new Error('Embeddings are not available through client sampling');
+  }
+
+  /**
+   * Ask the client's model for a 0-1 relevance score
+   */
+  async calculateRelevance(queryText: string, contentText: string): Promise<number> {
+    try {
+      const reply = await this.createMessage('relevance',
+        'Rate how relevant the content is to the query on a scale from 0 to 1. Reply with the number only.',
+        `Query: ${queryText}\n\nContent:\n${this.limitInput(contentText)}`);
+
+      const score = parseFloat(reply);
+      return Number.isNaN(score) ? 0 : Math.min(1, Math.max(0, score));
+    } catch (error) {
+      logger.error('Error calculating relevance through sampling:', error);
+      return 0; // Return minimum score on error
+    }
+  }
+
+  async summarizeContent(content: string, maxLength: number = 200, options: AIRequestOptions = {}): Promise<string> {
+    try {
+      return await this.createMessage('summary',
+        `Summarize the following text in no more than ${maxLength} characters. Focus on key information only.`,
+        this.limitInput(content),
+        Math.ceil(maxLength / 3),
+        options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      logger.error('Error summarizing content through sampling:', error);
+      // In case of error, return truncated original content
+      return content.length > maxLength
+        ? content.substring(0, maxLength - 3) + '...'
+        : content;
+    }
+  }
+
+  async generateCode(prompt: string, language: string, context?: string): Promise<string> {
+    const systemPrompt = `You are an expert ${language} developer. Generate clean, production-ready code based on the user's requirements.
+Include necessary imports, proper error handling, and clear comments.
+Follow ${language} best practices and conventions.
+Return only the code, no explanations unless specifically requested.`;
+
+    try {
+      return await this.createMessage('code', systemPrompt,
+        this.limitInput(context ? `${prompt}\n\nContext:\n${context}` : prompt));
+    } catch (error) {
+      logger.error('Error generating code through sampling:', error);
+      throw new Error(`Failed to generate code: ${error}`);
+    }
+  }
+
+  async transformContent(content: string, sourceFormat: string, targetFormat: string, options: any = {}): Promise<string> {
+    const systemPrompt = `You are an expert content transformer. Convert the provided ${sourceFormat} content to ${targetFormat} format.
+Maintain the core information while adapting to the target format's conventions and best practices.
+${options.language ? `Target language: ${options.language}` : ''}
+${options.framework ? `Target framework: ${options.framework}` : ''}
+${options.style ? `Style requirements: ${options.style}` : ''}`;
+
+    try {
+      return await this.createMessage('transform', systemPrompt,
+        `Transform this ${sourceFormat} content to ${targetFormat}:\n\n${this.limitInput(content)}`,
+        options.maxTokens);
+    } catch (error) {
+      logger.error('Error transforming content through sampling:', error);
+      throw new Error(`Failed to transform content: ${error}`);
+    }
+  }
+
+  /**
+   * Send one sampling/createMessage request to the client the current request came from.
+   * The requested token count is capped at the configured limit for the task.
+   */
+  private async createMessage(
+    task: SamplingTask,
+    systemPrompt: string,
+    text: string,
+    requestedTokens?: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const context = requestContext.getStore();
+    if (!context) {
+      throw new Error('Sampling is only available while handling a client request');
+    }
+    if (!context.clientCapabilities?.sampling) {
+      throw new Error('The connected client does not support sampling');
+    }
+
+    const limit = this.config.maxTokens?.[task] ?? DEFAULT_MAX_TOKENS[task];
+    const maxTokens = Math.max(1, Math.min(requestedTokens ?? limit, limit));
+
+    const result = await context.sendRequest('sampling/createMessage', {
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+      systemPrompt,
+      includeContext: 'none',
+      maxTokens,
+      temperature: task === 'code' || task === 'relevance' ? 0.1 : 0.3,
+      modelPreferences: {
+        hints: (this.config.modelHints || []).map(name => ({ name })),
+        ...TASK_PRIORITIES[task]
+      }
+    }, {
+      signal: signal ?? context.signal,
+      timeoutMs: (this.config.timeoutSeconds ?? 120) * 1000
+    });
+
+    if (result?.content?.type !== 'text' || typeof result.content.text !== 'string') {
+      throw new Error('Client returned a sampling result without text content');
+    }
+    return result.content.text.trim();
+  }
+
+  private limitInput(text: string): string {
+    const maxChars = this.config.maxInputChars ?? 12000;
+    return text.length > maxChars ? text.substring(0, maxChars) : text;
+  }
+}
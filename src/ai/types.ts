@@ -9,4 +9,6 @@ export interface AIEnhancedWikiContent {
   type?: string;
   relevanceScore?: number;
   summary?: string;
+  resourceUri?: string;  // wiki:// URI of the page, when it can be read as a resource
+  breadcrumbs?: string[]; // Where the page sits in its wiki, outermost first
 }
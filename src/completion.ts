@@ -0,0 +1,77 @@
+/**
+ * Ranking for completion/complete suggestions
+ */
+
+export interface CompletionCandidate {
+  value: string;                // Inserted when the suggestion is picked
+  label?: string;               // Also matched, e.g. a page title for a page path
+}
+
+export interface CompletionResult {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+// The spec caps a completion response at 100 values
+export const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Match quality, lower is better; undefined when the text does not match at all.
+ * Prefix beats word-start, word-start beats substring, substring beats fuzzy
+ * (characters in order with gaps), and tighter fuzzy matches beat looser ones.
+ */
+export function matchScore(text: string, input: string): number | undefined {
+  const haystack = text.toLowerCase();
+  const needle = input.toLowerCase();
+
+  if (!needle || haystack.startsWith(needle)) return 0;
+  if (new RegExp(`[\\s/_.:-]${escapeRegExp(needle)}`).test(haystack)) return 1;
+  if (haystack.includes(needle)) return 2;
+
+  // Fuzzy: every input character appears in order; penalise the gaps between them
+  let position = -1;
+  let gaps = 0;
+  for (const char of needle) {
+    const next = haystack.indexOf(char, position + 1);
+    if (next < 0) return undefined;
+    if (position >= 0) gaps += next - position - 1;
+    position = next;
+  }
+  return 4 - 1 / (1 + gaps);
+}
+
+/**
+ * Rank candidates against what the user has typed so far, dropping non-matches and duplicates.
+ * Ties keep the candidates' original order.
+ */
+export function rankCompletions(candidates: CompletionCandidate[], input: string): CompletionResult {
+  const best = new Map<string, number>();
+
+  for (const candidate of candidates) {
+    const scores = [matchScore(candidate.value, input), candidate.label ? matchScore(candidate.label, input) : undefined]
+      .filter((score): score is number => score !== undefined);
+    if (scores.length === 0) continue;
+
+    const score = Math.min(...scores);
+    const previous = best.get(candidate.value);
+    if (previous === undefined || score < previous) {
+      best.set(candidate.value, score);
+    }
+  }
+
+  // Map iteration follows insertion order, so the sort is stable relative to the candidates
+  const ranked = Array.from(best.entries())
+    .sort((a, b) => a[1] - b[1])
+    .map(([value]) => value);
+
+  return {
+    values: ranked.slice(0, MAX_COMPLETION_VALUES),
+    total: ranked.length,
+    hasMore: ranked.length > MAX_COMPLETION_VALUES
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,8 +1,40 @@
-import { WikiSource } from './sources/wikiSource';
-import { CodeGenerationAgent } from './agents/CodeGenerationAgent';
+import { randomUUID } from 'crypto';
+import { WikiSource, WIKI_PAGE_URI_TEMPLATE } from './sources/wikiSource';
+import { SourceRegistry } from './sources/sourceRegistry';
+import { WorkspaceSource } from './sources/workspaceSource';
+import { WikiSourceConfig } from './sources/types';
+import { CodeGenerationAgent, FILE_EXTENSIONS } from './agents/CodeGenerationAgent';
 import { ContentTransformer } from './transformation/ContentTransformer';
 import { TemplateEngine } from './transformation/TemplateEngine';
+import { PromptLibrary } from './transformation/PromptLibrary';
 import { AIService } from './ai/aiService';
+import { AIEnhancedWikiContent } from './ai/types';
+import { ToolRegistry, ToolCallContext } from './tools/toolRegistry';
+import { validateSchema } from './tools/schemaValidator';
+import { InvalidCursorError, cursorScope, decodeCursor, paginate } from './pagination';
+import { CompletionCandidate, rankCompletions } from './completion';
+import { ClientRequestError, ClientRequestOptions, RequestContext, requestContext } from './requestContext';
+import { RequestCancelledError, RequestScheduler, RequestTimeoutError, SchedulerClassConfig, SchedulerOverloadedError } from './scheduler';
+import { Logger, LogLevel, LogRecord, isAtLeast, isLogLevel } from './utils/logger';
+import {
+  ToolResult,
+  searchResultsToToolResult,
+  sourcesToToolResult,
+  generatedFilesToToolResult,
+  projectToToolResult,
+  toLegacyToolResult
+} from './tools/toolResult';
+import {
+  SEARCH_WIKI_TOOL,
+  LIST_WIKI_SOURCES_TOOL,
+  TRANSFORM_CONTENT_TOOL,
+  GENERATE_CODE_TOOL,
+  GENERATE_PROJECT_TOOL,
+  ADD_WIKI_SOURCE_TOOL,
+  REMOVE_WIKI_SOURCE_TOOL,
+  REFRESH_WIKI_SOURCE_TOOL,
+  CLEAR_WIKI_CACHE_TOOL
+} from './tools/definitions';
 
 export interface MCPRequest {
   jsonrpc: string;
@@ -13,9 +45,105 @@ export interface MCPRequest {
 
 export interface MCPResponse {
   jsonrpc: string;
-  id: string | number;
+  id: string | number | null;
   result?: any;
-  error?: { code: number; message: string };
+  error?: { code: number; message: string; data?: any };
+}
+
+export interface MCPNotification {
+  jsonrpc: string;
+  method: string;
+  params?: any;
+}
+
+/**
+ * Per-connection state shared between a transport and the server.
+ * Stdio has a single implicit session; the HTTP transport creates one per client.
+ */
+export interface MCPSession {
+  id: string;
+  clientInfo?: { name: string; version: string };
+  clientCapabilities?: Record<string, any>;
+  protocolVersion?: string;
+  initialized?: boolean;
+  logLevel?: LogLevel;          // Set by logging/setLevel; no log messages are sent before that
+  admin?: boolean;              // Set by the transport for clients trusted with the admin tools
+  notify(message: MCPNotification | MCPRequest): void; // Notifications and server-initiated requests
+}
+
+export function createErrorResponse(id: string | number | null, code: number, message: string): MCPResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+// Newest first; the first entry is offered when the client asks for an unknown version
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// First version with outputSchema, structuredContent and resource_link tool results
+const STRUCTURED_TOOL_OUTPUT_VERSION = '2025-06-18';
+
+// search_wiki ranks at most this many results per source; later pages come from a snapshot of that ranking
+const SEARCH_DEPTH = 50;
+const DEFAULT_SEARCH_PAGE_SIZE = 10;
+const SEARCH_SNAPSHOT_TTL_MS = 10 * 60 * 1000;
+const MAX_SEARCH_SNAPSHOTS = 100;
+
+// Ranked results of a search_wiki call that has more pages, kept until its cursors expire
+interface SearchSnapshot {
+  query: string;
+  results: AIEnhancedWikiContent[];
+  expiresAt: number;
+}
+
+const logger = new Logger('MCPServer');
+
+// Records logged outside any session's messages reach every session only from this level up;
+// lower levels cover transport bookkeeping such as session ids and client addresses
+const SHARED_LOG_LEVEL: LogLevel = 'warning';
+
+// Server-initiated requests the client has not answered yet
+interface PendingClientRequest {
+  resolve(result: any): void;
+  reject(error: Error): void;
+}
+
+const DEFAULT_CLIENT_REQUEST_TIMEOUT_MS = 120000;
+
+// Scheduled requests are either quick lookups or slow AI work; each class has its own limits
+export type RequestClass = 'search' | 'generation';
+
+export const DEFAULT_SCHEDULER_CONFIG: Record<RequestClass, SchedulerClassConfig> = {
+  search: { concurrency: 8, timeoutMs: 30000, maxQueued: 50 },
+  generation: { concurrency: 2, timeoutMs: 180000, maxQueued: 10 }
+};
+
+const TOOL_CLASSES: Record<string, RequestClass> = {
+  search_wiki: 'search',
+  list_wiki_sources: 'search',
+  add_wiki_source: 'search',
+  refresh_wiki_source: 'search',
+  transform_content: 'generation',
+  generate_code: 'generation',
+  generate_project: 'generation'
+};
+
+// Registered with options.adminTools, and then only offered to admin sessions
+const ADMIN_TOOL_NAMES = new Set(
+  [ADD_WIKI_SOURCE_TOOL, REMOVE_WIKI_SOURCE_TOOL, REFRESH_WIKI_SOURCE_TOOL, CLEAR_WIKI_CACHE_TOOL].map(tool => tool.name)
+);
+
+const METHOD_CLASSES: Record<string, RequestClass> = {
+  'resources/read': 'search',
+  'prompts/get': 'search',
+  'getContext': 'search',
+  'wiki/transform': 'generation',
+  'wiki/generate': 'generation',
+  'wiki/generateProject': 'generation'
+};
+
+export interface MCPServerOptions {
+  scheduler?: Partial<Record<RequestClass, Partial<SchedulerClassConfig>>>; // Overrides DEFAULT_SCHEDULER_CONFIG
+  adminTools?: boolean;         // Register the tools that add, remove and refresh sources for admin sessions (off by default)
+  workspaceRoots?: string[];    // Directories client roots must lie under; unset accepts any root, which only suits stdio
 }
 
 export interface WikiResult {
@@ -27,57 +155,351 @@ export interface WikiResult {
 }
 
 export class MCPServer {
-  sources = [new WikiSource()];
+  sources = new SourceRegistry();
+  wiki = new WikiSource();
+  workspace = new WorkspaceSource();
   version = '1.0.1'; // Updated version to force reload
   private codeGenerationAgent?: CodeGenerationAgent;
   private contentTransformer?: ContentTransformer;
+  private promptLibrary?: PromptLibrary;
+  private templateEngine?: TemplateEngine;
+  private tools = new ToolRegistry();
+  private inFlightRequests: Map<string, AbortController> = new Map(); // Session and request id -> controller
+  private pendingClientRequests: Map<string, PendingClientRequest> = new Map(); // Session and request id -> waiter
+  private nextClientRequestId = 0;
+  private sessions: Set<MCPSession> = new Set();
+  private subscriptions: Map<string, Set<MCPSession>> = new Map(); // Resource URI -> subscribed sessions
+  private subscriptionRefreshTimer?: NodeJS.Timeout;
+  private searchSnapshots: Map<string, SearchSnapshot> = new Map(); // Cursor scope -> ranked results
+  private forwardingLog = false;
+  private removeLogSink: () => void;
+  subscriptionRefreshIntervalMs = 60000;
+  listPageSize = 100;            // Items per page for tools/list, resources/list, prompts/list and templates
+  scheduler: RequestScheduler;
+
+  constructor(options: MCPServerOptions = {}) {
+    this.scheduler = new RequestScheduler({
+      search: { ...DEFAULT_SCHEDULER_CONFIG.search, ...options.scheduler?.search },
+      generation: { ...DEFAULT_SCHEDULER_CONFIG.generation, ...options.scheduler?.generation }
+    });
+    this.workspace.allowedDirectories = options.workspaceRoots;
+    this.registerTools();
+    if (options.adminTools) {
+      this.registerAdminTools();
+    }
+
+    this.sources.register(this.wiki);
+    this.sources.register(this.workspace);
+    this.sources.on('resourceUpdated', (uri: string) => this.notifyResourceUpdated(uri));
+    this.sources.on('resourceListChanged', () => this.broadcast({
+      jsonrpc: '2.0',
+      method: 'notifications/resources/list_changed'
+    }));
+    this.removeLogSink = Logger.addSink(record => this.forwardLog(record));
+  }
+
+  /**
+   * Close every remaining session and stop forwarding log records; the server is not used afterwards
+   */
+  close() {
+    for (const session of Array.from(this.sessions)) {
+      this.closeSession(session);
+    }
+    this.searchSnapshots.clear();
+    this.removeLogSink();
+  }
+
+  /**
+   * Entry point for transports: validates a decoded JSON-RPC message or batch and
+   * resolves with the reply to write back, or null when nothing should be sent
+   */
+  async handleMessage(message: any, session?: MCPSession): Promise<MCPResponse | MCPResponse[] | null> {
+    if (!Array.isArray(message)) {
+      return this.handleSingleMessage(message, session);
+    }
+
+    if (message.length === 0) {
+      return createErrorResponse(null, -32600, 'Invalid Request: empty batch');
+    }
+
+    const replies = await Promise.all(message.map(item => this.handleSingleMessage(item, session)));
+    const responses = replies.filter((reply): reply is MCPResponse => reply !== null);
+    return responses.length > 0 ? responses : null;
+  }
+
+  private handleSingleMessage(message: any, session?: MCPSession): Promise<MCPResponse | null> {
+    const invalid = this.validateMessage(message);
+    if (invalid) {
+      return Promise.resolve(invalid);
+    }
+
+    if (message.method === undefined) {
+      this.handleClientResponse(message, session);
+      return Promise.resolve(null);
+    }
+
+    if (!('id' in message)) {
+      this.handleRequest(message as MCPNotification, () => {}, session);
+      return Promise.resolve(null);
+    }
+
+    const key = this.requestKey(message.id, session);
+    const controller = new AbortController();
+    this.inFlightRequests.set(key, controller);
+
+    const run = (signal: AbortSignal) => new Promise<MCPResponse>(send => {
+      this.handleRequest(message as MCPRequest, send, session, signal);
+    });
+
+    return new Promise<MCPResponse | null>(resolve => {
+      // Cancelled requests are never answered, even if the handler finishes later
+      controller.signal.addEventListener('abort', () => resolve(null));
+
+      const requestClass = this.requestClass(message as MCPRequest);
+      if (!requestClass) {
+        run(controller.signal).then(resolve);
+        return;
+      }
+
+      this.scheduler.run(requestClass, run, controller.signal).then(resolve, (error: any) => {
+        if (error instanceof RequestTimeoutError) {
+          logger.warning(`${message.method} timed out after ${error.timeoutMs} ms`);
+          resolve(createErrorResponse(message.id, -32003, error.message));
+        } else if (error instanceof SchedulerOverloadedError) {
+          logger.warning(`Rejected ${message.method}: ${error.message}`);
+          resolve(createErrorResponse(message.id, -32004, error.message));
+        } else if (!(error instanceof RequestCancelledError)) {
+          resolve(createErrorResponse(message.id, -32000, `Internal server error: ${error?.message || String(error)}`));
+        }
+      });
+    }).finally(() => this.inFlightRequests.delete(key));
+  }
+
+  // Requests that do real work are scheduled; protocol housekeeping is answered straight away
+  private requestClass(req: MCPRequest): RequestClass | undefined {
+    const [classes, name] = req.method === 'tools/call'
+      ? [TOOL_CLASSES, req.params?.name]
+      : [METHOD_CLASSES, req.method];
+    return Object.prototype.hasOwnProperty.call(classes, name) ? classes[name] : undefined;
+  }
 
-  handleRequest(req: MCPRequest, send: (resp: MCPResponse) => void) {
+  private createRequestContext(session: MCPSession, signal: AbortSignal): RequestContext {
+    return {
+      sessionId: session.id,
+      clientCapabilities: session.clientCapabilities,
+      signal,
+      sendRequest: (method, params, options) => this.sendClientRequest(session, method, params, options)
+    };
+  }
+
+  /**
+   * Send a request to the client and resolve with its result.
+   * Rejects with ClientRequestError when the client answers with an error; aborting or timing out
+   * sends notifications/cancelled so the client can stop working on it.
+   */
+  sendClientRequest(session: MCPSession, method: string, params: any, options: ClientRequestOptions = {}): Promise<any> {
+    const { signal, timeoutMs = DEFAULT_CLIENT_REQUEST_TIMEOUT_MS } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new Error(`${method} cancelled`));
+    }
+
+    const id = `server-${++this.nextClientRequestId}`;
+    const key = this.requestKey(id, session);
+
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingClientRequests.delete(key);
+      };
+      const cancel = (reason: string) => {
+        finish();
+        session.notify({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: id, reason } });
+        reject(new Error(`${method} ${reason}`));
+      };
+      const onAbort = () => cancel('cancelled');
+      const timer = setTimeout(() => cancel(`timed out after ${timeoutMs} ms`), timeoutMs);
+      timer.unref(); // An unanswered request must not keep the process alive
+      signal?.addEventListener('abort', onAbort);
+
+      this.pendingClientRequests.set(key, {
+        resolve: result => { finish(); resolve(result); },
+        reject: error => { finish(); reject(error); }
+      });
+      session.notify({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  /**
+   * Ask the client for its roots and re-index the documentation under them
+   */
+  private async refreshWorkspaceRoots(session: MCPSession): Promise<void> {
     try {
-      // Debug output to stderr to avoid interfering with stdout JSON-RPC
-      console.error(`[DEBUG] Handling MCP request: ${req.method}`);
-      
+      const result = await this.sendClientRequest(session, 'roots/list', {});
+      await this.workspace.setRoots(session.id, Array.isArray(result?.roots) ? result.roots : []);
+    } catch (error) {
+      logger.warning(`Failed to index workspace roots for session ${session.id}:`, error);
+    }
+  }
+
+  // Responses for requests we did not send (or that already timed out) are dropped
+  private handleClientResponse(message: MCPResponse, session?: MCPSession) {
+    const pending = message.id !== null ? this.pendingClientRequests.get(this.requestKey(message.id, session)) : undefined;
+    if (!pending) {
+      logger.debug(`Ignoring response to unknown request ${message.id}`);
+      return;
+    }
+
+    if (message.error) {
+      pending.reject(new ClientRequestError(message.error.code, message.error.message, message.error.data));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private requestKey(id: string | number, session?: MCPSession): string {
+    return `${session?.id ?? ''}:${typeof id}:${id}`;
+  }
+
+  private validateMessage(message: any): MCPResponse | null {
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+      return createErrorResponse(null, -32600, 'Invalid Request: expected a JSON-RPC object');
+    }
+
+    const hasValidId = typeof message.id === 'string' || typeof message.id === 'number';
+    if ('id' in message && !hasValidId) {
+      return createErrorResponse(null, -32600, 'Invalid Request: id must be a string or number');
+    }
+    const id = hasValidId ? message.id : null;
+
+    if (message.jsonrpc !== '2.0') {
+      return createErrorResponse(id, -32600, 'Invalid Request: jsonrpc must be "2.0"');
+    }
+
+    if (message.method === undefined) {
+      const isResponse = hasValidId && ('result' in message || 'error' in message);
+      return isResponse ? null : createErrorResponse(id, -32600, 'Invalid Request: missing method');
+    }
+
+    if (typeof message.method !== 'string') {
+      return createErrorResponse(id, -32600, 'Invalid Request: method must be a string');
+    }
+
+    if (message.params !== undefined && (message.params === null || typeof message.params !== 'object')) {
+      return createErrorResponse(id, -32600, 'Invalid Request: params must be an object or array');
+    }
+
+    return null;
+  }
+
+  handleRequest(
+    req: MCPRequest | MCPNotification,
+    send: (resp: MCPResponse) => void,
+    session?: MCPSession,
+    signal: AbortSignal = new AbortController().signal
+  ) {
+    // Code called by the handler can reach back to this client, e.g. for sampling, and its log records go to this client only
+    if (session) {
+      requestContext.run(this.createRequestContext(session, signal), () => this.dispatchRequest(req, send, session, signal));
+    } else {
+      this.dispatchRequest(req, send, session, signal);
+    }
+  }
+
+  private dispatchRequest(req: MCPRequest | MCPNotification, send: (resp: MCPResponse) => void, session: MCPSession | undefined, signal: AbortSignal) {
+    // Notifications carry no id and must never be answered
+    if (!('id' in req)) {
+      this.handleNotification(req, session);
+      return;
+    }
+
+    const fail = (error: any) => {
+      logger.error('Error handling request:', error);
+      send({
+        jsonrpc: '2.0',
+        id: req.id,
+        error: { code: -32000, message: `Internal server error: ${error?.message || String(error)}` }
+      });
+    };
+
+    // Async handlers report their failures through the promise they return, which the try below never sees
+    let pending: void | Promise<void> = undefined;
+    try {
+      logger.debug(`Handling MCP request: ${req.method}`);
+
       switch (req.method) {
         case 'initialize':
-          this.handleInitialize(req, send);
+          pending = this.handleInitialize(req, send, session);
+          break;
+
+        case 'ping':
+          send({ jsonrpc: '2.0', id: req.id, result: {} });
           break;
           
         case 'tools/list':
-          this.handleToolsList(req, send);
+          pending = this.handleToolsList(req, send, session);
           break;
           
         case 'tools/call':
-          this.handleToolsCall(req, send);
+          pending = this.handleToolsCall(req, send, session, signal);
           break;
           
         case 'resources/list':
-          this.handleResourcesList(req, send);
+          pending = this.handleResourcesList(req, send);
           break;
           
+        case 'resources/templates/list':
+          pending = this.handleResourceTemplatesList(req, send);
+          break;
+
         case 'resources/read':
-          this.handleResourcesRead(req, send);
+          pending = this.handleResourcesRead(req, send);
+          break;
+
+        case 'prompts/list':
+          pending = this.handlePromptsList(req, send);
+          break;
+
+        case 'prompts/get':
+          pending = this.handlePromptsGet(req, send);
+          break;
+
+        case 'resources/subscribe':
+          pending = this.handleResourcesSubscribe(req, send, session);
+          break;
+
+        case 'resources/unsubscribe':
+          pending = this.handleResourcesUnsubscribe(req, send, session);
+          break;
+
+        case 'completion/complete':
+          pending = this.handleCompletionComplete(req, send, session);
+          break;
+
+        case 'logging/setLevel':
+          pending = this.handleLoggingSetLevel(req, send, session);
           break;
           
         // Legacy support for custom methods
         case 'getContext':
-          this.handleGetContext(req, send);
+          pending = this.handleGetContext(req, send);
           break;
           
         case 'listSources':
-          this.handleListSources(req, send);
+          pending = this.handleListSources(req, send);
           break;
 
         // New transformation methods
         case 'wiki/transform':
-          this.handleTransform(req, send);
+          pending = this.handleTransform(req, send);
           break;
 
         case 'wiki/generate':
-          this.handleGenerate(req, send);
+          pending = this.handleGenerate(req, send);
           break;
 
         case 'wiki/generateProject':
-          this.handleGenerateProject(req, send);
+          pending = this.handleGenerateProject(req, send);
           break;
           
         default:
@@ -88,47 +510,101 @@ export class MCPServer {
           });
       }
     } catch (error: any) {
-      console.error('Error handling request:', error);
-      send({
-        jsonrpc: '2.0',
-        id: req.id,
-        error: { code: -32000, message: `Internal server error: ${error?.message || String(error)}` }
-      });
+      fail(error);
+      return;
     }
+    Promise.resolve(pending).catch(fail);
   }
   
-  private handleInitialize(req: MCPRequest, send: (resp: MCPResponse) => void) {
+  /**
+   * Called by a transport when its connection goes away (stdin closed, HTTP session deleted)
+   */
+  closeSession(session: MCPSession) {
+    session.initialized = false;
+    this.sessions.delete(session);
+    for (const uri of Array.from(this.subscriptions.keys())) {
+      this.removeSubscription(uri, session);
+    }
+    this.workspace.removeSession(session.id);
+    for (const [key, pending] of Array.from(this.pendingClientRequests.entries())) {
+      if (key.startsWith(`${session.id}:`)) {
+        pending.reject(new Error('Session closed'));
+      }
+    }
+    logger.debug(`Session closed: ${session.id}`);
+  }
+
+  private handleNotification(notification: MCPNotification, session?: MCPSession) {
+    switch (notification.method) {
+      case 'notifications/initialized':
+        if (session) {
+          session.initialized = true;
+          if (session.clientCapabilities?.roots) {
+            this.refreshWorkspaceRoots(session);
+          }
+        }
+        break;
+
+      case 'notifications/roots/list_changed':
+        if (session?.clientCapabilities?.roots) {
+          this.refreshWorkspaceRoots(session);
+        }
+        break;
+
+      case 'notifications/cancelled': {
+        const requestId = notification.params?.requestId;
+        const controller = requestId !== undefined
+          ? this.inFlightRequests.get(this.requestKey(requestId, session))
+          : undefined;
+        // Unknown or already finished requests are ignored, as the spec allows
+        controller?.abort();
+        break;
+      }
+
+      default:
+        logger.debug(`Ignoring notification: ${notification.method}`);
+    }
+  }
+
+  private handleInitialize(req: MCPRequest, send: (resp: MCPResponse) => void, session?: MCPSession) {
+    const requestedVersion = req.params?.protocolVersion;
+    const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requestedVersion)
+      ? requestedVersion
+      : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+    if (session) {
+      this.sessions.add(session);
+      session.clientInfo = req.params?.clientInfo;
+      session.clientCapabilities = req.params?.capabilities || {};
+      session.protocolVersion = protocolVersion;
+      session.initialized = false;
+    }
+
     send({
       jsonrpc: '2.0',
       id: req.id,
       result: {
+        protocolVersion,
         capabilities: {
-          tools: {},
-          resources: {}
+          tools: { listChanged: false },
+          resources: { subscribe: true, listChanged: true },
+          prompts: { listChanged: false },
+          logging: {},
+          completions: {}
         },
         serverInfo: { 
           name: 'MCP Wiki Server',
           version: this.version
-        }
+        },
+        instructions: 'Use search_wiki to look up internal documentation and list_wiki_sources to see which wikis are configured.'
       }
     });
   }
   
   private async handleGetContext(req: MCPRequest, send: (resp: MCPResponse) => void) {
-    console.log(`Processing getContext request with params:`, JSON.stringify(req.params));
+    logger.debug('Processing getContext request with params:', req.params);
     
-    const resultsPromises = this.sources.map(async (src) => {
-      try {
-        const sourceResults = await src.getContext(req.params) || [];
-        console.log(`Source ${src.name} returned ${sourceResults.length} results`);
-        return sourceResults;
-      } catch (error) {
-        console.error(`Error getting context from source ${src.name}:`, error);
-        return [];
-      }
-    });
-    
-    const results = (await Promise.all(resultsPromises)).flat();
+    const results = await this.sources.search(req.params);
     
     // Format results properly for MCP protocol
     const formattedResults = results.map((result: any) => ({
@@ -162,272 +638,282 @@ export class MCPServer {
     send({
       jsonrpc: '2.0',
       id: req.id,
-      result: this.sources.map(s => s.name)
+      result: this.sources.list().map(s => s.name)
     });
   }
 
   // Standard MCP Protocol Methods
-  private handleToolsList(req: MCPRequest, send: (resp: MCPResponse) => void) {
-    send({
-      jsonrpc: '2.0',
-      id: req.id,
-      result: {
-        tools: [
-          {
-            name: 'search_wiki',
-            description: 'Search for information across configured wiki sources including GitBook, NixOS Wiki, GitHub Docs, and NixOS Manual',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Search query to find relevant wiki content'
-                }
-              },
-              required: ['query']
-            }
-          },
-          {
-            name: 'list_wiki_sources',
-            description: 'List all available wiki sources',
-            inputSchema: {
-              type: 'object',
-              properties: {}
-            }
-          },
-          {
-            name: 'transform_content',
-            description: 'Transform wiki content or markdown into executable code in specified programming language',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                content: {
-                  type: 'string',
-                  description: 'The markdown or wiki content to transform into code'
-                },
-                targetLanguage: {
-                  type: 'string',
-                  description: 'Target programming language (e.g., typescript, python, javascript, etc.)'
-                },
-                framework: {
-                  type: 'string',
-                  description: 'Optional framework to use (e.g., express, fastapi, react)'
-                },
-                projectType: {
-                  type: 'string',
-                  description: 'Optional project type (e.g., api, library, cli)'
-                }
-              },
-              required: ['content', 'targetLanguage']
-            }
-          },
-          {
-            name: 'generate_code',
-            description: 'Generate code from wiki content using templates and AI',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                content: {
-                  type: 'string',
-                  description: 'The wiki content or documentation to generate code from'
-                },
-                codeType: {
-                  type: 'string',
-                  description: 'Type of code to generate (e.g., dockerfile, typescript, python, yaml)'
-                },
-                templateName: {
-                  type: 'string',
-                  description: 'Optional template name to use for generation'
-                }
-              },
-              required: ['content', 'codeType']
-            }
-          },
-          {
-            name: 'generate_project',
-            description: 'Generate complete project structure from wiki documentation',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                content: {
-                  type: 'string',
-                  description: 'The wiki content describing the project requirements'
-                },
-                projectType: {
-                  type: 'string',
-                  description: 'Type of project to generate (e.g., express-api, react-app, cli-tool)'
-                },
-                language: {
-                  type: 'string',
-                  description: 'Programming language for the project (e.g., typescript, python, javascript)'
-                }
-              },
-              required: ['content', 'projectType', 'language']
-            }
-          }
-        ]
-      }
-    });
+  private handleToolsList(req: MCPRequest, send: (resp: MCPResponse) => void, session?: MCPSession) {
+    const structured = this.supportsStructuredToolOutput(session);
+    const tools = this.tools.list()
+      .filter(tool => this.canUseTool(tool.name, session))
+      .map(({ outputSchema, ...tool }) => structured ? { ...tool, outputSchema } : tool);
+
+    this.sendPage(req, send, 'tools', tools);
   }
 
-  private async handleToolsCall(req: MCPRequest, send: (resp: MCPResponse) => void) {
-    const { name, arguments: args } = req.params;
-    
+  /**
+   * Reply to a list method with one page of items and a nextCursor when more remain
+   */
+  private sendPage(req: MCPRequest, send: (resp: MCPResponse) => void, key: string, items: any[]) {
+    let page;
     try {
-      switch (name) {
-        case 'search_wiki':
-          const results = await this.sources[0].getContext({ query: { text: args.query || '' } });
-          send({
-            jsonrpc: '2.0',
-            id: req.id,
-            result: {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify(results, null, 2)
-                }
-              ]
-            }
-          });
-          break;
-          
-        case 'list_wiki_sources':
-          const sourceDetails = this.sources[0].getWikiSourceDetails();
-          const sourceStats = this.sources[0].getWikiSourceStats();
-          
-          const formattedOutput = {
-            summary: sourceStats,
-            sources: sourceDetails
-          };
-          
-          send({
-            jsonrpc: '2.0',
-            id: req.id,
-            result: {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify(formattedOutput, null, 2)
-                }
-              ]
-            }
-          });
-          break;
+      page = paginate(items, req.params?.cursor, this.listPageSize, req.method);
+    } catch (error) {
+      if (!(error instanceof InvalidCursorError)) throw error;
+      send({
+        jsonrpc: '2.0',
+        id: req.id,
+        error: { code: -32602, message: `Invalid params: ${error.message}` }
+      });
+      return;
+    }
 
-        case 'transform_content':
-          await this.handleTransformTool(args, req.id, send);
-          break;
+    const result: Record<string, any> = { [key]: page.items };
+    if (page.nextCursor) {
+      result.nextCursor = page.nextCursor;
+    }
+    send({ jsonrpc: '2.0', id: req.id, result });
+  }
 
-        case 'generate_code':
-          await this.handleGenerateCodeTool(args, req.id, send);
-          break;
+  // Sessions without a negotiated version (direct handleRequest callers) get the newest format
+  private supportsStructuredToolOutput(session?: MCPSession): boolean {
+    return !session?.protocolVersion || session.protocolVersion >= STRUCTURED_TOOL_OUTPUT_VERSION;
+  }
 
-        case 'generate_project':
-          await this.handleGenerateProjectTool(args, req.id, send);
-          break;
-          
-        default:
-          send({
-            jsonrpc: '2.0',
-            id: req.id,
-            error: { code: -32601, message: `Unknown tool: ${name}` }
-          });
-      }
+  private async handleToolsCall(
+    req: MCPRequest,
+    send: (resp: MCPResponse) => void,
+    session: MCPSession | undefined,
+    signal: AbortSignal
+  ) {
+    const name = req.params?.name;
+    const args = req.params?.arguments ?? {};
+    const handler = this.canUseTool(name, session) ? this.tools.getHandler(name) : undefined;
+
+    if (!handler) {
+      send({
+        jsonrpc: '2.0',
+        id: req.id,
+        error: { code: -32602, message: `Unknown tool: ${name}` }
+      });
+      return;
+    }
+
+    const errors = this.tools.validateArguments(name, args);
+    if (errors.length > 0) {
+      send({
+        jsonrpc: '2.0',
+        id: req.id,
+        error: { code: -32602, message: `Invalid arguments for tool ${name}: ${errors.join('; ')}`, data: { errors } }
+      });
+      return;
+    }
+
+    const context: ToolCallContext = { signal };
+    const progressToken = req.params?._meta?.progressToken;
+    if (session && progressToken !== undefined) {
+      context.onProgress = (progress, total, message) => {
+        if (signal.aborted) return;
+        session.notify({
+          jsonrpc: '2.0',
+          method: 'notifications/progress',
+          params: { progressToken, progress, total, message }
+        });
+      };
+    }
+
+    try {
+      const result: ToolResult = await handler(args, context);
+      this.checkStructuredContent(name, result);
+      send({
+        jsonrpc: '2.0',
+        id: req.id,
+        result: this.supportsStructuredToolOutput(session) ? result : toLegacyToolResult(result)
+      });
     } catch (error: any) {
       send({
         jsonrpc: '2.0',
         id: req.id,
-        error: { code: -32000, message: `Tool execution error: ${error.message}` }
+        error: error instanceof InvalidCursorError
+          ? { code: -32602, message: `Invalid arguments for tool ${name}: ${error.message}` }
+          : { code: -32000, message: `Tool execution error: ${error.message}` }
       });
     }
   }
 
-  private handleResourcesList(req: MCPRequest, send: (resp: MCPResponse) => void) {
-    send({
-      jsonrpc: '2.0',
-      id: req.id,
-      result: {
-        resources: [
-          {
-            uri: 'wiki://devops-examples',
-            name: 'DevOps Examples from Real Life',
-            description: 'GitBook containing DevOps examples and best practices',
-            mimeType: 'text/markdown'
-          },
-          {
-            uri: 'wiki://nixos-wiki',
-            name: 'NixOS Wiki',
-            description: 'Community-maintained NixOS documentation',
-            mimeType: 'text/markdown'
-          },
-          {
-            uri: 'wiki://github-docs',
-            name: 'GitHub REST API Docs',
-            description: 'Official GitHub REST API documentation',
-            mimeType: 'text/markdown'
-          },
-          {
-            uri: 'wiki://nixos-manual',
-            name: 'NixOS Manual',
-            description: 'Official NixOS manual and documentation',
-            mimeType: 'text/markdown'
-          }
-        ]
+  /**
+   * Scope of the snapshot a search_wiki cursor pages through.
+   * Throws InvalidCursorError when the snapshot has expired or was taken for another query.
+   */
+  private liveSearchSnapshotScope(cursor: unknown, query: string): string {
+    this.pruneSearchSnapshots();
+    const scope = cursorScope(cursor);
+    const snapshot = scope ? this.searchSnapshots.get(scope) : undefined;
+    if (!scope || !snapshot) {
+      throw new InvalidCursorError('Invalid or expired cursor; search again without one');
+    }
+    if (snapshot.query !== query) {
+      throw new InvalidCursorError();
+    }
+    return scope;
+  }
+
+  private saveSearchSnapshot(scope: string, snapshot: SearchSnapshot) {
+    this.pruneSearchSnapshots();
+    // Maps iterate in insertion order, so the first key is the oldest snapshot
+    while (this.searchSnapshots.size >= MAX_SEARCH_SNAPSHOTS) {
+      this.searchSnapshots.delete(this.searchSnapshots.keys().next().value!);
+    }
+    this.searchSnapshots.set(scope, snapshot);
+  }
+
+  private pruneSearchSnapshots() {
+    const now = Date.now();
+    for (const [scope, snapshot] of this.searchSnapshots) {
+      if (snapshot.expiresAt <= now) this.searchSnapshots.delete(scope);
+    }
+  }
+
+  // A result that does not match its declared outputSchema is a server bug; report it without failing the call
+  private checkStructuredContent(name: string, result: ToolResult) {
+    const schema = this.tools.get(name)?.outputSchema;
+    if (!schema || result.isError || !result.structuredContent) return;
+
+    const errors = validateSchema(schema, result.structuredContent);
+    if (errors.length > 0) {
+      logger.error(`Tool ${name} returned structured content that does not match its outputSchema: ${errors.join('; ')}`);
+    }
+  }
+
+  private registerTools() {
+    this.tools.register(SEARCH_WIKI_TOOL, async (args) => {
+      const pageSize = args.limit ?? DEFAULT_SEARCH_PAGE_SIZE;
+      if (args.cursor !== undefined) {
+        const scope = this.liveSearchSnapshotScope(args.cursor, args.query);
+        const snapshot = this.searchSnapshots.get(scope)!;
+        const page = paginate(snapshot.results, args.cursor, pageSize, scope);
+        return searchResultsToToolResult(args.query, page.items, {
+          total: snapshot.results.length,
+          offset: decodeCursor(args.cursor, scope),
+          nextCursor: page.nextCursor
+        });
       }
+
+      // Re-ranking on every page could reorder results, so the first page's ranking is kept for the rest
+      const results = await this.sources.search({ query: { text: args.query }, limit: SEARCH_DEPTH });
+      const scope = `search_wiki:${randomUUID()}`;
+      const page = paginate(results, undefined, pageSize, scope);
+      if (page.nextCursor) {
+        this.saveSearchSnapshot(scope, { query: args.query, results, expiresAt: Date.now() + SEARCH_SNAPSHOT_TTL_MS });
+      }
+      return searchResultsToToolResult(args.query, page.items, {
+        total: results.length,
+        offset: 0,
+        nextCursor: page.nextCursor
+      });
+    });
+
+    this.tools.register(LIST_WIKI_SOURCES_TOOL, async (args) => {
+      return sourcesToToolResult(
+        this.sources.getWikiSourceStats(),
+        this.sources.getWikiSourceDetails(),
+        args.includeHealth ? await this.sources.checkHealth() : undefined
+      );
+    });
+
+    this.tools.register(TRANSFORM_CONTENT_TOOL, (args, context) => this.handleTransformTool(args, context));
+    this.tools.register(GENERATE_CODE_TOOL, (args, context) => this.handleGenerateCodeTool(args, context));
+    this.tools.register(GENERATE_PROJECT_TOOL, (args, context) => this.handleGenerateProjectTool(args, context));
+  }
+
+  // Admin tools need a session the transport marked as admin; callers without a session run in-process
+  private canUseTool(name: string, session?: MCPSession): boolean {
+    return this.tools.has(name) && (!ADMIN_TOOL_NAMES.has(name) || !session || session.admin === true);
+  }
+
+  // Change the configured wikis at runtime; only registered for trusted deployments
+  private registerAdminTools() {
+    this.tools.register(ADD_WIKI_SOURCE_TOOL, async (args) => {
+      // Only a bare URL is written back to the config file as a plain string
+      const { persist, ...config } = args;
+      const source = this.wiki.addSource(Object.keys(config).length > 1 ? config as WikiSourceConfig : args.url, persist === true);
+      return {
+        content: [{ type: 'text', text: `Added ${source.type} source ${source.id} for ${source.url}` }],
+        structuredContent: { source, persisted: persist === true }
+      };
+    });
+
+    this.tools.register(REMOVE_WIKI_SOURCE_TOOL, async (args) => {
+      const source = this.wiki.removeSource(args.source, args.persist === true);
+      return {
+        content: [{ type: 'text', text: `Removed source ${source.id} (${source.url})` }],
+        structuredContent: { source, persisted: args.persist === true }
+      };
     });
+
+    this.tools.register(REFRESH_WIKI_SOURCE_TOOL, async (args) => {
+      const { refreshed, failed } = await this.wiki.refreshSource(args.source);
+      const text = failed.length > 0
+        ? `Refreshed ${refreshed.length} pages of ${args.source}; could not fetch ${failed.join(', ')}`
+        : `Refreshed ${refreshed.length} pages of ${args.source}`;
+      return {
+        content: [{ type: 'text', text }],
+        structuredContent: { source: args.source, refreshed, failed }
+      };
+    });
+
+    this.tools.register(CLEAR_WIKI_CACHE_TOOL, async (args) => {
+      const cleared = this.wiki.clearCache(args.source);
+      return {
+        content: [{ type: 'text', text: `Cleared ${cleared} cached pages${args.source ? ` of ${args.source}` : ''}` }],
+        structuredContent: { source: args.source, cleared }
+      };
+    });
+  }
+
+  private handleResourcesList(req: MCPRequest, send: (resp: MCPResponse) => void) {
+    this.sendPage(req, send, 'resources', this.sources.listResources());
+  }
+
+  private handleResourceTemplatesList(req: MCPRequest, send: (resp: MCPResponse) => void) {
+    this.sendPage(req, send, 'resourceTemplates', [
+      {
+        uriTemplate: WIKI_PAGE_URI_TEMPLATE,
+        name: 'wiki-page',
+        title: 'Wiki page',
+        description: 'A single page from a configured wiki source. {source} is the source id from list_wiki_sources, {pagePath} the page path on that wiki host.'
+      }
+    ]);
   }
 
   private async handleResourcesRead(req: MCPRequest, send: (resp: MCPResponse) => void) {
-    const { uri } = req.params;
+    const uri = req.params?.uri;
+
+    if (typeof uri !== 'string') {
+      send({
+        jsonrpc: '2.0',
+        id: req.id,
+        error: { code: -32602, message: 'Missing required parameter: uri' }
+      });
+      return;
+    }
     
     try {
-      // Extract resource identifier from URI
-      const resourceId = uri.replace('wiki://', '');
-      let content = '';
-      
-      switch (resourceId) {
-        case 'devops-examples':
-          // Get content from GitBook source
-          const gitbookResults = await this.sources[0].getContext({ query: { text: 'DevOps examples tutorials guides' } });
-          content = gitbookResults.map(r => `# ${r.title}\n\n${r.content}`).join('\n\n---\n\n');
-          break;
-          
-        case 'nixos-wiki':
-          const nixosResults = await this.sources[0].getContext({ query: { text: 'NixOS configuration installation' } });
-          content = nixosResults.map(r => `# ${r.title}\n\n${r.content}`).join('\n\n---\n\n');
-          break;
-          
-        case 'github-docs':
-          const githubResults = await this.sources[0].getContext({ query: { text: 'GitHub API REST repositories' } });
-          content = githubResults.map(r => `# ${r.title}\n\n${r.content}`).join('\n\n---\n\n');
-          break;
-          
-        case 'nixos-manual':
-          const manualResults = await this.sources[0].getContext({ query: { text: 'NixOS manual configuration options' } });
-          content = manualResults.map(r => `# ${r.title}\n\n${r.content}`).join('\n\n---\n\n');
-          break;
-          
-        default:
-          send({
-            jsonrpc: '2.0',
-            id: req.id,
-            error: { code: -32602, message: `Unknown resource: ${uri}` }
-          });
-          return;
+      const contents = await this.readResourceFromSources(uri);
+      if (contents) {
+        send({
+          jsonrpc: '2.0',
+          id: req.id,
+          result: { contents: [contents] }
+        });
+        return;
       }
-      
+
       send({
         jsonrpc: '2.0',
         id: req.id,
-        result: {
-          contents: [
-            {
-              uri: uri,
-              mimeType: 'text/markdown',
-              text: content
-            }
-          ]
-        }
+        error: { code: -32002, message: `Resource not found: ${uri}` }
       });
     } catch (error: any) {
       send({
@@ -438,6 +924,311 @@ export class MCPServer {
     }
   }
 
+  private handleResourcesSubscribe(req: MCPRequest, send: (resp: MCPResponse) => void, session?: MCPSession) {
+    const uri = req.params?.uri;
+    if (typeof uri !== 'string') {
+      send({ jsonrpc: '2.0', id: req.id, error: { code: -32602, message: 'Missing required parameter: uri' } });
+      return;
+    }
+    if (!session) {
+      send({ jsonrpc: '2.0', id: req.id, error: { code: -32000, message: 'Subscriptions require a session' } });
+      return;
+    }
+
+    const subscribers = this.subscriptions.get(uri) || new Set<MCPSession>();
+    subscribers.add(session);
+    this.subscriptions.set(uri, subscribers);
+    this.updateSubscriptionRefresh();
+
+    send({ jsonrpc: '2.0', id: req.id, result: {} });
+  }
+
+  private handleResourcesUnsubscribe(req: MCPRequest, send: (resp: MCPResponse) => void, session?: MCPSession) {
+    const uri = req.params?.uri;
+    if (typeof uri !== 'string') {
+      send({ jsonrpc: '2.0', id: req.id, error: { code: -32602, message: 'Missing required parameter: uri' } });
+      return;
+    }
+
+    if (session) {
+      this.removeSubscription(uri, session);
+    }
+    send({ jsonrpc: '2.0', id: req.id, result: {} });
+  }
+
+  private removeSubscription(uri: string, session: MCPSession) {
+    const subscribers = this.subscriptions.get(uri);
+    if (!subscribers) return;
+
+    subscribers.delete(session);
+    if (subscribers.size === 0) {
+      this.subscriptions.delete(uri);
+    }
+    this.updateSubscriptionRefresh();
+  }
+
+  private notifyResourceUpdated(uri: string) {
+    for (const session of this.subscriptions.get(uri) || []) {
+      session.notify({
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri }
+      });
+    }
+  }
+
+  private broadcast(notification: MCPNotification) {
+    for (const session of this.sessions) {
+      session.notify(notification);
+    }
+  }
+
+  // While anything is subscribed, periodically re-read those resources so expired cache entries refetch
+  private updateSubscriptionRefresh() {
+    if (this.subscriptions.size > 0 && !this.subscriptionRefreshTimer) {
+      this.subscriptionRefreshTimer = setInterval(() => this.refreshSubscribedResources(), this.subscriptionRefreshIntervalMs);
+      this.subscriptionRefreshTimer.unref();
+    } else if (this.subscriptions.size === 0 && this.subscriptionRefreshTimer) {
+      clearInterval(this.subscriptionRefreshTimer);
+      this.subscriptionRefreshTimer = undefined;
+    }
+  }
+
+  private async refreshSubscribedResources() {
+    for (const uri of Array.from(this.subscriptions.keys())) {
+      try {
+        await this.readResourceFromSources(uri);
+      } catch (error) {
+        logger.warning(`Failed to refresh subscribed resource ${uri}:`, error);
+      }
+    }
+  }
+
+  private handleLoggingSetLevel(req: MCPRequest, send: (resp: MCPResponse) => void, session?: MCPSession) {
+    const level = req.params?.level;
+    if (!isLogLevel(level)) {
+      send({
+        jsonrpc: '2.0',
+        id: req.id,
+        error: { code: -32602, message: `Invalid params: unknown log level '${level}'` }
+      });
+      return;
+    }
+
+    if (session) {
+      session.logLevel = level;
+    }
+    send({ jsonrpc: '2.0', id: req.id, result: {} });
+  }
+
+  /**
+   * Send a log record to the sessions that asked for its level. Records logged while handling a
+   * session's messages go to that session only; records logged while sending are dropped.
+   */
+  private forwardLog(record: LogRecord) {
+    if (this.forwardingLog) return;
+
+    this.forwardingLog = true;
+    try {
+      const origin = requestContext.getStore()?.sessionId;
+      for (const session of this.sessions) {
+        if (!session.logLevel || !isAtLeast(record.level, session.logLevel)) continue;
+        if (origin !== undefined ? session.id !== origin : !isAtLeast(record.level, SHARED_LOG_LEVEL)) continue;
+        session.notify({
+          jsonrpc: '2.0',
+          method: 'notifications/message',
+          params: {
+            level: record.level,
+            logger: record.logger,
+            data: record.details ? { message: record.message, details: record.details } : record.message
+          }
+        });
+      }
+    } finally {
+      this.forwardingLog = false;
+    }
+  }
+
+  private async readResourceFromSources(uri: string) {
+    return this.sources.readResource(uri);
+  }
+
+  private async getPromptLibrary(): Promise<PromptLibrary> {
+    if (!this.promptLibrary) {
+      const path = require('path');
+      const templateDirectory = path.join(__dirname, '..', 'templates');
+      const library = new PromptLibrary(templateDirectory);
+      await library.initialize();
+      this.promptLibrary = library;
+    }
+    return this.promptLibrary;
+  }
+
+  private async getTemplateEngine(): Promise<TemplateEngine> {
+    if (!this.templateEngine) {
+      // Use absolute path to templates directory
+      const path = require('path');
+      const templateEngine = new TemplateEngine(path.join(__dirname, '..', 'templates'));
+      await templateEngine.initialize();
+      this.templateEngine = templateEngine;
+    }
+    return this.templateEngine;
+  }
+
+  /**
+   * Suggest values for a prompt argument, resource template variable or tool argument.
+   * 'ref/tool' is a server extension; the spec only defines prompt and resource references.
+   */
+  private async handleCompletionComplete(req: MCPRequest, send: (resp: MCPResponse) => void, session?: MCPSession) {
+    const ref = req.params?.ref;
+    const argumentName = req.params?.argument?.name;
+    const value = req.params?.argument?.value;
+    const context: Record<string, string> = req.params?.context?.arguments || {};
+
+    const invalid = (message: string) => send({
+      jsonrpc: '2.0',
+      id: req.id,
+      error: { code: -32602, message: `Invalid params: ${message}` }
+    });
+
+    if (typeof ref?.type !== 'string' || typeof argumentName !== 'string') {
+      invalid('ref and argument.name are required');
+      return;
+    }
+
+    let candidates: CompletionCandidate[];
+    switch (ref.type) {
+      case 'ref/prompt': {
+        const prompt = (await this.getPromptLibrary()).getPrompt(ref.name);
+        if (!prompt) {
+          invalid(`unknown prompt '${ref.name}'`);
+          return;
+        }
+        const argument = prompt.arguments.find(arg => arg.name === argumentName);
+        candidates = argument?.options
+          ? argument.options.map(option => ({ value: option }))
+          : await this.completionCandidates(argument?.type === 'resource' ? 'resource' : argumentName, context);
+        break;
+      }
+
+      case 'ref/resource':
+        if (ref.uri !== WIKI_PAGE_URI_TEMPLATE && ref.uri !== 'wiki://{source}') {
+          invalid(`unknown resource template '${ref.uri}'`);
+          return;
+        }
+        candidates = await this.completionCandidates(argumentName, context);
+        break;
+
+      case 'ref/tool':
+        if (!this.canUseTool(ref.name, session)) {
+          invalid(`unknown tool '${ref.name}'`);
+          return;
+        }
+        candidates = await this.completionCandidates(argumentName, context);
+        break;
+
+      default:
+        invalid(`unsupported ref type '${ref.type}'`);
+        return;
+    }
+
+    send({
+      jsonrpc: '2.0',
+      id: req.id,
+      result: { completion: rankCompletions(candidates, typeof value === 'string' ? value : '') }
+    });
+  }
+
+  // Candidate values by argument name, shared by prompts, resource templates and tools
+  private async completionCandidates(name: string, context: Record<string, string>): Promise<CompletionCandidate[]> {
+    switch (name) {
+      case 'source':
+        return this.sources.getWikiSourceDetails().map(source => ({ value: source.id, label: source.name }));
+
+      case 'pagePath':
+        return this.sources.listResources().flatMap(resource => {
+          const match = /^wiki:\/\/([^/]+)\/(.+)$/.exec(resource.uri);
+          if (!match || (context.source && match[1] !== context.source)) return [];
+          return [{ value: match[2], label: resource.title }];
+        });
+
+      case 'resource':
+        return this.sources.listResources().map(resource => ({ value: resource.uri, label: resource.title }));
+
+      case 'templateName':
+        return (await this.getTemplateEngine()).getTemplates().map(template => ({ value: template.id, label: template.name }));
+
+      case 'targetLanguage':
+      case 'codeType':
+      case 'language':
+        return Object.keys(FILE_EXTENSIONS).map(language => ({ value: language }));
+
+      default:
+        return [];
+    }
+  }
+
+  private async handlePromptsList(req: MCPRequest, send: (resp: MCPResponse) => void) {
+    const library = await this.getPromptLibrary();
+
+    this.sendPage(req, send, 'prompts', library.getPrompts().map(prompt => ({
+      name: prompt.id,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: prompt.arguments.map(arg => ({
+        name: arg.name,
+        description: arg.description,
+        required: arg.required
+      }))
+    })));
+  }
+
+  private async handlePromptsGet(req: MCPRequest, send: (resp: MCPResponse) => void) {
+    const name = req.params?.name;
+    const library = await this.getPromptLibrary();
+    const prompt = typeof name === 'string' ? library.getPrompt(name) : undefined;
+
+    if (!prompt) {
+      send({ jsonrpc: '2.0', id: req.id, error: { code: -32602, message: `Unknown prompt: ${name}` } });
+      return;
+    }
+
+    let rendered;
+    try {
+      rendered = library.render(prompt.id, req.params?.arguments || {});
+    } catch (error: any) {
+      send({ jsonrpc: '2.0', id: req.id, error: { code: -32602, message: error.message } });
+      return;
+    }
+
+    try {
+      const messages = [];
+      for (const message of rendered) {
+        if (message.resourceUri) {
+          const resource = await this.readResourceFromSources(message.resourceUri);
+          if (!resource) {
+            send({ jsonrpc: '2.0', id: req.id, error: { code: -32602, message: `Resource not found: ${message.resourceUri}` } });
+            return;
+          }
+          messages.push({ role: message.role, content: { type: 'resource', resource } });
+        } else {
+          messages.push({ role: message.role, content: { type: 'text', text: message.text } });
+        }
+      }
+
+      send({
+        jsonrpc: '2.0',
+        id: req.id,
+        result: {
+          description: prompt.description,
+          messages
+        }
+      });
+    } catch (error: any) {
+      send({ jsonrpc: '2.0', id: req.id, error: { code: -32000, message: `Prompt rendering failed: ${error.message}` } });
+    }
+  }
+
   private async initializeTransformationServices(): Promise<void> {
     try {
       // Initialize AI service from config
@@ -450,18 +1241,13 @@ export class MCPServer {
           this.codeGenerationAgent = new CodeGenerationAgent(primaryProvider);
           await this.codeGenerationAgent.initialize();
           
-          // Use absolute path to templates directory
-          const path = require('path');
-          const templateDirectory = path.join(__dirname, '..', 'templates');
-          const templateEngine = new TemplateEngine(templateDirectory);
-          await templateEngine.initialize();
-          this.contentTransformer = new ContentTransformer(primaryProvider, templateEngine);
+          this.contentTransformer = new ContentTransformer(primaryProvider, await this.getTemplateEngine());
           
-          console.log('Transformation services initialized');
+          logger.info('Transformation services initialized');
         }
       }
     } catch (error) {
-      console.warn('Failed to initialize transformation services:', error);
+      logger.warning('Failed to initialize transformation services:', error);
     }
   }
 
@@ -586,142 +1372,79 @@ export class MCPServer {
     }
   }
 
-  // Tool handlers for MCP integration
-  private async handleTransformTool(args: any, requestId: string | number, send: (resp: MCPResponse) => void) {
+  // Tool handlers for MCP integration; arguments have already been validated against the tool schema
+  private async handleTransformTool(args: Record<string, any>, context: ToolCallContext) {
     if (!this.contentTransformer) {
       await this.initializeTransformationServices();
     }
 
     if (!this.contentTransformer) {
-      send({
-        jsonrpc: '2.0',
-        id: requestId,
-        error: { code: -32000, message: 'Transformation services not available' }
-      });
-      return;
+      throw new Error('Transformation services not available');
     }
 
+    const { content, targetLanguage, framework, projectType } = args;
+
     try {
-      const { content, targetLanguage, framework, projectType } = args;
-      
       const result = await this.contentTransformer.transformMarkdownToCode(
-        content, 
+        content,
         targetLanguage,
-        { framework, projectType }
+        { framework, projectType, signal: context.signal, onProgress: context.onProgress }
       );
-
-      send({
-        jsonrpc: '2.0',
-        id: requestId,
-        result: {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2)
-            }
-          ]
-        }
-      });
+      return generatedFilesToToolResult(result);
     } catch (error: any) {
-      send({
-        jsonrpc: '2.0',
-        id: requestId,
-        error: { code: -32000, message: `Transformation failed: ${error.message}` }
-      });
+      throw new Error(`Transformation failed: ${error.message}`);
     }
   }
 
-  private async handleGenerateCodeTool(args: any, requestId: string | number, send: (resp: MCPResponse) => void) {
+  private async handleGenerateCodeTool(args: Record<string, any>, context: ToolCallContext) {
     if (!this.codeGenerationAgent) {
       await this.initializeTransformationServices();
     }
 
     if (!this.codeGenerationAgent) {
-      send({
-        jsonrpc: '2.0',
-        id: requestId,
-        error: { code: -32000, message: 'Code generation services not available' }
-      });
-      return;
+      throw new Error('Code generation services not available');
     }
 
-    try {
-      // Map request parameters to what generateFromWikiContent expects
-      const { content, codeType, templateName } = args;
-      const params = {
-        wikiContent: content,
-        targetLanguage: codeType || 'text',
-        template: templateName
-      };
+    // Map tool arguments to what generateFromWikiContent expects
+    const { content, codeType, templateName } = args;
+    const params = {
+      wikiContent: content,
+      targetLanguage: codeType,
+      template: templateName,
+      signal: context.signal,
+      onProgress: context.onProgress
+    };
 
+    try {
       const result = await this.codeGenerationAgent.run(
         'generateFromWikiContent',
         params
       );
 
-      send({
-        jsonrpc: '2.0',
-        id: requestId,
-        result: {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: result && result.length > 0,
-                generatedCode: result && result.length > 0 ? result[0] : null,
-                files: result || []
-              }, null, 2)
-            }
-          ]
-        }
-      });
+      const files = result || [];
+      return generatedFilesToToolResult({ success: files.length > 0, generated: files });
     } catch (error: any) {
-      send({
-        jsonrpc: '2.0',
-        id: requestId,
-        error: { code: -32000, message: `Code generation failed: ${error.message}` }
-      });
+      throw new Error(`Code generation failed: ${error.message}`);
     }
   }
 
-  private async handleGenerateProjectTool(args: any, requestId: string | number, send: (resp: MCPResponse) => void) {
+  private async handleGenerateProjectTool(args: Record<string, any>, context: ToolCallContext) {
     if (!this.codeGenerationAgent) {
       await this.initializeTransformationServices();
     }
 
     if (!this.codeGenerationAgent) {
-      send({
-        jsonrpc: '2.0',
-        id: requestId,
-        error: { code: -32000, message: 'Code generation services not available' }
-      });
-      return;
+      throw new Error('Code generation services not available');
     }
 
     try {
       const result = await this.codeGenerationAgent.run(
         'generateProjectStructure',
-        args
+        { ...args, signal: context.signal, onProgress: context.onProgress }
       );
-
-      send({
-        jsonrpc: '2.0',
-        id: requestId,
-        result: {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2)
-            }
-          ]
-        }
-      });
+      return projectToToolResult(result);
     } catch (error: any) {
-      send({
-        jsonrpc: '2.0',
-        id: requestId,
-        error: { code: -32000, message: `Project generation failed: ${error.message}` }
-      });
+      throw new Error(`Project generation failed: ${error.message}`);
     }
   }
 
@@ -0,0 +1,70 @@
+/**
+ * Opaque cursors for MCP list methods and paged tool results.
+ * A cursor records the offset of the next page and the scope it was issued for
+ * (the list method, or the search query), so it cannot be replayed elsewhere.
+ */
+
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export function encodeCursor(scope: string, offset: number): string {
+  return Buffer.from(JSON.stringify({ s: scope, o: offset })).toString('base64url');
+}
+
+/**
+ * Offset encoded in a cursor; 0 when no cursor was given.
+ * Throws InvalidCursorError for malformed cursors or ones issued for another scope.
+ */
+export function decodeCursor(cursor: unknown, scope: string): number {
+  if (cursor === undefined || cursor === null) {
+    return 0;
+  }
+  if (typeof cursor !== 'string') {
+    throw new InvalidCursorError();
+  }
+
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (decoded?.s !== scope || !Number.isInteger(decoded.o) || decoded.o < 0) {
+    throw new InvalidCursorError();
+  }
+  return decoded.o;
+}
+
+// Scope a cursor was issued for, without checking it; undefined for malformed cursors
+export function cursorScope(cursor: unknown): string | undefined {
+  if (typeof cursor !== 'string') {
+    return undefined;
+  }
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof decoded?.s === 'string' ? decoded.s : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Slice one page out of an already ordered list
+export function paginate<T>(items: T[], cursor: unknown, pageSize: number, scope: string): Page<T> {
+  const offset = decodeCursor(cursor, scope);
+  const end = offset + pageSize;
+
+  return {
+    items: items.slice(offset, end),
+    nextCursor: end < items.length ? encodeCursor(scope, end) : undefined
+  };
+}
@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface ClientRequestOptions {
+  signal?: AbortSignal;         // Aborting sends notifications/cancelled to the client
+  timeoutMs?: number;
+}
+
+/**
+ * The client connection a request arrived on, available to everything the request handler calls.
+ * Lets code far from the transport (such as an AI provider) send requests back to that client.
+ */
+export interface RequestContext {
+  sessionId: string;
+  clientCapabilities?: Record<string, any>;
+  signal: AbortSignal;          // Aborted when the client cancels the request being handled
+  sendRequest(method: string, params: any, options?: ClientRequestOptions): Promise<any>;
+}
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * A JSON-RPC error response from the client to a server-initiated request
+ */
+export class ClientRequestError extends Error {
+  constructor(public code: number, message: string, public data?: any) {
+    super(message);
+    this.name = 'ClientRequestError';
+  }
+}
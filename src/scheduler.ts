@@ -0,0 +1,137 @@
+/**
+ * Limits how many requests of each class run at once, queues the rest up to a bound,
+ * and gives every request a deadline
+ */
+
+export interface SchedulerClassConfig {
+  concurrency: number;          // Requests of this class running at the same time
+  timeoutMs: number;            // Deadline from arrival, including time spent queued
+  maxQueued: number;            // Further requests are rejected while this many are waiting
+}
+
+export type SchedulerConfig = Record<string, SchedulerClassConfig>;
+
+export class RequestTimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs / 1000} seconds`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class SchedulerOverloadedError extends Error {
+  constructor(public requestClass: string) {
+    super(`Server overloaded: too many ${requestClass} requests queued, try again later`);
+    this.name = 'SchedulerOverloadedError';
+  }
+}
+
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+interface QueuedTask {
+  start(): void;
+}
+
+interface ClassState {
+  config: SchedulerClassConfig;
+  active: number;
+  queue: QueuedTask[];
+}
+
+export class RequestScheduler {
+  private classes: Map<string, ClassState> = new Map();
+
+  constructor(config: SchedulerConfig) {
+    for (const [name, classConfig] of Object.entries(config)) {
+      this.classes.set(name, { config: classConfig, active: 0, queue: [] });
+    }
+  }
+
+  /**
+   * Run a task in the given class once a slot is free.
+   * The task's signal aborts when the deadline passes or the caller's signal aborts;
+   * the returned promise then rejects straight away rather than waiting for the task to notice.
+   */
+  run<T>(requestClass: string, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const state = this.classes.get(requestClass);
+    if (!state) {
+      return Promise.reject(new Error(`Unknown request class: ${requestClass}`));
+    }
+    if (state.active >= state.config.concurrency && state.queue.length >= state.config.maxQueued) {
+      return Promise.reject(new SchedulerOverloadedError(requestClass));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const controller = new AbortController();
+      let settled = false;
+      let running = false;
+
+      const settle = (error?: Error, value?: T) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(deadline);
+        signal?.removeEventListener('abort', onCallerAbort);
+        if (error) reject(error); else resolve(value as T);
+      };
+
+      const stop = (error: Error) => {
+        controller.abort(error);
+        if (!running) {
+          state.queue.splice(state.queue.indexOf(queued), 1);
+        }
+        settle(error);
+      };
+
+      const onCallerAbort = () => stop(new RequestCancelledError());
+      const deadline = setTimeout(() => stop(new RequestTimeoutError(state.config.timeoutMs)), state.config.timeoutMs);
+      signal?.addEventListener('abort', onCallerAbort);
+
+      const queued: QueuedTask = {
+        start: () => {
+          running = true;
+          state.active++;
+          let result: Promise<T>;
+          try {
+            result = task(controller.signal);
+          } catch (error: any) {
+            result = Promise.reject(error);
+          }
+          // The slot is held until the task really finishes, even after a timeout
+          const finish = (error?: Error, value?: T) => {
+            state.active--;
+            this.startNext(state);
+            settle(error, value);
+          };
+          result.then(value => finish(undefined, value), error => finish(error));
+        }
+      };
+
+      if (signal?.aborted) {
+        settle(new RequestCancelledError());
+      } else if (state.active < state.config.concurrency) {
+        queued.start();
+      } else {
+        state.queue.push(queued);
+      }
+    });
+  }
+
+  // Current load per class, for diagnostics
+  stats(): Record<string, { active: number; queued: number }> {
+    const stats: Record<string, { active: number; queued: number }> = {};
+    for (const [name, state] of this.classes) {
+      stats[name] = { active: state.active, queued: state.queue.length };
+    }
+    return stats;
+  }
+
+  private startNext(state: ClassState) {
+    while (state.active < state.config.concurrency && state.queue.length > 0) {
+      state.queue.shift()!.start();
+    }
+  }
+}
@@ -1,26 +1,128 @@
-// MCP stdio JSON-RPC server entry point
-import { MCPServer } from './mcpServer';
-
-const server = new MCPServer();
-
-process.stdin.setEncoding('utf8');
-let buffer = '';
-
-process.stdin.on('data', (chunk) => {
-  buffer += chunk;
-  let boundary;
-  while ((boundary = buffer.indexOf('\n')) >= 0) {
-    const line = buffer.slice(0, boundary);
-    buffer = buffer.slice(boundary + 1);
-    if (line.trim()) {
-      try {
-        const req = JSON.parse(line);
-        server.handleRequest(req, (resp) => {
-          process.stdout.write(JSON.stringify(resp) + '\n');
-        });
-      } catch (e) {
-        // Optionally log parse errors
-      }
-    }
+// MCP server entry point: stdio JSON-RPC by default, Streamable HTTP with --http or MCP_TRANSPORT=http
+import { MCPServer, MCPSession, createErrorResponse } from './mcpServer';
+import { HttpTransport } from './transport/httpTransport';
+import { SchedulerClassConfig } from './scheduler';
+
+const useHttp = process.argv.includes('--http') || process.env.MCP_TRANSPORT === 'http';
+const adminTools = process.argv.includes('--admin') || process.env.MCP_ADMIN_TOOLS === 'true';
+
+// Over HTTP only clients presenting MCP_ADMIN_TOKEN get the admin tools; without a token nobody could use them
+if (adminTools && useHttp && !process.env.MCP_ADMIN_TOKEN) {
+  console.error('Admin tools over HTTP need MCP_ADMIN_TOKEN; set it or start without --admin');
+  process.exit(1);
+}
+
+const server = new MCPServer({
+  // Tools that change the configured sources, for admin sessions: the stdio client, and HTTP clients with the admin token
+  adminTools,
+  // A stdio client runs on this machine; HTTP clients may only point roots at directories the operator lists
+  workspaceRoots: useHttp ? splitList(process.env.MCP_ALLOWED_ROOTS) : undefined,
+  scheduler: {
+    search: schedulerClassFromEnv('SEARCH'),
+    generation: schedulerClassFromEnv('GENERATION')
   }
 });
+
+if (useHttp) {
+  const transport = new HttpTransport(server, {
+    port: parseInt(process.env.MCP_HTTP_PORT || process.env.PORT || '3000', 10),
+    host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+    path: process.env.MCP_HTTP_PATH || '/mcp',
+    trustProxy: parseTrustProxy(process.env.MCP_TRUST_PROXY),
+    allowedOrigins: splitList(process.env.MCP_ALLOWED_ORIGINS),
+    adminToken: process.env.MCP_ADMIN_TOKEN || undefined,
+    sessionTimeoutMinutes: parseInt(process.env.MCP_SESSION_TIMEOUT_MINUTES || '60', 10)
+  });
+
+  transport.start().catch((error) => {
+    console.error('Failed to start HTTP transport:', error);
+    process.exit(1);
+  });
+
+  const shutdown = () => {
+    transport.stop().finally(() => {
+      server.close();
+      process.exit(0);
+    });
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+} else {
+  const writeMessage = (message: any) => {
+    process.stdout.write(JSON.stringify(message) + '\n');
+  };
+
+  // The stdio client is whoever started the server, so it gets the admin tools when they are enabled
+  const stdioSession: MCPSession = {
+    id: 'stdio',
+    admin: true,
+    notify: (notification) => writeMessage(notification)
+  };
+
+  // Unparseable lines get a -32700 reply instead of being dropped, so the client never hangs
+  const handleLine = async (line: string) => {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch (e) {
+      writeMessage(createErrorResponse(null, -32700, 'Parse error'));
+      return;
+    }
+
+    const reply = await server.handleMessage(message, stdioSession);
+    if (reply) {
+      writeMessage(reply);
+    }
+  };
+
+  process.stdin.setEncoding('utf8');
+  let buffer = '';
+
+  process.stdin.on('data', (chunk) => {
+    buffer += chunk;
+    let boundary;
+    while ((boundary = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 1);
+      if (line.trim()) {
+        handleLine(line);
+      }
+    }
+  });
+
+  // The client ends the session by closing our stdin; in-flight responses are still written
+  process.stdin.on('end', () => {
+    server.closeSession(stdioSession);
+    server.close();
+  });
+}
+
+// Comma-separated environment lists; unset means empty
+function splitList(value?: string): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// MCP_TRUST_PROXY accepts 'true'/'false', a hop count, or an express trust proxy list
+function parseTrustProxy(value?: string): boolean | number | string {
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  const hops = Number(value);
+  return Number.isInteger(hops) ? hops : value;
+}
+
+// MCP_<CLASS>_CONCURRENCY, MCP_<CLASS>_TIMEOUT_SECONDS and MCP_<CLASS>_MAX_QUEUED; unset values keep the defaults
+function schedulerClassFromEnv(prefix: string): Partial<SchedulerClassConfig> {
+  const read = (name: string) => {
+    const value = process.env[`MCP_${prefix}_${name}`];
+    return value ? Number(value) : NaN;
+  };
+
+  const config: Partial<SchedulerClassConfig> = {};
+  const concurrency = read('CONCURRENCY');
+  const timeoutSeconds = read('TIMEOUT_SECONDS');
+  const maxQueued = read('MAX_QUEUED');
+  if (concurrency >= 1) config.concurrency = Math.floor(concurrency);
+  if (timeoutSeconds > 0) config.timeoutMs = timeoutSeconds * 1000;
+  if (maxQueued >= 0) config.maxQueued = Math.floor(maxQueued);
+  return config;
+}
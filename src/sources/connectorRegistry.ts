@@ -0,0 +1,36 @@
+import { WikiConnector, WikiType } from './types';
+
+/**
+ * Maps wiki types to the connectors that fetch them
+ * Registering a connector for an existing type replaces the built-in one
+ */
+export class ConnectorRegistry {
+  private connectors: Map<string, WikiConnector> = new Map();
+
+  register(connector: WikiConnector): void {
+    this.connectors.set(connector.type, connector);
+  }
+
+  get(type: string): WikiConnector | undefined {
+    return this.connectors.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.connectors.has(type);
+  }
+
+  types(): string[] {
+    return Array.from(this.connectors.keys());
+  }
+
+  /**
+   * Connector for an entry's type, falling back to the generic connector for unknown types
+   */
+  resolve(type: string): WikiConnector {
+    const connector = this.connectors.get(type) || this.connectors.get(WikiType.Unknown);
+    if (!connector) {
+      throw new Error(`No connector registered for wiki type: ${type}`);
+    }
+    return connector;
+  }
+}
@@ -0,0 +1,90 @@
+import axios from 'axios';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('ClientCredentials');
+
+// Tokens are renewed this long before they expire, so a request never goes out with a token about to lapse
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Used when the token endpoint leaves out expires_in
+const DEFAULT_LIFETIME_SECONDS = 3600;
+
+// Token requests are shared by every wiki request waiting for the token, so they time out but are never aborted by one caller
+const TOKEN_REQUEST_TIMEOUT_MS = 20000;
+
+export interface ClientCredentialsConfig {
+  clientId: string;
+  clientSecret: string;
+  tokenUrl: string;
+  scope?: string;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+/**
+ * OAuth 2.0 client credentials grant with a token cache.
+ * A token is reused until shortly before it expires; concurrent callers share one token request.
+ */
+export class ClientCredentialsTokenProvider {
+  private tokens: Map<string, CachedToken> = new Map();
+  private pending: Map<string, Promise<CachedToken>> = new Map();
+
+  async getToken(config: ClientCredentialsConfig): Promise<string> {
+    const key = this.cacheKey(config);
+    const cached = this.tokens.get(key);
+    if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+      return cached.accessToken;
+    }
+
+    let request = this.pending.get(key);
+    if (!request) {
+      request = this.requestToken(config).finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+
+    const token = await request;
+    this.tokens.set(key, token);
+    return token.accessToken;
+  }
+
+  // Drop a token the API rejected so the next call fetches a new one
+  invalidate(config: ClientCredentialsConfig): void {
+    this.tokens.delete(this.cacheKey(config));
+  }
+
+  private async requestToken(config: ClientCredentialsConfig): Promise<CachedToken> {
+    const body = new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: config.clientId,
+      client_secret: config.clientSecret
+    });
+    if (config.scope) body.set('scope', config.scope);
+
+    try {
+      const response = await axios.post(config.tokenUrl, body.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: TOKEN_REQUEST_TIMEOUT_MS
+      });
+      const { access_token: accessToken, expires_in: expiresIn } = response.data || {};
+      if (!accessToken) {
+        throw new Error('token response has no access_token');
+      }
+
+      logger.debug(`Obtained client credentials token from ${config.tokenUrl}`);
+      return { accessToken, expiresAt: Date.now() + Number(expiresIn || DEFAULT_LIFETIME_SECONDS) * 1000 };
+    } catch (error: any) {
+      const reason = error.response?.data?.error_description || error.response?.data?.error || error.message;
+      throw new Error(`Client credentials token request to ${config.tokenUrl} failed: ${reason}`);
+    }
+  }
+
+  private cacheKey(config: ClientCredentialsConfig): string {
+    return `${config.tokenUrl}|${config.clientId}|${config.scope || ''}`;
+  }
+}
+
+// Shared by every connector so sources with the same credentials reuse one token
+export const clientCredentialsTokens = new ClientCredentialsTokenProvider();
@@ -0,0 +1,237 @@
+import axios from 'axios';
+import { ConnectorHealth, ConnectorSearchHit, WikiEntry, WikiPage, WikiType } from '../types';
+import { HttpConnector } from './httpConnector';
+
+/**
+ * Source object options for Confluence sources
+ */
+export interface ConfluenceOptions {
+  baseUrl?: string;             // Site root that /rest/api hangs off, e.g. https://acme.atlassian.net/wiki; derived from the URL when omitted
+  spaces?: string[];            // Space keys to list and search; all spaces the credentials can see when omitted
+  labels?: string[];            // Only pages carrying at least one of these labels
+}
+
+// Results requested per REST call
+const PAGE_SIZE = 50;
+
+// Enumeration stops here unless the source sets maxPages
+const DEFAULT_MAX_PAGES = 10000;
+
+// Path segments that start a page or space link, so everything before them is the site root
+const SITE_PATH_MARKERS = /\/(spaces|display|pages|rest|plugins|x)\/.*$/;
+
+/**
+ * Confluence Cloud and Data Center through the REST API.
+ * Pages are read in storage format and listed per space; search uses CQL.
+ * Basic auth (email and API token on Cloud) and bearer tokens (Data Center PATs) both work.
+ */
+export class ConfluenceConnector extends HttpConnector {
+  readonly type = WikiType.Confluence;
+
+  async fetch(entry: WikiEntry): Promise<string> {
+    const pageId = await this.resolvePageId(entry);
+    if (!pageId) {
+      return this.describeSpaces(entry);
+    }
+
+    const page = await this.get(entry, `/rest/api/content/${pageId}`, { expand: 'body.storage,ancestors,space' });
+    const breadcrumbs = this.getBreadcrumbs(page);
+    const body = this.storageToText(page.body?.storage?.value || '');
+    return `# ${page.title}\n${breadcrumbs.length > 0 ? `\nLocation: ${breadcrumbs.join(' › ')}\n` : ''}\n${body}`;
+  }
+
+  // Pages of every selected space, following the API's next links until maxPages
+  async listPages(entry: WikiEntry): Promise<WikiPage[]> {
+    const maxPages = entry.maxPages ?? DEFAULT_MAX_PAGES;
+    const spaces = this.getOptions(entry).spaces || await this.listSpaceKeys(entry);
+    const pages: WikiPage[] = [];
+
+    for (const space of spaces) {
+      const cql = this.buildCql(entry, [`space = ${this.quote(space)}`, 'type = page']);
+      let data = await this.get(entry, '/rest/api/content/search', { cql, limit: String(PAGE_SIZE), expand: 'ancestors,space' });
+
+      while (true) {
+        for (const page of data.results || []) {
+          if (pages.length >= maxPages) return pages;
+          pages.push({ url: this.getPageUrl(entry, page), title: page.title, breadcrumbs: this.getBreadcrumbs(page) });
+        }
+        if (!data._links?.next || pages.length >= maxPages) break;
+        data = await this.getLink(entry, data._links.next);
+      }
+    }
+
+    return pages;
+  }
+
+  async search(entry: WikiEntry, query: string, limit: number): Promise<ConnectorSearchHit[]> {
+    const { spaces } = this.getOptions(entry);
+    const clauses = [`text ~ ${this.quote(query)}`, 'type = page'];
+    if (spaces && spaces.length > 0) {
+      clauses.push(`space in (${spaces.map(space => this.quote(space)).join(', ')})`);
+    }
+
+    const data = await this.get(entry, '/rest/api/search', {
+      cql: this.buildCql(entry, clauses),
+      limit: String(limit),
+      expand: 'content.ancestors,content.space'
+    });
+
+    const results: any[] = (data.results || []).filter((result: any) => result.content);
+    return results.map((result, i) => ({
+      url: this.getPageUrl(entry, result.content),
+      title: result.content.title,
+      content: this.cleanExcerpt(result.excerpt || ''),
+      score: results.length - i,
+      breadcrumbs: this.getBreadcrumbs(result.content)
+    }));
+  }
+
+  async checkHealth(entry: WikiEntry): Promise<ConnectorHealth> {
+    const started = Date.now();
+    try {
+      await this.get(entry, '/rest/api/space', { limit: '1' });
+      return { healthy: true, latencyMs: Date.now() - started };
+    } catch (error: any) {
+      return { healthy: false, latencyMs: Date.now() - started, message: error.message };
+    }
+  }
+
+  private getOptions(entry: WikiEntry): ConfluenceOptions {
+    return entry.options || {};
+  }
+
+  private getSiteUrl(entry: WikiEntry): string {
+    const configured = this.getOptions(entry).baseUrl;
+    if (configured) return configured.replace(/\/+$/, '');
+
+    const url = new URL(entry.url);
+    return url.origin + url.pathname.replace(SITE_PATH_MARKERS, '').replace(/\/+$/, '');
+  }
+
+  private async get(entry: WikiEntry, apiPath: string, params: Record<string, string> = {}): Promise<any> {
+    const query = new URLSearchParams(params).toString();
+    return this.request(entry, `${this.getSiteUrl(entry)}${apiPath}${query ? `?${query}` : ''}`);
+  }
+
+  // _links.next is relative to the site root on both Cloud and Data Center
+  private async getLink(entry: WikiEntry, link: string): Promise<any> {
+    return this.request(entry, `${this.getSiteUrl(entry)}${link}`);
+  }
+
+  private async request(entry: WikiEntry, url: string): Promise<any> {
+    try {
+      const response = await axios.get(url, await this.createRequestConfig(entry));
+      return response.data || {};
+    } catch (error: any) {
+      const status = error.response?.status;
+      if (status === 401 || status === 403) {
+        throw new Error(`Confluence rejected the credentials for ${entry.url} (HTTP ${status})`);
+      }
+      throw new Error(`Confluence request failed: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  private async listSpaceKeys(entry: WikiEntry): Promise<string[]> {
+    const keys: string[] = [];
+    let data = await this.get(entry, '/rest/api/space', { limit: String(PAGE_SIZE), type: 'global' });
+    while (true) {
+      keys.push(...(data.results || []).map((space: any) => space.key));
+      if (!data._links?.next) return keys;
+      data = await this.getLink(entry, data._links.next);
+    }
+  }
+
+  // Page id from /pages/{id}/..., ?pageId={id}, /display/{space}/{title} or a space home link; undefined for the site root
+  private async resolvePageId(entry: WikiEntry): Promise<string | undefined> {
+    const url = new URL(entry.url);
+    const byId = url.pathname.match(/\/pages\/(\d+)/)?.[1] || url.searchParams.get('pageId');
+    if (byId) return byId;
+
+    const display = url.pathname.match(/\/display\/([^/]+)\/([^/]+)/);
+    if (display) {
+      const title = decodeURIComponent(display[2].replace(/\+/g, ' '));
+      const data = await this.get(entry, '/rest/api/content', { spaceKey: decodeURIComponent(display[1]), title, type: 'page' });
+      const page = data.results?.[0];
+      if (!page) throw new Error(`No Confluence page titled "${title}" in space ${display[1]}`);
+      return page.id;
+    }
+
+    const space = url.pathname.match(/\/(?:spaces|display)\/([^/]+)\/?(?:overview)?$/)?.[1];
+    if (space) {
+      const data = await this.get(entry, `/rest/api/space/${encodeURIComponent(space)}`, { expand: 'homepage' });
+      return data.homepage?.id;
+    }
+    return undefined;
+  }
+
+  private async describeSpaces(entry: WikiEntry): Promise<string> {
+    const data = await this.get(entry, '/rest/api/space', { limit: String(PAGE_SIZE), type: 'global' });
+    const lines = (data.results || []).map((space: any) => `- ${space.name} (${space.key})`);
+    return `# Confluence spaces\n\n${lines.join('\n')}`;
+  }
+
+  private buildCql(entry: WikiEntry, clauses: string[]): string {
+    const { labels } = this.getOptions(entry);
+    if (labels && labels.length > 0) {
+      clauses = [...clauses, `label in (${labels.map(label => this.quote(label)).join(', ')})`];
+    }
+    return clauses.join(' AND ');
+  }
+
+  private quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+
+  // Space name, then each ancestor page title
+  private getBreadcrumbs(page: any): string[] {
+    const trail = (page.ancestors || []).map((ancestor: any) => ancestor.title);
+    return page.space?.name ? [page.space.name, ...trail] : trail;
+  }
+
+  // The page's web UI link under the site root, so it maps to a wiki:// page path on the same host
+  private getPageUrl(entry: WikiEntry, page: any): string {
+    const webui = page._links?.webui || `/pages/viewpage.action?pageId=${page.id}`;
+    return `${this.getSiteUrl(entry)}${webui}`;
+  }
+
+  // Search excerpts mark matches with @@@hl@@@ ... @@@endhl@@@
+  private cleanExcerpt(excerpt: string): string {
+    return this.decodeEntities(excerpt.replace(/@@@(end)?hl@@@/g, '').replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Storage format (XHTML with ac: macros) to Markdown-like text; code macros become fenced blocks
+   */
+  private storageToText(storage: string): string {
+    const codeBlocks: string[] = [];
+    const text = storage
+      .replace(/<ac:structured-macro[^>]*ac:name="(?:code|noformat)"[^>]*>([\s\S]*?)<\/ac:structured-macro>/g, (_match, inner: string) => {
+        const language = inner.match(/<ac:parameter ac:name="language">([^<]*)<\/ac:parameter>/)?.[1] || '';
+        const code = inner.match(/<ac:plain-text-body><!\[CDATA\[([\s\S]*?)\]\]><\/ac:plain-text-body>/)?.[1] || '';
+        codeBlocks.push(`\`\`\`${language}\n${code}\n\`\`\``);
+        return `\n\u0000${codeBlocks.length - 1}\u0000\n`;
+      })
+      .replace(/<h([1-6])[^>]*>/g, (_match, level: string) => `\n${'#'.repeat(Number(level))} `)
+      .replace(/<li[^>]*>/g, '\n- ')
+      .replace(/<\/(p|h[1-6]|tr|ul|ol|table|div)>|<br\s*\/?>/g, '\n')
+      .replace(/<\/t[dh]>/g, ' | ')
+      .replace(/<[^>]+>/g, '');
+
+    return this.decodeEntities(text)
+      .replace(/[ \t]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .replace(/\u0000(\d+)\u0000/g, (_match, index: string) => codeBlocks[Number(index)])
+      .trim();
+  }
+
+  private decodeEntities(text: string): string {
+    return text
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
@@ -0,0 +1,30 @@
+import axios from 'axios';
+import { WikiEntry, WikiType } from '../types';
+import { HttpConnector } from './httpConnector';
+
+/**
+ * Any other URL: HTML is reduced to text, JSON is kept as-is
+ */
+export class GenericConnector extends HttpConnector {
+  readonly type = WikiType.Unknown;
+
+  async fetch(entry: WikiEntry): Promise<string> {
+    const config = await this.createRequestConfig(entry);
+    const response = await axios.get(entry.url, config);
+    
+    if (response.data) {
+      if (typeof response.data === 'string') {
+        // Try to detect if it's HTML or plain text
+        if (response.data.includes('<!DOCTYPE html>') || response.data.includes('<html')) {
+          return this.extractContentFromHtml(response.data);
+        }
+        return response.data;
+      } else {
+        // JSON response
+        return JSON.stringify(response.data);
+      }
+    }
+    
+    throw new Error('Failed to fetch content');
+  }
+}
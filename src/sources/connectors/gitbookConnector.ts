@@ -0,0 +1,334 @@
+import axios from 'axios';
+import { ConnectorHealth, ConnectorSearchHit, WikiEntry, WikiPage, WikiType } from '../types';
+import { HttpConnector } from './httpConnector';
+import { requestContext } from '../../requestContext';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('GitbookConnector');
+
+/**
+ * Source object options for GitBook sources
+ */
+export interface GitbookOptions {
+  spaceId?: string;             // Space to read through the content API; needs token auth
+  apiUrl?: string;              // Content API root (default https://api.gitbook.com/v1)
+  siteUrl?: string;             // Published site root that page paths hang off (default: the source URL)
+  sitemapUrl?: string;          // Sitemap to crawl without the API (default {siteUrl}/sitemap.xml)
+}
+
+const DEFAULT_API_URL = 'https://api.gitbook.com/v1';
+
+// Enumeration stops here unless the source sets maxPages
+const DEFAULT_MAX_PAGES = 10000;
+
+// Published pages are read this many at a time behind a listing
+const READ_CONCURRENCY = 4;
+
+// Page Markdown read behind an earlier listing is read again once it is this old
+const PAGE_CACHE_MS = 10 * 60 * 1000;
+
+// Characters of context shown around a match
+const SNIPPET_LENGTH = 300;
+
+interface GitbookTreePage {
+  id: string;
+  title: string;
+  type: string;                 // 'document', 'group' or 'link'
+  path?: string;
+  pages?: GitbookTreePage[];
+}
+
+interface PublishedSite {
+  pages: WikiPage[];            // From the latest listing
+  markdown: Map<string, { text: string; readAt: number }>; // Page URL -> Markdown read behind the listing
+  reading?: Promise<void>;      // Set while pages are being read
+}
+
+/**
+ * GitBook spaces, crawled page by page. With a spaceId and token auth the content API
+ * supplies the page tree, Markdown and search; otherwise pages come from the published
+ * site's sitemap and are read through GitBook's .md page variants. Published sites have
+ * no search API, so each listing reads its pages in the background and search matches those.
+ */
+export class GitbookConnector extends HttpConnector {
+  readonly type = WikiType.Gitbook;
+  private sites: Map<string, PublishedSite> = new Map(); // Published site URL -> pages read for search
+
+  async fetch(entry: WikiEntry): Promise<string> {
+    if (!this.usesApi(entry)) {
+      return this.fetchPublishedMarkdown(entry, entry.url);
+    }
+
+    const tree = await this.getTree(entry);
+    const match = this.findTreePage(tree, new URL(entry.url).pathname);
+    if (!match) {
+      return this.describeTree(tree);
+    }
+
+    const page = await this.apiGet(entry, `/content/path/${this.encodePath(match.page.path!)}`, { format: 'markdown' });
+    const location = match.breadcrumbs.length > 0 ? `\nLocation: ${match.breadcrumbs.join(' › ')}\n` : '';
+    return `# ${match.page.title}\n${location}\n${(page.markdown || '').trim()}`;
+  }
+
+  async listPages(entry: WikiEntry): Promise<WikiPage[]> {
+    const maxPages = entry.maxPages ?? DEFAULT_MAX_PAGES;
+    const siteUrl = this.getSiteUrl(entry);
+
+    if (this.usesApi(entry)) {
+      const pages: WikiPage[] = [];
+      this.walkTree(await this.getTree(entry), [], (page, breadcrumbs) => {
+        if (pages.length < maxPages) {
+          pages.push({ url: `${siteUrl}/${page.path}`, title: page.title, breadcrumbs });
+        }
+      });
+      return pages;
+    }
+
+    const urls = await this.readSitemap(entry, this.getOptions(entry).sitemapUrl || `${siteUrl}/sitemap.xml`, new Set());
+    const pages = urls
+      .filter(url => url.startsWith(siteUrl + '/') && url !== siteUrl + '/')
+      .slice(0, maxPages)
+      .map(url => {
+        // Sitemaps carry no titles, so the chapter trail comes from the path segments
+        const segments = url.slice(siteUrl.length + 1).replace(/\/+$/, '').split('/').map(segment => this.humanize(segment));
+        return { url, title: segments[segments.length - 1], breadcrumbs: segments.slice(0, -1) };
+      });
+    this.readInBackground(entry, siteUrl, pages);
+    return pages;
+  }
+
+  // Published sites are searched through the pages read behind their last listing; before one, the source searches
+  async search(entry: WikiEntry, query: string, limit: number): Promise<ConnectorSearchHit[] | null> {
+    if (this.usesApi(entry)) {
+      return this.searchApi(entry, query, limit);
+    }
+    const site = this.sites.get(this.getSiteUrl(entry));
+    return site ? this.searchSite(site, query, limit) : null;
+  }
+
+  async checkHealth(entry: WikiEntry): Promise<ConnectorHealth> {
+    const started = Date.now();
+    try {
+      if (this.usesApi(entry)) {
+        await this.apiGet(entry, '');
+      } else {
+        await this.fetch(entry);
+      }
+      return { healthy: true, latencyMs: Date.now() - started };
+    } catch (error: any) {
+      return { healthy: false, latencyMs: Date.now() - started, message: error.message };
+    }
+  }
+
+  private getOptions(entry: WikiEntry): GitbookOptions {
+    return entry.options || {};
+  }
+
+  private usesApi(entry: WikiEntry): boolean {
+    return !!this.getOptions(entry).spaceId && !!entry.auth;
+  }
+
+  private getSiteUrl(entry: WikiEntry): string {
+    return (this.getOptions(entry).siteUrl || entry.url).replace(/[?#].*$/, '').replace(/\/+$/, '');
+  }
+
+  private async apiGet(entry: WikiEntry, path: string, params: Record<string, string> = {}): Promise<any> {
+    const options = this.getOptions(entry);
+    const query = new URLSearchParams(params).toString();
+    const url = `${(options.apiUrl || DEFAULT_API_URL).replace(/\/+$/, '')}/spaces/${encodeURIComponent(options.spaceId!)}${path}${query ? `?${query}` : ''}`;
+
+    try {
+      const response = await axios.get(url, await this.createRequestConfig(entry));
+      return response.data || {};
+    } catch (error: any) {
+      const status = error.response?.status;
+      if (status === 401 || status === 403) {
+        throw new Error(`GitBook rejected the credentials for ${entry.url} (HTTP ${status})`);
+      }
+      throw new Error(`GitBook request failed: ${error.response?.data?.error?.message || error.message}`);
+    }
+  }
+
+  private async getTree(entry: WikiEntry): Promise<GitbookTreePage[]> {
+    const revision = await this.apiGet(entry, '/content');
+    return revision.pages || [];
+  }
+
+  // Document pages in reading order; groups and parent documents become the breadcrumbs of what they contain
+  private walkTree(pages: GitbookTreePage[], breadcrumbs: string[], visit: (page: GitbookTreePage, breadcrumbs: string[]) => void): void {
+    for (const page of pages) {
+      if (page.type === 'document' && page.path !== undefined) {
+        visit(page, breadcrumbs);
+      }
+      if (page.pages && page.pages.length > 0) {
+        this.walkTree(page.pages, [...breadcrumbs, page.title], visit);
+      }
+    }
+  }
+
+  // The document whose path ends the URL path; the longest path wins so nested pages beat their parents
+  private findTreePage(tree: GitbookTreePage[], pathname: string): { page: GitbookTreePage; breadcrumbs: string[] } | undefined {
+    const path = decodeURIComponent(pathname).replace(/\/+$/, '');
+    let best: { page: GitbookTreePage; breadcrumbs: string[] } | undefined;
+    this.walkTree(tree, [], (page, breadcrumbs) => {
+      if (page.path && path.endsWith('/' + page.path) && (!best || page.path.length > best.page.path!.length)) {
+        best = { page, breadcrumbs };
+      }
+    });
+    return best;
+  }
+
+  // Table of contents for the space root, nested like the GitBook sidebar
+  private describeTree(tree: GitbookTreePage[]): string {
+    const lines: string[] = [];
+    const visit = (pages: GitbookTreePage[], depth: number) => {
+      for (const page of pages) {
+        if (page.type !== 'link') {
+          lines.push(`${'  '.repeat(depth)}- ${page.title}`);
+        }
+        visit(page.pages || [], depth + 1);
+      }
+    };
+    visit(tree, 0);
+    return `# Contents\n\n${lines.join('\n')}`;
+  }
+
+  private async searchApi(entry: WikiEntry, query: string, limit: number): Promise<ConnectorSearchHit[]> {
+    const siteUrl = this.getSiteUrl(entry);
+    const [data, tree] = await Promise.all([this.apiGet(entry, '/search', { query }), this.getTree(entry)]);
+
+    const trails = new Map<string, string[]>();
+    this.walkTree(tree, [], (page, breadcrumbs) => trails.set(page.id, breadcrumbs));
+
+    const items: any[] = (data.items || []).slice(0, limit);
+    return items.map((item, i) => ({
+      url: `${siteUrl}/${item.path}`,
+      title: item.title,
+      content: (item.sections || []).map((section: any) => section.body).filter(Boolean).join(' … '),
+      score: items.length - i,
+      breadcrumbs: trails.get(item.id)
+    }));
+  }
+
+  // Reads the listed pages' Markdown a few at a time; pages read recently and a read already under way are left alone
+  private readInBackground(entry: WikiEntry, siteUrl: string, pages: WikiPage[]): void {
+    const site: PublishedSite = this.sites.get(siteUrl) || { pages, markdown: new Map() };
+    site.pages = pages;
+    this.sites.set(siteUrl, site);
+
+    const listed = new Set(pages.map(page => page.url));
+    for (const url of site.markdown.keys()) {
+      if (!listed.has(url)) site.markdown.delete(url);
+    }
+    if (site.reading) return;
+
+    // Outside the request that listed the pages, so its deadline does not abort the reads
+    site.reading = requestContext.exit(() => this.readPages(entry, site))
+      .catch(error => logger.warning(`Reading ${siteUrl} for search failed: ${error.message}`))
+      .finally(() => { site.reading = undefined; });
+  }
+
+  private async readPages(entry: WikiEntry, site: PublishedSite): Promise<void> {
+    const stale = site.pages.filter(page => Date.now() - (site.markdown.get(page.url)?.readAt ?? 0) >= PAGE_CACHE_MS);
+    for (let i = 0; i < stale.length; i += READ_CONCURRENCY) {
+      await Promise.all(stale.slice(i, i + READ_CONCURRENCY).map(async page => {
+        try {
+          site.markdown.set(page.url, { text: await this.fetchPublishedMarkdown(entry, page.url), readAt: Date.now() });
+        } catch (error: any) {
+          logger.debug(`Could not read ${page.url} for search: ${error.message}`);
+        }
+      }));
+    }
+    logger.debug(`Read ${stale.length} pages for search`);
+  }
+
+  // Scores listed pages by how often the query terms occur in what has been read of them, with title matches first
+  private searchSite(site: PublishedSite, query: string, limit: number): ConnectorSearchHit[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const scored: ConnectorSearchHit[] = [];
+
+    for (const page of site.pages) {
+      const markdown = site.markdown.get(page.url)?.text || '';
+      const text = markdown.toLowerCase();
+      const title = page.title.toLowerCase();
+      const score = terms.reduce((total, term) => total + this.countOccurrences(text, term) + (title.includes(term) ? 5 : 0), 0);
+      if (score > 0) {
+        scored.push({ ...page, content: this.snippet(markdown, terms), score });
+      }
+    }
+    return scored.sort((a, b) => (b.score ?? 0) - (a.score ?? 0)).slice(0, limit);
+  }
+
+  private countOccurrences(text: string, term: string): number {
+    let count = 0;
+    for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) {
+      count++;
+    }
+    return count;
+  }
+
+  private snippet(markdown: string, terms: string[]): string {
+    const lower = markdown.toLowerCase();
+    const first = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index !== -1));
+    const start = Number.isFinite(first) ? Math.max(0, first - SNIPPET_LENGTH / 3) : 0;
+    return markdown.slice(start, start + SNIPPET_LENGTH).replace(/\s+/g, ' ').trim();
+  }
+
+  // Page URLs from a sitemap, following sitemap indexes
+  private async readSitemap(entry: WikiEntry, sitemapUrl: string, visited: Set<string>): Promise<string[]> {
+    if (visited.has(sitemapUrl)) return [];
+    visited.add(sitemapUrl);
+
+    const response = await axios.get(sitemapUrl, { ...await this.createRequestConfig(entry), responseType: 'text' });
+    const xml = String(response.data || '');
+    const locations = Array.from(xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/g), match => this.decodeEntities(match[1]));
+
+    if (/<sitemapindex[\s>]/.test(xml)) {
+      const nested: string[] = [];
+      for (const location of locations) {
+        nested.push(...await this.readSitemap(entry, location, visited));
+      }
+      return nested;
+    }
+    return locations;
+  }
+
+  // GitBook serves every published page as Markdown at the page URL plus .md; plain HTML is the fallback
+  private async fetchPublishedMarkdown(entry: WikiEntry, url: string): Promise<string> {
+    const config = await this.createRequestConfig(entry);
+    const parsed = new URL(url);
+    const path = parsed.pathname.replace(/\/+$/, '');
+
+    if (path) {
+      try {
+        const response = await axios.get(`${parsed.origin}${path}.md`, { ...config, responseType: 'text' });
+        const markdown = String(response.data || '');
+        if (markdown && !/^\s*<(!doctype|html)/i.test(markdown)) {
+          return markdown;
+        }
+      } catch (error: any) {
+        logger.debug(`No Markdown variant for ${url}: ${error.message}`);
+      }
+    }
+
+    const response = await axios.get(url, { ...config, responseType: 'text' });
+    if (response.data) {
+      return this.extractContentFromHtml(String(response.data));
+    }
+    throw new Error('Failed to fetch GitBook content');
+  }
+
+  private encodePath(path: string): string {
+    return path.split('/').map(encodeURIComponent).join('/');
+  }
+
+  // getting-started -> Getting started
+  private humanize(segment: string): string {
+    const words = decodeURIComponent(segment).replace(/[-_]+/g, ' ').trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  private decodeEntities(text: string): string {
+    return text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+  }
+}
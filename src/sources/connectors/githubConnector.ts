@@ -0,0 +1,264 @@
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { ConnectorHealth, ConnectorSearchHit, WikiEntry, WikiPage, WikiType } from '../types';
+import { LocalDocument, indexDocuments, searchDocuments } from '../localDocs';
+import { RepositoryConnector, RepositoryFile, RepositoryLocation, RepositoryOptions } from './repositoryConnector';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('GitHubConnector');
+const execFileAsync = promisify(execFile);
+
+/**
+ * Source object options for GitHub sources
+ */
+export interface GitHubOptions extends RepositoryOptions {
+  wikiUrl?: string;             // Git URL of the wiki, for /wiki sources (default https://{host}/{owner}/{repo}.wiki.git)
+}
+
+// Wiki checkouts are pulled again once they are this old
+const WIKI_CACHE_MS = 5 * 60 * 1000;
+
+// A clone or pull that takes longer than this fails
+const GIT_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Wikis are cloned below this directory, one checkout per wiki
+const WIKI_CHECKOUT_DIR = path.join(os.tmpdir(), 'mcp-github-wikis');
+
+interface WikiCheckout {
+  documents: Promise<LocalDocument[]>;
+  updated: number;
+}
+
+/**
+ * Documentation in a GitHub or GitHub Enterprise repository: source URLs are
+ * https://{host}/{owner}/{repo} or a /tree/{ref}/{path} link to a docs directory.
+ * Repository wikis have no REST API, so /wiki URLs clone the wiki's git repository and read the checkout.
+ */
+export class GitHubConnector extends RepositoryConnector {
+  readonly type = WikiType.GitHub;
+  protected readonly hostName = 'GitHub';
+  private wikis: Map<string, WikiCheckout> = new Map(); // Wiki git URL -> its pages
+
+  async fetch(entry: WikiEntry): Promise<string> {
+    if (!this.isWiki(entry)) {
+      return super.fetch(entry);
+    }
+
+    // Page URLs end in the page's file name; the wiki URL itself shows Home
+    const name = new URL(entry.url).pathname.split('/').filter(Boolean).map(decodeURIComponent)[3] || 'Home';
+    const document = (await this.getWiki(entry)).find(candidate => wikiPageName(candidate).toLowerCase() === name.toLowerCase());
+    if (!document) {
+      throw new Error(`The wiki of ${this.parseLocation(entry).repo} has no page ${name}`);
+    }
+    return document.content;
+  }
+
+  async listPages(entry: WikiEntry): Promise<WikiPage[]> {
+    if (!this.isWiki(entry)) {
+      return super.listPages(entry);
+    }
+
+    const documents = await this.getWiki(entry);
+    return documents.slice(0, entry.maxPages).map(document => ({
+      url: this.getWikiPageUrl(entry, document),
+      title: wikiPageName(document).replace(/-/g, ' '),
+      breadcrumbs: document.relativePath.split('/').slice(0, -1)
+    }));
+  }
+
+  // Wikis are searched in their checkout, so queries send no requests until it is pulled again
+  async search(entry: WikiEntry, query: string, limit: number): Promise<ConnectorSearchHit[] | null> {
+    if (!this.isWiki(entry)) {
+      return super.search(entry, query, limit);
+    }
+
+    return searchDocuments(await this.getWiki(entry), query, limit).map(match => ({
+      url: this.getWikiPageUrl(entry, match.document),
+      title: wikiPageName(match.document).replace(/-/g, ' '),
+      content: match.snippet,
+      score: match.score,
+      breadcrumbs: match.document.relativePath.split('/').slice(0, -1)
+    }));
+  }
+
+  // Pulls the wiki past the cache, so a wiki that is missing or unreadable shows up right away
+  async checkHealth(entry: WikiEntry): Promise<ConnectorHealth> {
+    if (!this.isWiki(entry)) {
+      return super.checkHealth(entry);
+    }
+
+    const started = Date.now();
+    try {
+      await this.syncWiki(entry, this.getWikiGitUrl(entry));
+      return { healthy: true, latencyMs: Date.now() - started };
+    } catch (error: any) {
+      return { healthy: false, latencyMs: Date.now() - started, message: error.message };
+    }
+  }
+
+  // api.github.com for github.com; Enterprise Server serves the API under /api/v3
+  protected getApiUrl(entry: WikiEntry): string {
+    const configured = this.getOptions(entry).apiUrl;
+    if (configured) return configured.replace(/\/+$/, '');
+
+    const url = new URL(entry.url);
+    return url.hostname === 'github.com' ? 'https://api.github.com' : `${url.origin}/api/v3`;
+  }
+
+  protected parseLocation(entry: WikiEntry): RepositoryLocation {
+    const options = this.getOptions(entry);
+    const segments = new URL(entry.url).pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    if (segments.length < 2) {
+      throw new Error(`GitHub source URLs need an owner and repository: ${entry.url}`);
+    }
+
+    const repo = `${segments[0]}/${segments[1].replace(/\.git$/, '')}`;
+    const kind = segments[2];
+    if (kind !== 'tree' && kind !== 'blob') {
+      return { repo, ref: options.ref, path: (options.path || '').replace(/^\/+|\/+$/g, ''), isFile: false };
+    }
+
+    // Refs may contain slashes; a configured ref tells where the ref ends and the path begins
+    const rest = segments.slice(3).join('/');
+    const ref = options.ref && (rest === options.ref || rest.startsWith(`${options.ref}/`)) ? options.ref : segments[3];
+    return { repo, ref, path: rest.slice(ref.length).replace(/^\/+|\/+$/g, ''), isFile: kind === 'blob' };
+  }
+
+  protected async fetchDefaultRef(entry: WikiEntry, repo: string): Promise<string> {
+    const response = await this.apiGet(entry, `${this.getApiUrl(entry)}/repos/${repo}`);
+    return response.data.default_branch;
+  }
+
+  // One recursive tree request; GitHub truncates very large trees, which are then walked directory by directory
+  protected async listFiles(entry: WikiEntry, repo: string, ref: string, prefix: string): Promise<RepositoryFile[]> {
+    const treesUrl = `${this.getApiUrl(entry)}/repos/${repo}/git/trees`;
+    const response = await this.apiGet(entry, `${treesUrl}/${encodeURIComponent(ref)}?recursive=1`);
+    if (!response.data.truncated) {
+      return (response.data.tree || [])
+        .filter((item: any) => item.type === 'blob')
+        .map((item: any) => ({ path: item.path, sha: item.sha }));
+    }
+
+    logger.info(`Tree of ${repo} is too large for one request; walking directories under /${prefix}`);
+    const files: RepositoryFile[] = [];
+    const pending: Array<{ sha: string; path: string }> = [{ sha: ref, path: '' }];
+    while (pending.length > 0) {
+      const dir = pending.shift()!;
+      const tree = await this.apiGet(entry, `${treesUrl}/${encodeURIComponent(dir.sha)}`);
+      for (const item of tree.data.tree || []) {
+        const itemPath = dir.path ? `${dir.path}/${item.path}` : item.path;
+        const related = !prefix || itemPath.startsWith(`${prefix}/`) || prefix === itemPath || prefix.startsWith(`${itemPath}/`);
+        if (!related) continue;
+        if (item.type === 'tree') {
+          pending.push({ sha: item.sha, path: itemPath });
+        } else if (item.type === 'blob') {
+          files.push({ path: itemPath, sha: item.sha });
+        }
+      }
+    }
+    return files;
+  }
+
+  protected async readFile(entry: WikiEntry, repo: string, ref: string, filePath: string): Promise<string> {
+    const response = await this.apiGet(
+      entry,
+      `${this.getApiUrl(entry)}/repos/${repo}/contents/${this.encodePath(filePath)}?ref=${encodeURIComponent(ref)}`
+    );
+    return decodeContent(response.data);
+  }
+
+  protected async readBlob(entry: WikiEntry, repo: string, sha: string): Promise<string> {
+    const response = await this.apiGet(entry, `${this.getApiUrl(entry)}/repos/${repo}/git/blobs/${sha}`);
+    return decodeContent(response.data);
+  }
+
+  protected getBlobUrl(entry: WikiEntry, repo: string, ref: string, filePath: string): string {
+    return `${new URL(entry.url).origin}/${repo}/blob/${this.encodePath(ref)}/${this.encodePath(filePath)}`;
+  }
+
+  private isWiki(entry: WikiEntry): boolean {
+    return new URL(entry.url).pathname.split('/').filter(Boolean)[2] === 'wiki';
+  }
+
+  private getWikiGitUrl(entry: WikiEntry): string {
+    const configured = (this.getOptions(entry) as GitHubOptions).wikiUrl;
+    return configured || `${new URL(entry.url).origin}/${this.parseLocation(entry).repo}.wiki.git`;
+  }
+
+  private getWikiPageUrl(entry: WikiEntry, document: LocalDocument): string {
+    return `${new URL(entry.url).origin}/${this.parseLocation(entry).repo}/wiki/${encodeURIComponent(wikiPageName(document))}`;
+  }
+
+  // The wiki's pages from its checkout; cloned on first use and pulled again once the checkout is old
+  private getWiki(entry: WikiEntry): Promise<LocalDocument[]> {
+    const gitUrl = this.getWikiGitUrl(entry);
+    const cached = this.wikis.get(gitUrl);
+    if (cached && Date.now() - cached.updated < WIKI_CACHE_MS) {
+      return cached.documents;
+    }
+
+    const documents = this.syncWiki(entry, gitUrl);
+    this.wikis.set(gitUrl, { documents, updated: Date.now() });
+    documents.catch(() => this.wikis.delete(gitUrl));
+    return documents;
+  }
+
+  private async syncWiki(entry: WikiEntry, gitUrl: string): Promise<LocalDocument[]> {
+    const dir = path.join(WIKI_CHECKOUT_DIR, createHash('sha256').update(gitUrl).digest('hex').substring(0, 16));
+    const cloned = await fs.stat(path.join(dir, '.git')).then(() => true, () => false);
+
+    if (cloned) {
+      await this.git(entry, ['-C', dir, 'fetch', '--quiet', '--depth', '1', 'origin', 'HEAD']);
+      await this.git(entry, ['-C', dir, 'reset', '--quiet', '--hard', 'FETCH_HEAD']);
+    } else {
+      await fs.mkdir(WIKI_CHECKOUT_DIR, { recursive: true });
+      await fs.rm(dir, { recursive: true, force: true });
+      await this.git(entry, ['clone', '--quiet', '--depth', '1', gitUrl, dir]);
+    }
+
+    // _Sidebar and _Footer are shown around every page rather than being pages themselves
+    const documents = (await indexDocuments(dir)).filter(document => !path.posix.basename(document.relativePath).startsWith('_'));
+    logger.debug(`Read ${documents.length} wiki pages from ${gitUrl}`);
+    return documents;
+  }
+
+  // Credentials go to git through its environment, so they appear neither in the command line nor in the checkout
+  private async git(entry: WikiEntry, args: string[]): Promise<void> {
+    const env: NodeJS.ProcessEnv = { ...process.env, GIT_TERMINAL_PROMPT: '0' };
+    const credentials = entry.auth?.type === 'token' ? `x-access-token:${entry.auth.config.token}`
+      : entry.auth?.type === 'basic' ? `${entry.auth.config.username}:${entry.auth.config.password}`
+      : undefined;
+    if (credentials) {
+      Object.assign(env, {
+        GIT_CONFIG_COUNT: '1',
+        GIT_CONFIG_KEY_0: 'http.extraHeader',
+        GIT_CONFIG_VALUE_0: `Authorization: Basic ${Buffer.from(credentials).toString('base64')}`
+      });
+    }
+
+    try {
+      await execFileAsync('git', args, { env, timeout: GIT_TIMEOUT_MS });
+    } catch (error: any) {
+      const detail = String(error.stderr || '').trim() || error.message;
+      throw new Error(`Reading the GitHub wiki of ${entry.url} failed: ${detail}`);
+    }
+  }
+}
+
+// GitHub names a wiki page after its file: Getting-Started.md is the page Getting-Started
+function wikiPageName(document: LocalDocument): string {
+  const base = path.posix.basename(document.relativePath);
+  return base.slice(0, base.length - path.posix.extname(base).length);
+}
+
+// The contents and blobs APIs return base64 with line breaks
+function decodeContent(data: any): string {
+  if (data?.encoding === 'base64') {
+    return Buffer.from(data.content || '', 'base64').toString('utf8');
+  }
+  return data?.content || '';
+}
@@ -0,0 +1,148 @@
+import { ConnectorSearchHit, WikiEntry, WikiPage, WikiType } from '../types';
+import { LocalDocument, parseFrontMatter, searchDocuments } from '../localDocs';
+import { RepositoryConnector, RepositoryFile, RepositoryLocation, RepositoryOptions } from './repositoryConnector';
+
+/**
+ * Source object options for GitLab sources
+ */
+export interface GitLabOptions extends RepositoryOptions {
+  wiki?: boolean;               // Read the project wiki; implied by /-/wikis URLs
+}
+
+// Tree entries requested per page
+const TREE_PAGE_SIZE = 100;
+
+/**
+ * Documentation in a GitLab.com or self-managed GitLab project: source URLs are the project URL,
+ * a /-/tree/{ref}/{path} link to a docs directory, or a /-/wikis link for the project wiki.
+ */
+export class GitLabConnector extends RepositoryConnector {
+  readonly type = WikiType.GitLab;
+  protected readonly hostName = 'GitLab';
+
+  async fetch(entry: WikiEntry): Promise<string> {
+    if (!this.isWiki(entry)) {
+      return super.fetch(entry);
+    }
+
+    const slug = new URL(entry.url).pathname.split('/-/wikis/')[1]?.replace(/\/+$/, '') || 'home';
+    const response = await this.apiGet(entry, `${this.projectApiUrl(entry)}/wikis/${encodeURIComponent(decodeURIComponent(slug))}`);
+    return `# ${response.data.title}\n\n${response.data.content || ''}`;
+  }
+
+  async listPages(entry: WikiEntry): Promise<WikiPage[]> {
+    if (!this.isWiki(entry)) {
+      return super.listPages(entry);
+    }
+
+    const response = await this.apiGet(entry, `${this.projectApiUrl(entry)}/wikis`);
+    return (response.data as any[]).slice(0, entry.maxPages).map(page => ({
+      url: this.getWikiPageUrl(entry, page.slug),
+      title: page.title,
+      breadcrumbs: page.slug.split('/').slice(0, -1)
+    }));
+  }
+
+  // Wikis come back with their content in one request, so they are searched in full
+  async search(entry: WikiEntry, query: string, limit: number): Promise<ConnectorSearchHit[] | null> {
+    if (!this.isWiki(entry)) {
+      return super.search(entry, query, limit);
+    }
+
+    const response = await this.apiGet(entry, `${this.projectApiUrl(entry)}/wikis?with_content=1`);
+    const documents: LocalDocument[] = (response.data as any[]).map(page => {
+      const { metadata, body } = parseFrontMatter(page.content || '');
+      return {
+        path: this.getWikiPageUrl(entry, page.slug),
+        relativePath: page.slug,
+        title: page.title,
+        content: body,
+        metadata,
+        mimeType: 'text/markdown',
+        modified: 0
+      };
+    });
+
+    return searchDocuments(documents, query, limit).map(match => ({
+      url: match.document.path,
+      title: match.document.title,
+      content: match.snippet,
+      score: match.score,
+      breadcrumbs: match.document.relativePath.split('/').slice(0, -1)
+    }));
+  }
+
+  protected getApiUrl(entry: WikiEntry): string {
+    const configured = this.getOptions(entry).apiUrl;
+    return configured ? configured.replace(/\/+$/, '') : `${new URL(entry.url).origin}/api/v4`;
+  }
+
+  protected parseLocation(entry: WikiEntry): RepositoryLocation {
+    const options = this.getOptions(entry);
+    const [projectPath, route = ''] = new URL(entry.url).pathname.replace(/^\/+/, '').split('/-/');
+    const repo = decodeURIComponent(projectPath.replace(/\/+$/, '').replace(/\.git$/, ''));
+    const segments = route.split('/').filter(Boolean).map(decodeURIComponent);
+    const kind = segments[0];
+
+    if (kind !== 'tree' && kind !== 'blob') {
+      return { repo, ref: options.ref, path: (options.path || '').replace(/^\/+|\/+$/g, ''), isFile: false };
+    }
+
+    // Refs may contain slashes; a configured ref tells where the ref ends and the path begins
+    const rest = segments.slice(1).join('/');
+    const ref = options.ref && (rest === options.ref || rest.startsWith(`${options.ref}/`)) ? options.ref : segments[1];
+    return { repo, ref, path: rest.slice(ref.length).replace(/^\/+|\/+$/g, ''), isFile: kind === 'blob' };
+  }
+
+  protected async fetchDefaultRef(entry: WikiEntry, repo: string): Promise<string> {
+    const response = await this.apiGet(entry, `${this.getApiUrl(entry)}/projects/${encodeURIComponent(repo)}`);
+    return response.data.default_branch;
+  }
+
+  // The tree endpoint pages its results; x-next-page is empty on the last page
+  protected async listFiles(entry: WikiEntry, repo: string, ref: string, prefix: string): Promise<RepositoryFile[]> {
+    const files: RepositoryFile[] = [];
+    let page = '1';
+    while (page) {
+      const params = new URLSearchParams({ ref, recursive: 'true', per_page: String(TREE_PAGE_SIZE), page });
+      if (prefix) params.set('path', prefix);
+
+      const response = await this.apiGet(entry, `${this.getApiUrl(entry)}/projects/${encodeURIComponent(repo)}/repository/tree?${params}`);
+      for (const item of response.data || []) {
+        if (item.type === 'blob') files.push({ path: item.path, sha: item.id });
+      }
+      page = response.headers['x-next-page'] || '';
+    }
+    return files;
+  }
+
+  protected async readFile(entry: WikiEntry, repo: string, ref: string, filePath: string): Promise<string> {
+    const response = await this.apiGet(
+      entry,
+      `${this.getApiUrl(entry)}/projects/${encodeURIComponent(repo)}/repository/files/${encodeURIComponent(filePath)}?ref=${encodeURIComponent(ref)}`
+    );
+    const { content = '', encoding } = response.data || {};
+    return encoding === 'base64' ? Buffer.from(content, 'base64').toString('utf8') : content;
+  }
+
+  protected async readBlob(entry: WikiEntry, repo: string, sha: string): Promise<string> {
+    const response = await this.apiGet(entry, `${this.getApiUrl(entry)}/projects/${encodeURIComponent(repo)}/repository/blobs/${sha}/raw`, true);
+    return String(response.data);
+  }
+
+  protected getBlobUrl(entry: WikiEntry, repo: string, ref: string, filePath: string): string {
+    return `${new URL(entry.url).origin}/${repo}/-/blob/${this.encodePath(ref)}/${this.encodePath(filePath)}`;
+  }
+
+  private isWiki(entry: WikiEntry): boolean {
+    return (this.getOptions(entry) as GitLabOptions).wiki === true || new URL(entry.url).pathname.includes('/-/wikis');
+  }
+
+  private projectApiUrl(entry: WikiEntry): string {
+    return `${this.getApiUrl(entry)}/projects/${encodeURIComponent(this.parseLocation(entry).repo)}`;
+  }
+
+  private getWikiPageUrl(entry: WikiEntry, slug: string): string {
+    return `${new URL(entry.url).origin}/${this.parseLocation(entry).repo}/-/wikis/${this.encodePath(slug)}`;
+  }
+}
@@ -0,0 +1,109 @@
+import { WikiConnector, WikiEntry, WikiPage, ConnectorHealth } from '../types';
+import { Logger } from '../../utils/logger';
+import { requestContext } from '../../requestContext';
+import { ClientCredentialsConfig, clientCredentialsTokens } from './clientCredentials';
+
+const logger = new Logger('HttpConnector');
+
+// A wiki that stops answering must not hold a scheduler slot past this
+export const REQUEST_TIMEOUT_MS = 20000;
+
+/**
+ * Shared plumbing for connectors that fetch pages over HTTP
+ * Subclasses implement fetch; by default only the configured page is known and health is a timed fetch
+ */
+export abstract class HttpConnector implements WikiConnector {
+  abstract readonly type: string;
+
+  abstract fetch(entry: WikiEntry): Promise<string>;
+
+  async listPages(_entry: WikiEntry): Promise<WikiPage[]> {
+    return [];
+  }
+
+  async checkHealth(entry: WikiEntry): Promise<ConnectorHealth> {
+    const started = Date.now();
+    try {
+      await this.fetch(entry);
+      return { healthy: true, latencyMs: Date.now() - started };
+    } catch (error: any) {
+      return { healthy: false, latencyMs: Date.now() - started, message: error.message };
+    }
+  }
+
+  // Create axios request config with authentication if available
+  // oauth entries get a bearer token from the client credentials grant; defaultScope applies when the config names none
+  // Requests time out, and are aborted when the MCP request they serve is cancelled or passes its deadline
+  protected async createRequestConfig(entry: WikiEntry, defaultScope?: string): Promise<any> {
+    const config: any = {
+      timeout: REQUEST_TIMEOUT_MS,
+      signal: requestContext.getStore()?.signal
+    };
+    if (!entry.auth) {
+      return config; // No authentication needed
+    }
+    
+    config.headers = {};
+    
+    switch (entry.auth.type) {
+      case 'basic':
+        const { username, password } = entry.auth.config;
+        if (username && password) {
+          const base64Credentials = Buffer.from(`${username}:${password}`).toString('base64');
+          config.headers['Authorization'] = `Basic ${base64Credentials}`;
+        }
+        break;
+        
+      case 'token':
+        const { token } = entry.auth.config;
+        if (token) {
+          config.headers['Authorization'] = `Bearer ${token}`;
+        }
+        break;
+        
+      case 'custom':
+        const { headerName, headerValue } = entry.auth.config;
+        if (headerName && headerValue) {
+          config.headers[headerName] = headerValue;
+        }
+        break;
+        
+      case 'oauth':
+        const credentials = this.getClientCredentials(entry, defaultScope);
+        if (credentials) {
+          config.headers['Authorization'] = `Bearer ${await clientCredentialsTokens.getToken(credentials)}`;
+        } else {
+          logger.warning(`OAuth authentication for ${entry.url} needs oauthConfig with clientId, clientSecret and tokenUrl`);
+        }
+        break;
+    }
+    
+    return config;
+  }
+
+  protected getClientCredentials(entry: WikiEntry, defaultScope?: string): ClientCredentialsConfig | undefined {
+    const oauthConfig = entry.auth?.type === 'oauth' ? entry.auth.config?.oauthConfig : undefined;
+    if (!oauthConfig?.clientId || !oauthConfig.clientSecret || !oauthConfig.tokenUrl) {
+      return undefined;
+    }
+    return { ...oauthConfig, scope: oauthConfig.scope || defaultScope };
+  }
+
+  // Extract meaningful content from HTML
+  protected extractContentFromHtml(html: string): string {
+    // Basic extraction - in a real app, use a proper HTML parser
+    const textContent = html
+      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
+      .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '')
+      .replace(/<header\b[^<]*(?:(?!<\/header>)<[^<]*)*<\/header>/gi, '')
+      .replace(/<footer\b[^<]*(?:(?!<\/footer>)<[^<]*)*<\/footer>/gi, '')
+      .replace(/<nav\b[^<]*(?:(?!<\/nav>)<[^<]*)*<\/nav>/gi, '')
+      .replace(/<aside\b[^<]*(?:(?!<\/aside>)<[^<]*)*<\/aside>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    
+    return textContent;
+  }
+}
@@ -0,0 +1,44 @@
+import { ConnectorRegistry } from '../connectorRegistry';
+import { MediaWikiConnector } from './mediaWikiConnector';
+import { GitbookConnector } from './gitbookConnector';
+import { ConfluenceConnector } from './confluenceConnector';
+import { MarkdownConnector } from './markdownConnector';
+import { SharePointConnector } from './sharePointConnector';
+import { LocalConnector } from './localConnector';
+import { GitHubConnector } from './githubConnector';
+import { GitLabConnector } from './gitlabConnector';
+import { OpenApiConnector } from './openApiConnector';
+import { GenericConnector } from './genericConnector';
+
+export { HttpConnector } from './httpConnector';
+export { RepositoryConnector } from './repositoryConnector';
+export {
+  MediaWikiConnector,
+  GitbookConnector,
+  ConfluenceConnector,
+  MarkdownConnector,
+  SharePointConnector,
+  LocalConnector,
+  GitHubConnector,
+  GitLabConnector,
+  OpenApiConnector,
+  GenericConnector
+};
+
+/**
+ * Registry with a connector for every built-in wiki type
+ */
+export function createDefaultConnectorRegistry(): ConnectorRegistry {
+  const registry = new ConnectorRegistry();
+  registry.register(new MediaWikiConnector());
+  registry.register(new GitbookConnector());
+  registry.register(new ConfluenceConnector());
+  registry.register(new MarkdownConnector());
+  registry.register(new SharePointConnector());
+  registry.register(new LocalConnector());
+  registry.register(new GitHubConnector());
+  registry.register(new GitLabConnector());
+  registry.register(new OpenApiConnector());
+  registry.register(new GenericConnector());
+  return registry;
+}
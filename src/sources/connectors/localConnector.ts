@@ -0,0 +1,254 @@
+import { FSWatcher, promises as fs, watch } from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { ConnectorHealth, ConnectorSearchHit, WikiConnector, WikiEntry, WikiPage, WikiType } from '../types';
+import { DOC_MIME_TYPES, LocalDocument, indexDocuments, searchDocuments } from '../localDocs';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('LocalConnector');
+
+/**
+ * Source object options for local directories
+ */
+export interface LocalOptions {
+  gitignore?: boolean;          // Skip what .gitignore files exclude (default true)
+  watch?: boolean;              // Re-index when files change (default true)
+  maxFileBytes?: number;        // Larger files are skipped (default 1 MB)
+}
+
+// Editors write files in bursts, so changes are collected this long before re-indexing
+const WATCH_DEBOUNCE_MS = 300;
+
+// Files a directory link can stand for, in order of preference
+const DIRECTORY_INDEXES = ['README.md', 'index.md', 'index.mdx', 'README.adoc', 'index.adoc', 'README.rst', 'index.rst'];
+
+// Relative links as prefix, target and suffix, so the target can be swapped in place
+const LINK_PATTERNS: RegExp[] = [
+  /(\]\()([^)\s]+)((?:\s+"[^"]*")?\))/g,          // Markdown [text](target "title")
+  /^(\s{0,3}\[[^\]]+\]:\s*)(\S+)()/gm,            // Markdown reference [id]: target
+  /((?:xref|link):)([^\s[]+)(\[)/g,               // AsciiDoc xref:target[text] and link:target[text]
+  /(<<)([^,>\s#]+\.\w+(?:#[^,>]*)?)([,>])/g,      // AsciiDoc <<target.adoc#anchor,text>>
+  /(`[^`<]*<)([^>`]+)(>`__?)/g                    // reStructuredText `text <target>`_
+];
+
+interface LocalIndex {
+  root: string;
+  documents: Map<string, LocalDocument>; // Relative path -> document
+  watcher?: FSWatcher;
+  listeners: Set<(urls: string[]) => void>;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Documentation in a local directory or git working tree, addressed by file:// URLs.
+ * Markdown, MDX, AsciiDoc and reStructuredText files are indexed with their front matter,
+ * relative links between them are rewritten to wiki:// resource URIs, and the directory
+ * is watched so edits are searchable as soon as they are saved.
+ */
+export class LocalConnector implements WikiConnector {
+  readonly type = WikiType.Local;
+  private indexes: Map<string, Promise<LocalIndex>> = new Map(); // Root directory -> index
+
+  async fetch(entry: WikiEntry): Promise<string> {
+    const index = await this.getIndex(entry);
+    const file = fileURLToPath(entry.url);
+    const relativePath = this.relativePath(index.root, file);
+
+    if (relativePath === '') {
+      const readme = DIRECTORY_INDEXES.map(name => index.documents.get(name)).find(Boolean);
+      if (!readme) {
+        const lines = Array.from(index.documents.values()).map(document => `- ${document.title} (${document.relativePath})`);
+        return `# ${path.basename(index.root)}\n\n${lines.join('\n')}`;
+      }
+      return this.rewriteLinks(entry, index, readme.relativePath, await fs.readFile(readme.path, 'utf8'));
+    }
+
+    if (!relativePath || !index.documents.has(relativePath)) {
+      throw new Error(`Not an indexed document of ${index.root}: ${file}`);
+    }
+    return this.rewriteLinks(entry, index, relativePath, await fs.readFile(file, 'utf8'));
+  }
+
+  // Re-reads the directory unless a watcher already keeps the index current
+  async listPages(entry: WikiEntry): Promise<WikiPage[]> {
+    const known = this.indexes.has(this.getRoot(entry));
+    const index = await this.getIndex(entry);
+    if (known && !index.watcher) {
+      await this.reindex(entry, index);
+    }
+
+    return Array.from(index.documents.values()).map(document => ({
+      url: pathToFileURL(document.path).toString(),
+      title: document.title,
+      breadcrumbs: document.relativePath.split('/').slice(0, -1)
+    }));
+  }
+
+  async search(entry: WikiEntry, query: string, limit: number): Promise<ConnectorSearchHit[]> {
+    const index = await this.getIndex(entry);
+    return searchDocuments(Array.from(index.documents.values()), query, limit).map(match => ({
+      url: pathToFileURL(match.document.path).toString(),
+      title: match.document.title,
+      content: match.snippet,
+      score: match.score,
+      breadcrumbs: match.document.relativePath.split('/').slice(0, -1)
+    }));
+  }
+
+  async checkHealth(entry: WikiEntry): Promise<ConnectorHealth> {
+    const started = Date.now();
+    try {
+      const stats = await fs.stat(this.getRoot(entry));
+      if (!stats.isDirectory()) {
+        throw new Error(`${this.getRoot(entry)} is not a directory`);
+      }
+      return { healthy: true, latencyMs: Date.now() - started };
+    } catch (error: any) {
+      return { healthy: false, latencyMs: Date.now() - started, message: error.message };
+    }
+  }
+
+  watch(entry: WikiEntry, onChange: (urls: string[]) => void): () => void {
+    if (this.getOptions(entry).watch === false) {
+      return () => {};
+    }
+
+    const ready = this.getIndex(entry).then(index => {
+      index.listeners.add(onChange);
+      if (!index.watcher) {
+        this.startWatching(entry, index);
+      }
+      return index;
+    });
+
+    return () => {
+      ready.then(index => {
+        index.listeners.delete(onChange);
+        if (index.listeners.size === 0) {
+          index.watcher?.close();
+          index.watcher = undefined;
+          clearTimeout(index.timer);
+        }
+      }).catch(() => {});
+    };
+  }
+
+  private getOptions(entry: WikiEntry): LocalOptions {
+    return entry.options || {};
+  }
+
+  private getRoot(entry: WikiEntry): string {
+    return path.resolve(fileURLToPath(entry.sourceUrl || entry.url));
+  }
+
+  // Path below the root with forward slashes; undefined when the file lies outside it
+  private relativePath(root: string, file: string): string | undefined {
+    const relative = path.relative(root, path.resolve(file));
+    if (relative.startsWith('..') || path.isAbsolute(relative)) return undefined;
+    return relative.split(path.sep).join('/');
+  }
+
+  private getIndex(entry: WikiEntry): Promise<LocalIndex> {
+    const root = this.getRoot(entry);
+    let index = this.indexes.get(root);
+    if (!index) {
+      const created: LocalIndex = { root, documents: new Map(), listeners: new Set() };
+      index = this.reindex(entry, created).then(() => created);
+      index.catch(() => this.indexes.delete(root));
+      this.indexes.set(root, index);
+    }
+    return index;
+  }
+
+  // Read the directory again; returns the URLs of documents that were added, changed or removed
+  private async reindex(entry: WikiEntry, index: LocalIndex): Promise<string[]> {
+    const options = this.getOptions(entry);
+    const documents = await indexDocuments(index.root, {
+      maxFiles: entry.maxPages,
+      maxFileBytes: options.maxFileBytes,
+      respectGitignore: options.gitignore !== false
+    });
+
+    const next = new Map(documents.map(document => [document.relativePath, document]));
+    const changed = [
+      ...documents.filter(document => {
+        const previous = index.documents.get(document.relativePath);
+        return !previous || previous.modified !== document.modified || previous.content !== document.content;
+      }),
+      ...Array.from(index.documents.values()).filter(document => !next.has(document.relativePath))
+    ].map(document => pathToFileURL(document.path).toString());
+
+    index.documents = next;
+    logger.debug(`Indexed ${documents.length} documents in ${index.root}`);
+    return changed;
+  }
+
+  private startWatching(entry: WikiEntry, index: LocalIndex): void {
+    try {
+      index.watcher = watch(index.root, { recursive: true }, (_event, filename) => {
+        const name = filename ? filename.toString() : '';
+        if (name === '.git' || name.startsWith(`.git${path.sep}`)) return;
+
+        clearTimeout(index.timer);
+        index.timer = setTimeout(() => {
+          this.reindex(entry, index)
+            .then(changed => {
+              if (changed.length === 0) return;
+              logger.info(`${changed.length} documents changed in ${index.root}`);
+              index.listeners.forEach(listener => listener(changed));
+            })
+            .catch(error => logger.warning(`Failed to re-index ${index.root}:`, error));
+        }, WATCH_DEBOUNCE_MS);
+        index.timer.unref();
+      });
+      index.watcher.on('error', error => logger.warning(`Stopped watching ${index.root}:`, error));
+      index.watcher.unref();
+    } catch (error) {
+      logger.warning(`Cannot watch ${index.root}; changes show up on refresh only:`, error);
+    }
+  }
+
+  private rewriteLinks(entry: WikiEntry, index: LocalIndex, from: string, text: string): string {
+    return LINK_PATTERNS.reduce((rewritten, pattern) =>
+      rewritten.replace(pattern, (match, prefix: string, target: string, suffix: string) => {
+        const uri = this.resolveLink(entry, index, from, target);
+        return uri ? `${prefix}${uri}${suffix}` : match;
+      }), text);
+  }
+
+  /**
+   * wiki:// URI of the indexed document a relative link points at, trying the documentation
+   * extensions and directory index files the way static site generators do; undefined otherwise
+   */
+  private resolveLink(entry: WikiEntry, index: LocalIndex, from: string, target: string): string | undefined {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('#') || target.startsWith('//')) {
+      return undefined;
+    }
+
+    const hashIndex = target.indexOf('#');
+    const anchor = hashIndex === -1 ? '' : target.slice(hashIndex);
+    let linkPath = hashIndex === -1 ? target : target.slice(0, hashIndex);
+    try {
+      linkPath = decodeURIComponent(linkPath);
+    } catch {
+      return undefined;
+    }
+
+    const resolved = linkPath.startsWith('/')
+      ? path.posix.normalize(linkPath.slice(1))
+      : path.posix.join(path.posix.dirname(from), linkPath);
+    if (resolved.startsWith('..')) return undefined;
+
+    const base = resolved.replace(/\/+$/, '');
+    const candidates = [
+      base,
+      ...Object.keys(DOC_MIME_TYPES).map(extension => base + extension),
+      ...DIRECTORY_INDEXES.map(name => (base === '.' ? name : `${base}/${name}`))
+    ];
+    const document = candidates.map(candidate => index.documents.get(candidate)).find(Boolean);
+    if (!document) return undefined;
+
+    // Same page path WikiSource derives from the document's file:// URL
+    return `wiki://${entry.id}/${pathToFileURL(document.path).pathname.replace(/^\/+/, '')}${anchor}`;
+  }
+}
@@ -0,0 +1,30 @@
+import axios from 'axios';
+import { marked } from 'marked';
+import { WikiEntry, WikiType } from '../types';
+import { HttpConnector } from './httpConnector';
+
+/**
+ * Markdown documents served over HTTP, rendered to HTML
+ */
+export class MarkdownConnector extends HttpConnector {
+  readonly type = WikiType.Markdown;
+
+  async fetch(entry: WikiEntry): Promise<string> {
+    const config = await this.createRequestConfig(entry);
+    const response = await axios.get(entry.url, config);
+    
+    if (response.data) {
+      if (typeof response.data === 'string') {
+        // Parse markdown to HTML
+        return marked(response.data);
+      } else {
+        // Handle JSON responses (e.g., from the GitHub contents API, which base64-encodes the file)
+        const { content, encoding } = response.data;
+        if (!content) return JSON.stringify(response.data);
+        return marked(encoding === 'base64' ? Buffer.from(content, 'base64').toString('utf8') : content);
+      }
+    }
+    
+    throw new Error('Failed to fetch Markdown content');
+  }
+}
@@ -0,0 +1,141 @@
+import axios from 'axios';
+import { ConnectorHealth, ConnectorSearchHit, WikiEntry, WikiPage, WikiType } from '../types';
+import { HttpConnector } from './httpConnector';
+
+/**
+ * Source object options for MediaWiki sources
+ */
+export interface MediaWikiOptions {
+  apiUrl?: string;              // api.php endpoint; derived from the page URL when omitted
+  namespaces?: number[];        // Namespaces to list and search (default [0], the main namespace)
+}
+
+// Pages requested per allpages call; 500 is the limit for clients without the apihighlimits right
+const ALLPAGES_BATCH = 500;
+
+// Enumeration stops here unless the source sets maxPages
+const DEFAULT_MAX_PAGES = 10000;
+
+/**
+ * MediaWiki sites through the action API: pages are rendered with action=parse,
+ * enumerated with list=allpages and searched with list=search
+ */
+export class MediaWikiConnector extends HttpConnector {
+  readonly type = WikiType.MediaWiki;
+
+  async fetch(entry: WikiEntry): Promise<string> {
+    const data = await this.callApi(entry, {
+      action: 'parse',
+      page: this.getPageTitle(entry.url),
+      prop: 'text'
+    });
+
+    if (data.parse && data.parse.text) {
+      return data.parse.text['*'];
+    }
+
+    throw new Error('Failed to parse MediaWiki content');
+  }
+
+  // Every page in the configured namespaces, following continuation until the wiki or maxPages runs out
+  async listPages(entry: WikiEntry): Promise<WikiPage[]> {
+    const maxPages = entry.maxPages ?? DEFAULT_MAX_PAGES;
+    const pages: WikiPage[] = [];
+
+    for (const namespace of this.getNamespaces(entry)) {
+      let continuation: Record<string, string> = {};
+      do {
+        const data = await this.callApi(entry, {
+          action: 'query',
+          list: 'allpages',
+          apnamespace: String(namespace),
+          aplimit: String(Math.min(ALLPAGES_BATCH, maxPages - pages.length)),
+          ...continuation
+        });
+
+        for (const page of data.query?.allpages || []) {
+          pages.push({ url: this.getPageUrl(entry, page.title), title: page.title });
+        }
+        continuation = data.continue || {};
+      } while (continuation.continue !== undefined && pages.length < maxPages);
+
+      if (pages.length >= maxPages) break;
+    }
+
+    return pages;
+  }
+
+  async search(entry: WikiEntry, query: string, limit: number): Promise<ConnectorSearchHit[]> {
+    const data = await this.callApi(entry, {
+      action: 'query',
+      list: 'search',
+      srsearch: query,
+      srnamespace: this.getNamespaces(entry).join('|'),
+      srlimit: String(limit),
+      srprop: 'snippet'
+    });
+
+    const results: any[] = data.query?.search || [];
+    return results.map((result, i) => ({
+      url: this.getPageUrl(entry, result.title),
+      title: result.title,
+      content: this.extractContentFromHtml(result.snippet || ''),
+      score: results.length - i
+    }));
+  }
+
+  // A siteinfo query is cheaper than rendering a page
+  async checkHealth(entry: WikiEntry): Promise<ConnectorHealth> {
+    const started = Date.now();
+    try {
+      await this.callApi(entry, { action: 'query', meta: 'siteinfo', siprop: 'general' });
+      return { healthy: true, latencyMs: Date.now() - started };
+    } catch (error: any) {
+      return { healthy: false, latencyMs: Date.now() - started, message: error.message };
+    }
+  }
+
+  // API errors come back with status 200 and an error object
+  private async callApi(entry: WikiEntry, params: Record<string, string>): Promise<any> {
+    const url = `${this.getApiUrl(entry)}?${new URLSearchParams({ ...params, format: 'json' }).toString()}`;
+    const response = await axios.get(url, await this.createRequestConfig(entry));
+
+    if (response.data?.error) {
+      throw new Error(`MediaWiki API error: ${response.data.error.info || response.data.error.code}`);
+    }
+    return response.data || {};
+  }
+
+  private getApiUrl(entry: WikiEntry): string {
+    const options: MediaWikiOptions = entry.options || {};
+    if (options.apiUrl) return options.apiUrl;
+
+    const apiUrl = new URL(entry.url);
+    apiUrl.search = '';
+    apiUrl.pathname = /\/wiki(\/|$)/.test(apiUrl.pathname)
+      ? apiUrl.pathname.replace(/\/wiki(\/.*)?$/, '/api.php')
+      : apiUrl.pathname.replace(/\/(index\.php)?$/, '') + '/api.php';
+    return apiUrl.toString();
+  }
+
+  private getNamespaces(entry: WikiEntry): number[] {
+    const namespaces = (entry.options as MediaWikiOptions | undefined)?.namespaces;
+    return namespaces && namespaces.length > 0 ? namespaces : [0];
+  }
+
+  // Title from /wiki/Title or index.php?title=Title; the main page otherwise
+  private getPageTitle(url: string): string {
+    const parsed = new URL(url);
+    const titleMatch = parsed.pathname.match(/\/wiki\/(.+)$/);
+    const title = titleMatch ? decodeURIComponent(titleMatch[1]) : parsed.searchParams.get('title');
+    return title || 'Main_Page';
+  }
+
+  // Pages live next to the configured one under /wiki/, so they resolve to wiki:// page paths on the same host
+  private getPageUrl(entry: WikiEntry, title: string): string {
+    const base = new URL(entry.url);
+    const articlePrefix = base.pathname.match(/^(.*\/wiki\/)/)?.[1] || '/wiki/';
+    const encoded = encodeURIComponent(title.replace(/ /g, '_')).replace(/%2F/g, '/').replace(/%3A/g, ':');
+    return new URL(articlePrefix + encoded, base.origin).toString();
+  }
+}
@@ -0,0 +1,571 @@
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { ConnectorHealth, ConnectorSearchHit, WikiEntry, WikiPage, WikiType } from '../types';
+import { HttpConnector } from './httpConnector';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('OpenApiConnector');
+
+/**
+ * Source object options for OpenAPI sources
+ */
+export interface OpenApiOptions {
+  specUrl?: string;             // Spec to load when the source URL is a documentation site; relative to the source URL
+}
+
+// Specs are loaded again after this long, and files also as soon as they change
+const SPEC_CACHE_MS = 5 * 60 * 1000;
+
+// Where documentation sites usually serve their spec, tried when the source URL is not a spec itself
+const DISCOVERY_PATHS = ['openapi.json', 'openapi.yaml', 'swagger.json', 'v3/api-docs', 'v2/api-docs'];
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// Nested object schemas are expanded this many levels deep
+const MAX_SCHEMA_DEPTH = 4;
+
+// Page URLs are the source URL with the operation in this query parameter
+const OPERATION_PARAM = 'operation';
+
+// Words that frame a question about an API without saying which operation is meant
+const QUESTION_WORDS = new Set([
+  'the', 'an', 'to', 'for', 'of', 'in', 'on', 'at', 'by', 'with', 'and', 'or', 'from',
+  'how', 'what', 'which', 'who', 'can', 'do', 'does', 'is', 'are', 'that', 'this', 'my', 'me', 'we', 'you'
+]);
+
+// Verbs a question may use for what each HTTP method does
+const METHOD_VERBS: Record<string, string[]> = {
+  GET: ['get', 'list', 'read', 'fetch', 'find', 'show', 'retrieve', 'search'],
+  POST: ['post', 'create', 'add', 'start', 'submit', 'send'],
+  PUT: ['put', 'update', 'replace', 'set'],
+  PATCH: ['patch', 'update', 'change', 'edit', 'modify'],
+  DELETE: ['delete', 'remove', 'cancel', 'stop']
+};
+
+// A query word found in an operation's summary, operationId or verb counts this many times a word found only in its body
+const TITLE_WEIGHT = 2;
+
+// Leading characters of the rendered operation returned with each search hit
+const SNIPPET_LENGTH = 400;
+
+interface ApiOperation {
+  id: string;                   // operationId, else "METHOD /path"
+  method: string;               // Upper case
+  path: string;
+  operation: any;
+  pathItem: any;
+}
+
+interface ApiSpec {
+  url: string;                  // Where the spec was loaded from
+  document: any;
+  operations: ApiOperation[];
+  searchIndex?: IndexedOperation[]; // Built on the first search
+}
+
+interface IndexedOperation {
+  operation: ApiOperation;
+  titleTerms: Set<string>;      // Stems of the summary, operationId and method verbs
+  bodyTerms: Set<string>;       // Stems of the rendered operation
+  content: string;              // Rendered operation
+}
+
+interface CachedSpec {
+  spec: Promise<ApiSpec>;
+  loaded: number;
+  modified: number;             // mtime of a spec file; 0 for specs fetched over HTTP
+}
+
+interface ApiExample {
+  label?: string;
+  value: unknown;
+}
+
+/**
+ * OpenAPI 3 and Swagger 2 specs in JSON or YAML, from a URL or a file:// path.
+ * Every operation is a page of its own, rendered as Markdown with its parameters,
+ * request and response schemas and examples; the source's own page is an overview by tag.
+ */
+export class OpenApiConnector extends HttpConnector {
+  readonly type = WikiType.OpenAPI;
+  private specs: Map<string, CachedSpec> = new Map(); // Spec URL -> parsed spec
+
+  async fetch(entry: WikiEntry): Promise<string> {
+    const spec = await this.getSpec(entry);
+    const id = new URL(entry.url).searchParams.get(OPERATION_PARAM);
+    if (!id) {
+      return renderOverview(spec);
+    }
+
+    const operation = spec.operations.find(candidate => candidate.id === id);
+    if (!operation) {
+      throw new Error(`${spec.url} has no operation ${id}`);
+    }
+    return renderOperation(spec, operation);
+  }
+
+  async listPages(entry: WikiEntry): Promise<WikiPage[]> {
+    const spec = await this.getSpec(entry);
+    return spec.operations.slice(0, entry.maxPages).map(operation => ({
+      url: this.getOperationUrl(entry, operation),
+      title: operationTitle(operation),
+      breadcrumbs: (operation.operation.tags || []).slice(0, 1)
+    }));
+  }
+
+  /**
+   * Ranks operations by what a question asks for: query words are stemmed, so "creates a deployment"
+   * meets "Create a deployment", and words in an operation's summary, operationId or method verbs
+   * weigh more than words anywhere in its rendered parameters and schemas.
+   */
+  async search(entry: WikiEntry, query: string, limit: number): Promise<ConnectorSearchHit[]> {
+    const spec = await this.getSpec(entry);
+    if (!spec.searchIndex) {
+      spec.searchIndex = spec.operations.map(operation => indexOperation(spec, operation));
+    }
+
+    const keywords = Array.from(new Set(words(query).filter(word => word.length > 1 && !QUESTION_WORDS.has(word)).map(stem)));
+    if (keywords.length === 0) {
+      return [];
+    }
+
+    const hits: ConnectorSearchHit[] = [];
+    for (const indexed of spec.searchIndex) {
+      const inTitle = keywords.filter(keyword => indexed.titleTerms.has(keyword)).length;
+      const inBody = keywords.filter(keyword => indexed.bodyTerms.has(keyword)).length;
+      if (inTitle === 0 && inBody < Math.ceil(keywords.length / 2)) continue;
+
+      hits.push({
+        url: this.getOperationUrl(entry, indexed.operation),
+        title: operationTitle(indexed.operation),
+        content: indexed.content.slice(0, SNIPPET_LENGTH),
+        score: (TITLE_WEIGHT * inTitle + inBody) / keywords.length,
+        breadcrumbs: (indexed.operation.operation.tags || []).slice(0, 1)
+      });
+    }
+
+    // The sort is stable, so ties keep the spec's order
+    return hits.sort((a, b) => (b.score || 0) - (a.score || 0)).slice(0, limit);
+  }
+
+  // Loads the spec past the cache, so a broken or moved spec shows up right away
+  async checkHealth(entry: WikiEntry): Promise<ConnectorHealth> {
+    const started = Date.now();
+    try {
+      await this.loadSpec(entry, this.getSpecUrl(entry));
+      return { healthy: true, latencyMs: Date.now() - started };
+    } catch (error: any) {
+      return { healthy: false, latencyMs: Date.now() - started, message: error.message };
+    }
+  }
+
+  private getOptions(entry: WikiEntry): OpenApiOptions {
+    return entry.options || {};
+  }
+
+  // Page URLs of a source share its spec, so the spec URL is the source URL without the operation
+  private getSpecUrl(entry: WikiEntry): string {
+    const url = new URL(entry.sourceUrl || entry.url);
+    url.searchParams.delete(OPERATION_PARAM);
+    const specUrl = this.getOptions(entry).specUrl;
+    return specUrl ? new URL(specUrl, url).toString() : url.toString();
+  }
+
+  private getOperationUrl(entry: WikiEntry, operation: ApiOperation): string {
+    const url = new URL(entry.sourceUrl || entry.url);
+    url.searchParams.set(OPERATION_PARAM, operation.id);
+    return url.toString();
+  }
+
+  private async getSpec(entry: WikiEntry): Promise<ApiSpec> {
+    const specUrl = this.getSpecUrl(entry);
+    const modified = specUrl.startsWith('file:') ? (await fs.stat(fileURLToPath(specUrl))).mtimeMs : 0;
+    const cached = this.specs.get(specUrl);
+    if (cached && cached.modified === modified && Date.now() - cached.loaded < SPEC_CACHE_MS) {
+      return cached.spec;
+    }
+
+    const spec = this.loadSpec(entry, specUrl);
+    this.specs.set(specUrl, { spec, loaded: Date.now(), modified });
+    spec.catch(() => this.specs.delete(specUrl));
+    return spec;
+  }
+
+  private async loadSpec(entry: WikiEntry, specUrl: string): Promise<ApiSpec> {
+    const document = parseSpec(await this.readText(entry, specUrl));
+    if (document) {
+      return indexSpec(specUrl, document);
+    }
+    if (this.getOptions(entry).specUrl || specUrl.startsWith('file:')) {
+      throw new Error(`${specUrl} is not an OpenAPI or Swagger document`);
+    }
+
+    // A documentation site rather than the spec: look where such sites usually serve it
+    const base = specUrl.endsWith('/') ? specUrl : `${specUrl}/`;
+    for (const candidate of DISCOVERY_PATHS) {
+      const candidateUrl = new URL(candidate, base).toString();
+      const found = parseSpec(await this.readText(entry, candidateUrl).catch(() => ''));
+      if (found) {
+        logger.info(`Found the OpenAPI spec of ${specUrl} at ${candidateUrl}`);
+        return indexSpec(candidateUrl, found);
+      }
+    }
+    throw new Error(`${specUrl} is not an OpenAPI or Swagger document, and none was found at ${DISCOVERY_PATHS.join(', ')}; set options.specUrl`);
+  }
+
+  private async readText(entry: WikiEntry, url: string): Promise<string> {
+    if (url.startsWith('file:')) {
+      return fs.readFile(fileURLToPath(url), 'utf8');
+    }
+
+    const config = await this.createRequestConfig(entry);
+    const response = await axios.get(url, { ...config, responseType: 'text', transformResponse: [(data: any) => data] });
+    return String(response.data);
+  }
+}
+
+// The spec as an object, or undefined when the text is not an OpenAPI 3 or Swagger 2 document
+function parseSpec(text: string): any | undefined {
+  try {
+    const trimmed = text.trim();
+    const document = trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYaml(trimmed);
+    const isSpec = document && typeof document === 'object'
+      && (String(document.openapi || '').startsWith('3') || String(document.swagger || '') === '2.0');
+    return isSpec ? document : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function indexSpec(url: string, document: any): ApiSpec {
+  const operations: ApiOperation[] = [];
+  const ids = new Set<string>();
+
+  for (const [apiPath, rawItem] of Object.entries<any>(document.paths || {})) {
+    const pathItem = resolveRef(document, rawItem) || {};
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+
+      // operationIds should be unique, but not every spec is valid
+      const fallback = `${method.toUpperCase()} ${apiPath}`;
+      const id = operation.operationId && !ids.has(operation.operationId) ? operation.operationId : fallback;
+      ids.add(id);
+      operations.push({ id, method: method.toUpperCase(), path: apiPath, operation, pathItem });
+    }
+  }
+
+  logger.debug(`Indexed ${operations.length} operations from ${url}`);
+  return { url, document, operations };
+}
+
+// Follow local $refs (#/components/..., #/definitions/...); external refs are left as they are
+function resolveRef(document: any, value: any): any {
+  let current = value;
+  for (let hops = 0; hops < 20 && typeof current?.$ref === 'string' && current.$ref.startsWith('#/'); hops++) {
+    const target = current.$ref.slice(2).split('/')
+      .map((segment: string) => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce((node: any, key: string) => node?.[key], document);
+    if (target === undefined) break;
+    current = target;
+  }
+  return current;
+}
+
+// Name of a referenced schema, such as Deployment for #/components/schemas/Deployment
+function refName(schema: any): string | undefined {
+  return typeof schema?.$ref === 'string' ? schema.$ref.split('/').pop() : undefined;
+}
+
+// Fold allOf parts into one object schema
+function mergeAllOf(document: any, schema: any): any {
+  if (!schema?.allOf) return schema;
+
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+  for (const part of [...schema.allOf, { properties: schema.properties, required: schema.required }]) {
+    const merged = mergeAllOf(document, resolveRef(document, part)) || {};
+    Object.assign(properties, merged.properties);
+    required.push(...(merged.required || []));
+  }
+  return { ...schema, allOf: undefined, type: schema.type || 'object', properties, required };
+}
+
+function schemaType(document: any, schema: any): string {
+  const name = refName(schema);
+  const resolved = mergeAllOf(document, resolveRef(document, schema));
+  if (!resolved || typeof resolved !== 'object') return name || 'any';
+
+  const variants = resolved.oneOf || resolved.anyOf;
+  if (variants) return name || `one of ${variants.map((variant: any) => schemaType(document, variant)).join(' | ')}`;
+  if (resolved.type === 'array' || resolved.items) return `array of ${schemaType(document, resolved.items)}`;
+  if (name) return name;
+
+  const type = Array.isArray(resolved.type) ? resolved.type.join(' | ') : resolved.type || (resolved.properties ? 'object' : 'any');
+  return resolved.format ? `${type} (${resolved.format})` : type;
+}
+
+function describeField(document: any, name: string, schema: any, details: string[], description?: string): string {
+  const resolved = resolveRef(document, schema) || {};
+  const parts = [...details, schemaType(document, schema)];
+  if (resolved.enum) parts.push(`values: ${resolved.enum.join(', ')}`);
+  if (resolved.default !== undefined) parts.push(`default ${JSON.stringify(resolved.default)}`);
+  if (resolved.deprecated) parts.push('deprecated');
+
+  const text = oneLine(description || resolved.description || schema?.description);
+  return `\`${name}\` (${parts.join(', ')})${text ? `: ${text}` : ''}`;
+}
+
+// Properties of an object schema, or of an array's items, as a nested list
+function schemaFields(document: any, schema: any, depth: number = 0, seen: Set<string> = new Set()): string[] {
+  const name = refName(schema);
+  if (!schema || depth >= MAX_SCHEMA_DEPTH || (name && seen.has(name))) return [];
+
+  const within = name ? new Set([...seen, name]) : seen;
+  const resolved = mergeAllOf(document, resolveRef(document, schema));
+  if (!resolved || typeof resolved !== 'object') return [];
+  if (resolved.type === 'array' || resolved.items) return schemaFields(document, resolved.items, depth, within);
+
+  const required = new Set<string>(resolved.required || []);
+  const lines: string[] = [];
+  for (const [property, propertySchema] of Object.entries<any>(resolved.properties || {})) {
+    const details = required.has(property) ? ['required'] : [];
+    lines.push(`${'  '.repeat(depth)}- ${describeField(document, property, propertySchema, details)}`);
+    lines.push(...schemaFields(document, propertySchema, depth + 1, within));
+  }
+  return lines;
+}
+
+function schemaExamples(document: any, schema: any): ApiExample[] {
+  const resolved = mergeAllOf(document, resolveRef(document, schema));
+  if (resolved?.example !== undefined) return [{ value: resolved.example }];
+  if (Array.isArray(resolved?.examples) && resolved.examples.length > 0) return [{ value: resolved.examples[0] }];
+  return [];
+}
+
+// Examples of a media type object: example, named examples, else the schema's own example
+function mediaExamples(document: any, media: any): ApiExample[] {
+  if (media.example !== undefined) return [{ value: media.example }];
+  if (media.examples && typeof media.examples === 'object') {
+    return Object.entries<any>(media.examples).map(([key, raw]) => {
+      const example = resolveRef(document, raw) || {};
+      return { label: example.summary || key, value: example.value ?? example.externalValue };
+    });
+  }
+  return schemaExamples(document, media.schema);
+}
+
+function mediaLines(document: any, content: Record<string, any> | undefined): string[] {
+  const lines: string[] = [];
+  for (const [mediaType, raw] of Object.entries<any>(content || {})) {
+    const media = resolveRef(document, raw) || {};
+    lines.push('', `\`${mediaType}\`${media.schema ? `: ${schemaType(document, media.schema)}` : ''}`);
+
+    const fields = schemaFields(document, media.schema);
+    if (fields.length > 0) lines.push('', ...fields);
+    for (const example of mediaExamples(document, media)) {
+      lines.push('', example.label ? `Example (${example.label}):` : 'Example:', '', fence(example.value));
+    }
+  }
+  return lines;
+}
+
+function fence(value: unknown): string {
+  return typeof value === 'string' ? `\`\`\`\n${value}\n\`\`\`` : `\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``;
+}
+
+function oneLine(text: unknown): string {
+  return typeof text === 'string' ? text.replace(/\s+/g, ' ').trim() : '';
+}
+
+// Swagger 2 lists what operations consume and produce; JSON is preferred when there is a choice
+function preferredMediaType(types: string[] | undefined): string {
+  return types?.find(type => type.includes('json')) || types?.[0] || 'application/json';
+}
+
+// Parameters of the path item overridden by the operation's own, keyed by location and name
+function operationParameters(document: any, operation: ApiOperation): any[] {
+  const parameters = new Map<string, any>();
+  for (const raw of [...(operation.pathItem.parameters || []), ...(operation.operation.parameters || [])]) {
+    const parameter = resolveRef(document, raw);
+    if (parameter?.name) parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+  }
+  return Array.from(parameters.values());
+}
+
+// Request body as media types; Swagger 2 body and formData parameters are mapped onto the OpenAPI 3 shape
+function requestBody(document: any, operation: ApiOperation): { content?: Record<string, any>; required?: boolean; description?: string } | undefined {
+  if (operation.operation.requestBody) {
+    return resolveRef(document, operation.operation.requestBody);
+  }
+
+  const parameters = operationParameters(document, operation);
+  const consumes = operation.operation.consumes || document.consumes;
+  const body = parameters.find(parameter => parameter.in === 'body');
+  if (body) {
+    const examples = body['x-examples'] ? { example: Object.values(body['x-examples'])[0] } : {};
+    return { content: { [preferredMediaType(consumes)]: { schema: body.schema, ...examples } }, required: body.required, description: body.description };
+  }
+
+  const form = parameters.filter(parameter => parameter.in === 'formData');
+  if (form.length > 0) {
+    const properties = Object.fromEntries(form.map(parameter => [parameter.name, parameter]));
+    const required = form.filter(parameter => parameter.required).map(parameter => parameter.name);
+    const mediaType = consumes?.find((type: string) => type.includes('form')) || 'application/x-www-form-urlencoded';
+    return { content: { [mediaType]: { schema: { type: 'object', properties, required } } } };
+  }
+  return undefined;
+}
+
+function responseContent(document: any, operation: ApiOperation, response: any): Record<string, any> | undefined {
+  if (response.content || !response.schema && !response.examples) {
+    return response.content;
+  }
+
+  const mediaType = preferredMediaType(operation.operation.produces || document.produces);
+  const example = response.examples?.[mediaType] ?? (response.examples ? Object.values(response.examples)[0] : undefined);
+  return { [mediaType]: { schema: response.schema, ...(example !== undefined ? { example } : {}) } };
+}
+
+// Base URL from the first of OpenAPI 3 servers, with their variables' defaults, or from Swagger 2 host and basePath
+function serverUrl(spec: ApiSpec, servers: any[] | undefined): string {
+  const { document } = spec;
+  if (document.swagger) {
+    const scheme = (document.schemes || ['https'])[0];
+    return document.host ? `${scheme}://${document.host}${document.basePath || ''}` : document.basePath || '';
+  }
+
+  const server = (servers || [])[0];
+  if (!server?.url) return '';
+  const url = String(server.url).replace(/\{([^}]+)\}/g, (match, name) => server.variables?.[name]?.default ?? match);
+  return /^https?:/.test(spec.url) && !/^[a-z]+:/i.test(url) ? new URL(url, spec.url).toString() : url;
+}
+
+// Alternative requirements are joined with "or", schemes needed together with "and"
+function securityText(document: any, operation: ApiOperation): string | undefined {
+  const requirements: any[] | undefined = operation.operation.security ?? document.security;
+  if (!requirements) return undefined;
+  if (requirements.length === 0) return 'none';
+
+  return requirements.map(requirement => {
+    const schemes = Object.entries<string[]>(requirement || {});
+    if (schemes.length === 0) return 'none';
+    return schemes.map(([name, scopes]) => (scopes && scopes.length > 0 ? `${name} (${scopes.join(', ')})` : name)).join(' and ');
+  }).join(' or ');
+}
+
+function indexOperation(spec: ApiSpec, operation: ApiOperation): IndexedOperation {
+  const content = renderOperation(spec, operation);
+  const title = [
+    operation.operation.summary || '',
+    operation.operation.operationId || '',
+    operation.method.toLowerCase(),
+    ...(METHOD_VERBS[operation.method] || [])
+  ].join(' ');
+  return {
+    operation,
+    titleTerms: new Set(words(title).map(stem)),
+    bodyTerms: new Set(words(content).map(stem)),
+    content
+  };
+}
+
+// Lower-case words, with camelCase identifiers such as createDeployment split apart
+function words(text: string): string[] {
+  return text.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+// Crude stem, enough for "creates", "created" and "create" to meet, and "deployments" and "deployment"
+function stem(word: string): string {
+  const stripped = word.replace(/(ments?|ing|ed|es|(?<!s)s)$/, '');
+  return (stripped.length > 2 ? stripped : word).replace(/e$/, '');
+}
+
+function operationTitle(operation: ApiOperation): string {
+  const summary = oneLine(operation.operation.summary);
+  return summary ? `${operation.method} ${operation.path}: ${summary}` : `${operation.method} ${operation.path}`;
+}
+
+function renderOperation(spec: ApiSpec, operation: ApiOperation): string {
+  const { document } = spec;
+  const details = operation.operation;
+  const lines = [`# ${operation.method} ${operation.path}`];
+  if (details.summary) lines.push('', oneLine(details.summary));
+
+  const facts: string[] = [];
+  if (details.operationId) facts.push(`- Operation ID: \`${details.operationId}\``);
+  const server = serverUrl(spec, details.servers || operation.pathItem.servers || document.servers);
+  if (server) facts.push(`- Endpoint: \`${operation.method} ${server.replace(/\/+$/, '')}${operation.path}\``);
+  if (details.tags?.length) facts.push(`- Tags: ${details.tags.join(', ')}`);
+  const security = securityText(document, operation);
+  if (security) facts.push(`- Authentication: ${security}`);
+  if (details.deprecated) facts.push('- Deprecated');
+  if (facts.length > 0) lines.push('', ...facts);
+  if (details.description) lines.push('', String(details.description).trim());
+
+  const parameters = operationParameters(document, operation).filter(parameter => parameter.in !== 'body' && parameter.in !== 'formData');
+  if (parameters.length > 0) {
+    lines.push('', '## Parameters', '');
+    for (const parameter of parameters) {
+      const fieldDetails = [parameter.in, ...(parameter.required ? ['required'] : [])];
+      const example = parameter.example ?? parameter['x-example'] ?? parameter.schema?.example;
+      if (example !== undefined) fieldDetails.push(`example ${JSON.stringify(example)}`);
+      // Swagger 2 gives non-body parameters their type inline rather than as a schema
+      lines.push(`- ${describeField(document, parameter.name, parameter.schema || parameter, fieldDetails, parameter.description)}`);
+    }
+  }
+
+  const body = requestBody(document, operation);
+  if (body) {
+    lines.push('', '## Request body');
+    const note = [body.required ? 'Required.' : '', oneLine(body.description)].filter(Boolean).join(' ');
+    if (note) lines.push('', note);
+    lines.push(...mediaLines(document, body.content));
+  }
+
+  const responses = Object.entries<any>(details.responses || {});
+  if (responses.length > 0) {
+    lines.push('', '## Responses');
+    for (const [status, raw] of responses) {
+      const response = resolveRef(document, raw) || {};
+      lines.push('', `### ${status}${response.description ? `: ${oneLine(response.description)}` : ''}`);
+      lines.push(...mediaLines(document, responseContent(document, operation, response)));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// The source's own page: the API's description and its operations grouped by tag
+function renderOverview(spec: ApiSpec): string {
+  const { document } = spec;
+  const info = document.info || {};
+  const lines = [`# ${info.title || 'API'}${info.version ? ` (${info.version})` : ''}`];
+  if (info.description) lines.push('', String(info.description).trim());
+
+  const servers = document.swagger
+    ? [serverUrl(spec, undefined)].filter(Boolean)
+    : (document.servers || []).map((server: any) => serverUrl(spec, [server]));
+  if (servers.length > 0) lines.push('', `Servers: ${servers.join(', ')}`);
+
+  const groups = new Map<string, ApiOperation[]>();
+  for (const tag of document.tags || []) groups.set(tag.name, []);
+  for (const operation of spec.operations) {
+    const tag = operation.operation.tags?.[0] || 'Other operations';
+    groups.set(tag, [...(groups.get(tag) || []), operation]);
+  }
+
+  for (const [tag, operations] of groups) {
+    if (operations.length === 0) continue;
+    const description = oneLine((document.tags || []).find((candidate: any) => candidate.name === tag)?.description);
+    lines.push('', `## ${tag}`, ...(description ? ['', description] : []), '');
+    for (const operation of operations) {
+      const summary = oneLine(operation.operation.summary);
+      lines.push(`- \`${operation.method} ${operation.path}\`${summary ? `: ${summary}` : ''}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,310 @@
+import axios, { AxiosResponse } from 'axios';
+import * as path from 'path';
+import { ConnectorHealth, ConnectorSearchHit, WikiEntry, WikiPage } from '../types';
+import { DOC_MIME_TYPES, LocalDocument, documentTitle, parseFrontMatter, searchDocuments } from '../localDocs';
+import { HttpConnector } from './httpConnector';
+import { Logger } from '../../utils/logger';
+import { requestContext } from '../../requestContext';
+
+const logger = new Logger('RepositoryConnector');
+
+/**
+ * Source object options for GitHub and GitLab repositories
+ */
+export interface RepositoryOptions {
+  apiUrl?: string;              // REST API root, for GitHub Enterprise or self-hosted GitLab
+  ref?: string;                 // Branch, tag or commit; taken from /tree/{ref} URLs, else the default branch
+  path?: string;                // Directory to index; taken from /tree/{ref}/{path} URLs, else the whole repository
+}
+
+// Where a source or page URL points inside a repository
+export interface RepositoryLocation {
+  repo: string;                 // owner/name on GitHub, the full project path on GitLab
+  ref?: string;                 // Undefined for the default branch
+  path: string;                 // No leading or trailing slash; '' for the repository root
+  isFile: boolean;              // A blob URL rather than a directory
+}
+
+export interface RepositoryFile {
+  path: string;
+  sha: string;                  // Blob id, so unchanged files are not read again
+}
+
+interface RepositoryIndex {
+  ref: string;
+  files: RepositoryFile[];      // Documents from the latest listing
+  reading?: Promise<void>;      // Set while their blobs are being read
+}
+
+// Requests wait this long at most for an exhausted rate limit to reset; longer waits fail instead
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+// Enumeration stops here unless the source sets maxPages
+const DEFAULT_MAX_PAGES = 10000;
+
+// Blobs read at a time behind a listing
+const READ_CONCURRENCY = 4;
+
+/**
+ * Documentation files in a git repository, read through the host's REST API.
+ * Subclasses map URLs to repository locations and call the host's tree and file endpoints;
+ * this class handles listing, search and rate limits. Each listing reads the blobs it has not
+ * seen in the background, so searching matches file contents without requests per query.
+ */
+export abstract class RepositoryConnector extends HttpConnector {
+  protected abstract readonly hostName: string;
+  private rateLimitResets: Map<string, number> = new Map(); // API root -> when its exhausted limit resets
+  private defaultRefs: Map<string, string> = new Map();     // API root and repository -> default branch
+  private indexes: Map<string, RepositoryIndex> = new Map(); // Listed location -> its documents
+  private blobs: Map<string, string> = new Map();           // Blob id -> decoded text
+
+  protected abstract getApiUrl(entry: WikiEntry): string;
+  protected abstract parseLocation(entry: WikiEntry): RepositoryLocation;
+  protected abstract fetchDefaultRef(entry: WikiEntry, repo: string): Promise<string>;
+  protected abstract listFiles(entry: WikiEntry, repo: string, ref: string, prefix: string): Promise<RepositoryFile[]>;
+  protected abstract readFile(entry: WikiEntry, repo: string, ref: string, filePath: string): Promise<string>;
+  protected abstract readBlob(entry: WikiEntry, repo: string, sha: string): Promise<string>;
+  protected abstract getBlobUrl(entry: WikiEntry, repo: string, ref: string, filePath: string): string;
+
+  async fetch(entry: WikiEntry): Promise<string> {
+    const location = this.parseLocation(entry);
+    const ref = location.ref || await this.getDefaultRef(entry, location.repo);
+    if (location.isFile) {
+      return this.readFile(entry, location.repo, ref, location.path);
+    }
+
+    // A directory reads as its README, or as a list of its documents
+    const files = await this.listDocuments(entry, location, ref);
+    const readme = files.find(file => /^readme\.[a-z]+$/i.test(this.below(location.path, file.path)));
+    if (readme) {
+      return this.readFile(entry, location.repo, ref, readme.path);
+    }
+    const lines = files.map(file => `- ${file.path}`);
+    return `# ${location.repo}${location.path ? `/${location.path}` : ''}\n\n${lines.join('\n')}`;
+  }
+
+  async listPages(entry: WikiEntry): Promise<WikiPage[]> {
+    const location = this.parseLocation(entry);
+    const ref = location.ref || await this.getDefaultRef(entry, location.repo);
+    const files = (await this.listDocuments(entry, location, ref)).slice(0, entry.maxPages ?? DEFAULT_MAX_PAGES);
+    this.readInBackground(entry, location, ref, files);
+
+    return files.map(file => ({
+      url: this.getBlobUrl(entry, location.repo, ref, file.path),
+      title: path.posix.basename(file.path, path.posix.extname(file.path)),
+      breadcrumbs: this.below(location.path, file.path).split('/').slice(0, -1)
+    }));
+  }
+
+  // Keyword search over the documents of the last listing and the blobs read behind it; before a listing, the source searches
+  async search(entry: WikiEntry, query: string, limit: number): Promise<ConnectorSearchHit[] | null> {
+    const location = this.parseLocation(entry);
+    const index = this.indexes.get(this.indexKey(entry, location));
+    if (!index) {
+      return null;
+    }
+
+    const documents: LocalDocument[] = index.files.map(file => {
+      const { metadata, body } = parseFrontMatter(this.blobs.get(file.sha) || '');
+      return {
+        path: this.getBlobUrl(entry, location.repo, index.ref, file.path),
+        relativePath: this.below(location.path, file.path),
+        title: typeof metadata.title === 'string' ? metadata.title : documentTitle(body, file.path),
+        content: body,
+        metadata,
+        mimeType: DOC_MIME_TYPES[path.posix.extname(file.path).toLowerCase()],
+        modified: 0
+      };
+    });
+
+    return searchDocuments(documents, query, limit).map(match => ({
+      url: match.document.path,
+      title: match.document.title,
+      content: match.snippet,
+      score: match.score,
+      breadcrumbs: match.document.relativePath.split('/').slice(0, -1)
+    }));
+  }
+
+  async checkHealth(entry: WikiEntry): Promise<ConnectorHealth> {
+    const started = Date.now();
+    try {
+      await this.fetchDefaultRef(entry, this.parseLocation(entry).repo);
+      return { healthy: true, latencyMs: Date.now() - started };
+    } catch (error: any) {
+      return { healthy: false, latencyMs: Date.now() - started, message: error.message };
+    }
+  }
+
+  protected getOptions(entry: WikiEntry): RepositoryOptions {
+    return entry.options || {};
+  }
+
+  /**
+   * GET from the host's API, honouring its rate limit headers: once the limit is exhausted,
+   * requests wait for the reset when it is near and fail with the reset time when it is not.
+   */
+  protected async apiGet(entry: WikiEntry, url: string, asText: boolean = false): Promise<AxiosResponse> {
+    const apiUrl = this.getApiUrl(entry);
+    await this.waitForRateLimit(apiUrl);
+
+    for (let attempt = 0; ; attempt++) {
+      const config = await this.createRequestConfig(entry);
+      if (asText) {
+        config.responseType = 'text';
+        config.transformResponse = [(data: any) => data];
+      }
+
+      try {
+        const response = await axios.get(url, config);
+        this.recordRateLimit(apiUrl, response);
+        return response;
+      } catch (error: any) {
+        const response: AxiosResponse | undefined = error.response;
+        if (response) this.recordRateLimit(apiUrl, response);
+
+        const wait = response ? this.getRateLimitWait(response) : undefined;
+        if (wait !== undefined) {
+          if (attempt === 0 && wait <= MAX_RATE_LIMIT_WAIT_MS) {
+            logger.warning(`${this.hostName} rate limit reached; retrying in ${Math.ceil(wait / 1000)}s`);
+            await this.sleep(wait);
+            continue;
+          }
+          throw new Error(`${this.hostName} API rate limit exceeded until ${new Date(Date.now() + wait).toISOString()}`);
+        }
+
+        const status = response?.status;
+        if (status === 401 || status === 403) {
+          throw new Error(`${this.hostName} rejected the credentials for ${entry.url} (HTTP ${status})`);
+        }
+        if (status === 404) {
+          throw new Error(`${this.hostName} has nothing at ${url}; check the repository, ref and path, and that the token can read them`);
+        }
+        throw new Error(`${this.hostName} request failed: ${response?.data?.message || error.message}`);
+      }
+    }
+  }
+
+  // URL-encode each segment of a repository path
+  protected encodePath(filePath: string): string {
+    return filePath.split('/').map(encodeURIComponent).join('/');
+  }
+
+  private async getDefaultRef(entry: WikiEntry, repo: string): Promise<string> {
+    const key = `${this.getApiUrl(entry)}|${repo}`;
+    let ref = this.defaultRefs.get(key);
+    if (!ref) {
+      ref = await this.fetchDefaultRef(entry, repo);
+      this.defaultRefs.set(key, ref);
+    }
+    return ref;
+  }
+
+  private async listDocuments(entry: WikiEntry, location: RepositoryLocation, ref: string): Promise<RepositoryFile[]> {
+    const files = await this.listFiles(entry, location.repo, ref, location.path);
+    return files
+      .filter(file => !location.path || file.path.startsWith(`${location.path}/`))
+      .filter(file => DOC_MIME_TYPES[path.posix.extname(file.path).toLowerCase()])
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  private indexKey(entry: WikiEntry, location: RepositoryLocation): string {
+    return `${this.getApiUrl(entry)}|${location.repo}|${location.ref ?? ''}|${location.path}`;
+  }
+
+  // Reads the blobs of a listing that are not cached yet, a few at a time; a read already under way is left alone
+  private readInBackground(entry: WikiEntry, location: RepositoryLocation, ref: string, files: RepositoryFile[]): void {
+    const key = this.indexKey(entry, location);
+    const index: RepositoryIndex = this.indexes.get(key) || { ref, files };
+    index.ref = ref;
+    index.files = files;
+    this.indexes.set(key, index);
+
+    // Blobs no listing refers to any more belong to files that changed or were removed
+    const listed = new Set(Array.from(this.indexes.values()).flatMap(indexed => indexed.files.map(file => file.sha)));
+    for (const sha of this.blobs.keys()) {
+      if (!listed.has(sha)) this.blobs.delete(sha);
+    }
+    if (index.reading) return;
+
+    // Outside the request that listed the files, so its deadline does not abort the reads
+    index.reading = requestContext.exit(() => this.readBlobs(entry, location.repo, index))
+      .catch(error => logger.warning(`Reading ${location.repo} for search failed: ${error.message}`))
+      .finally(() => { index.reading = undefined; });
+  }
+
+  private async readBlobs(entry: WikiEntry, repo: string, index: RepositoryIndex): Promise<void> {
+    const unread = index.files.filter(file => !this.blobs.has(file.sha));
+    for (let i = 0; i < unread.length; i += READ_CONCURRENCY) {
+      await Promise.all(unread.slice(i, i + READ_CONCURRENCY).map(async file => {
+        try {
+          this.blobs.set(file.sha, await this.readBlob(entry, repo, file.sha));
+        } catch (error: any) {
+          logger.debug(`Could not read ${file.path} for search: ${error.message}`);
+        }
+      }));
+    }
+  }
+
+  // File path relative to the indexed directory
+  private below(prefix: string, filePath: string): string {
+    return prefix ? filePath.slice(prefix.length + 1) : filePath;
+  }
+
+  private async waitForRateLimit(apiUrl: string): Promise<void> {
+    const wait = (this.rateLimitResets.get(apiUrl) || 0) - Date.now();
+    if (wait <= 0) return;
+    if (wait > MAX_RATE_LIMIT_WAIT_MS) {
+      throw new Error(`${this.hostName} API rate limit exceeded until ${new Date(Date.now() + wait).toISOString()}`);
+    }
+    logger.info(`Waiting ${Math.ceil(wait / 1000)}s for the ${this.hostName} rate limit to reset`);
+    await this.sleep(wait);
+  }
+
+  // Rate limit waits end early when the MCP request they hold up is cancelled or passes its deadline
+  private sleep(ms: number): Promise<void> {
+    const signal = requestContext.getStore()?.signal;
+    return new Promise((resolve, reject) => {
+      const aborted = () => new Error(`Stopped waiting for the ${this.hostName} rate limit: the request was aborted`);
+      if (signal?.aborted) {
+        reject(aborted());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(aborted());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  // GitHub sends x-ratelimit-*, GitLab ratelimit-*; both give the reset as epoch seconds
+  private recordRateLimit(apiUrl: string, response: AxiosResponse): void {
+    const headers = response.headers || {};
+    const remaining = headers['x-ratelimit-remaining'] ?? headers['ratelimit-remaining'];
+    const reset = Number(headers['x-ratelimit-reset'] ?? headers['ratelimit-reset']);
+    if (remaining === '0' && reset > 0) {
+      this.rateLimitResets.set(apiUrl, reset * 1000);
+    } else if (remaining !== undefined) {
+      this.rateLimitResets.delete(apiUrl);
+    }
+  }
+
+  // Milliseconds until a rate-limited request may be retried; undefined when the failure is not a rate limit
+  private getRateLimitWait(response: AxiosResponse): number | undefined {
+    const headers = response.headers || {};
+    const remaining = headers['x-ratelimit-remaining'] ?? headers['ratelimit-remaining'];
+    const limited = response.status === 429 || (response.status === 403 && (remaining === '0' || headers['retry-after'] !== undefined));
+    if (!limited) return undefined;
+
+    if (headers['retry-after'] !== undefined) {
+      return Math.max(0, Number(headers['retry-after']) * 1000);
+    }
+    const reset = Number(headers['x-ratelimit-reset'] ?? headers['ratelimit-reset']);
+    return reset > 0 ? Math.max(0, reset * 1000 - Date.now()) : MAX_RATE_LIMIT_WAIT_MS;
+  }
+}
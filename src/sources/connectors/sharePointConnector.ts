@@ -0,0 +1,248 @@
+import axios from 'axios';
+import { ConnectorHealth, WikiEntry, WikiPage, WikiType } from '../types';
+import { HttpConnector } from './httpConnector';
+import { clientCredentialsTokens } from './clientCredentials';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('SharePointConnector');
+
+/**
+ * Source object options for SharePoint sources
+ */
+export interface SharePointOptions {
+  graphUrl?: string;            // Graph API root (default https://graph.microsoft.com/v1.0)
+  libraries?: string[];         // Document library names to list; every library when omitted
+  pages?: boolean;              // List site pages (default true)
+  documents?: boolean;          // List files in document libraries (default true)
+}
+
+const DEFAULT_GRAPH_URL = 'https://graph.microsoft.com/v1.0';
+
+// Enumeration stops here unless the source sets maxPages
+const DEFAULT_MAX_PAGES = 10000;
+
+// Files whose content is read as text; other documents are described by their metadata
+const TEXT_EXTENSIONS = ['.md', '.markdown', '.txt', '.html', '.htm', '.csv', '.json', '.yaml', '.yml'];
+
+interface GraphSite {
+  id: string;
+  displayName: string;
+  description?: string;
+  webUrl: string;
+}
+
+/**
+ * SharePoint Online through Microsoft Graph: site pages are read as web parts and
+ * document libraries are walked for files. Use oauth auth with an app registration
+ * (client credentials); the token is cached and renewed before it expires.
+ */
+export class SharePointConnector extends HttpConnector {
+  readonly type = WikiType.SharePoint;
+  private sites: Map<string, GraphSite> = new Map(); // Graph URL and site path -> site
+
+  async fetch(entry: WikiEntry): Promise<string> {
+    const site = await this.getSite(entry);
+    const url = new URL(entry.url);
+
+    const pageName = url.pathname.match(/\/SitePages\/([^/]+\.aspx)$/i)?.[1];
+    if (pageName) {
+      return this.fetchSitePage(entry, site, decodeURIComponent(pageName));
+    }
+    if (url.pathname.replace(/\/+$/, '') === this.getSitePath(url)) {
+      return this.describeSite(entry, site);
+    }
+    return this.fetchDocument(entry);
+  }
+
+  async listPages(entry: WikiEntry): Promise<WikiPage[]> {
+    const options = this.getOptions(entry);
+    const maxPages = entry.maxPages ?? DEFAULT_MAX_PAGES;
+    const site = await this.getSite(entry);
+    const pages: WikiPage[] = [];
+
+    if (options.pages !== false) {
+      for await (const page of this.collect(entry, `/sites/${site.id}/pages/microsoft.graph.sitePage?$select=id,name,title,webUrl`)) {
+        if (pages.length >= maxPages) return pages;
+        // Graph may return a page's webUrl relative to the site, but page URLs must be absolute
+        const url = new URL(page.webUrl, site.webUrl.replace(/\/?$/, '/')).toString();
+        pages.push({ url, title: page.title || page.name, breadcrumbs: [site.displayName, 'Site Pages'] });
+      }
+    }
+
+    if (options.documents !== false) {
+      for await (const drive of this.collect(entry, `/sites/${site.id}/drives?$select=id,name,webUrl`)) {
+        if (options.libraries && !options.libraries.includes(drive.name)) continue;
+
+        // Breadth-first walk of the library's folders
+        const folders: Array<{ path: string; trail: string[] }> = [
+          { path: `/drives/${drive.id}/root/children`, trail: [site.displayName, drive.name] }
+        ];
+        while (folders.length > 0) {
+          const folder = folders.shift()!;
+          for await (const item of this.collect(entry, `${folder.path}?$select=id,name,webUrl,folder,file`)) {
+            if (item.folder) {
+              folders.push({ path: `/drives/${drive.id}/items/${item.id}/children`, trail: [...folder.trail, item.name] });
+            } else if (item.file) {
+              if (pages.length >= maxPages) return pages;
+              pages.push({ url: item.webUrl, title: item.name, breadcrumbs: folder.trail });
+            }
+          }
+        }
+      }
+    }
+
+    return pages;
+  }
+
+  async checkHealth(entry: WikiEntry): Promise<ConnectorHealth> {
+    const started = Date.now();
+    try {
+      this.sites.delete(this.getSiteKey(entry));
+      await this.getSite(entry);
+      return { healthy: true, latencyMs: Date.now() - started };
+    } catch (error: any) {
+      return { healthy: false, latencyMs: Date.now() - started, message: error.message };
+    }
+  }
+
+  private getOptions(entry: WikiEntry): SharePointOptions {
+    return entry.options || {};
+  }
+
+  private getGraphUrl(entry: WikiEntry): string {
+    return (this.getOptions(entry).graphUrl || DEFAULT_GRAPH_URL).replace(/\/+$/, '');
+  }
+
+  // /sites/{name} or /teams/{name}; empty for the tenant's root site
+  private getSitePath(url: URL): string {
+    return url.pathname.match(/^\/(?:sites|teams)\/[^/]+/i)?.[0] || '';
+  }
+
+  private getSiteKey(entry: WikiEntry): string {
+    const url = new URL(entry.url);
+    return `${this.getGraphUrl(entry)}|${url.hostname}${this.getSitePath(url)}`;
+  }
+
+  private async getSite(entry: WikiEntry): Promise<GraphSite> {
+    const key = this.getSiteKey(entry);
+    const cached = this.sites.get(key);
+    if (cached) return cached;
+
+    const url = new URL(entry.url);
+    const sitePath = this.getSitePath(url);
+    const site: GraphSite = await this.graphGet(entry, sitePath
+      ? `/sites/${url.hostname}:${sitePath}`
+      : `/sites/${url.hostname}`);
+    this.sites.set(key, site);
+    return site;
+  }
+
+  private async describeSite(entry: WikiEntry, site: GraphSite): Promise<string> {
+    const titles: string[] = [];
+    if (this.getOptions(entry).pages !== false) {
+      for await (const page of this.collect(entry, `/sites/${site.id}/pages/microsoft.graph.sitePage?$select=title,name`)) {
+        titles.push(`- ${page.title || page.name}`);
+      }
+    }
+    return [`# ${site.displayName}`, site.description || '', titles.length > 0 ? `## Pages\n${titles.join('\n')}` : '']
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  private async fetchSitePage(entry: WikiEntry, site: GraphSite, name: string): Promise<string> {
+    const filter = encodeURIComponent(`name eq '${name.replace(/'/g, "''")}'`);
+    const matches = await this.graphGet(entry, `/sites/${site.id}/pages/microsoft.graph.sitePage?$filter=${filter}&$select=id`);
+    const id = matches.value?.[0]?.id;
+    if (!id) {
+      throw new Error(`No SharePoint page named ${name} in ${site.displayName}`);
+    }
+
+    const page = await this.graphGet(entry, `/sites/${site.id}/pages/${id}/microsoft.graph.sitePage?$expand=canvasLayout`);
+    const parts = this.getWebParts(page.canvasLayout).map(part => this.webPartToText(part)).filter(Boolean);
+    return [`# ${page.title || name}`, page.description || '', ...parts].filter(Boolean).join('\n\n');
+  }
+
+  // Any file in the site, resolved from its web URL through the shares endpoint
+  private async fetchDocument(entry: WikiEntry): Promise<string> {
+    const shareId = 'u!' + Buffer.from(entry.url).toString('base64url');
+    const item = await this.graphGet(entry, `/shares/${shareId}/driveItem`);
+    const name: string = item.name || '';
+    const extension = name.includes('.') ? name.slice(name.lastIndexOf('.')).toLowerCase() : '';
+
+    if (!TEXT_EXTENSIONS.includes(extension)) {
+      return [
+        `# ${name}`,
+        `Type: ${item.file?.mimeType || 'unknown'}`,
+        `Size: ${item.size ?? 'unknown'} bytes`,
+        `Modified: ${item.lastModifiedDateTime || 'unknown'}`,
+        'The content of this file type is not extracted; open it in SharePoint.'
+      ].join('\n');
+    }
+
+    const text = await this.graphGet(entry, `/drives/${item.parentReference.driveId}/items/${item.id}/content`, true);
+    return extension === '.html' || extension === '.htm' ? this.extractContentFromHtml(text) : text;
+  }
+
+  private getWebParts(canvasLayout: any): any[] {
+    if (!canvasLayout) return [];
+    const horizontal = (canvasLayout.horizontalSections || [])
+      .flatMap((section: any) => section.columns || [])
+      .flatMap((column: any) => column.webparts || []);
+    return [...horizontal, ...(canvasLayout.verticalSection?.webparts || [])];
+  }
+
+  // Text web parts carry HTML; standard web parts expose their text as searchablePlainTexts
+  private webPartToText(part: any): string {
+    if (part.innerHtml) {
+      return this.extractContentFromHtml(part.innerHtml);
+    }
+    const data = part.data || {};
+    const texts = (data.serverProcessedContent?.searchablePlainTexts || []).map((text: any) => text.value);
+    return [data.title, data.description, ...texts].filter(Boolean).join('\n');
+  }
+
+  // Every item of a Graph collection, following @odata.nextLink
+  private async *collect(entry: WikiEntry, path: string): AsyncGenerator<any> {
+    let data = await this.graphGet(entry, path);
+    while (true) {
+      yield* data.value || [];
+      if (!data['@odata.nextLink']) return;
+      data = await this.graphGet(entry, data['@odata.nextLink']);
+    }
+  }
+
+  /**
+   * GET a Graph path or absolute URL. A 401 with a client credentials token drops the
+   * cached token and retries once, in case it was revoked before it expired.
+   */
+  private async graphGet(entry: WikiEntry, pathOrUrl: string, asText: boolean = false): Promise<any> {
+    const graphUrl = this.getGraphUrl(entry);
+    const url = /^https?:\/\//.test(pathOrUrl) ? pathOrUrl : `${graphUrl}${pathOrUrl}`;
+    const scope = `${new URL(graphUrl).origin}/.default`;
+    const credentials = this.getClientCredentials(entry, scope);
+
+    for (let attempt = 0; ; attempt++) {
+      const config = await this.createRequestConfig(entry, scope);
+      if (asText) {
+        config.responseType = 'text';
+        config.transformResponse = [(data: any) => data];
+      }
+
+      try {
+        const response = await axios.get(url, config);
+        return response.data;
+      } catch (error: any) {
+        const status = error.response?.status;
+        if (status === 401 && credentials && attempt === 0) {
+          logger.info(`Graph rejected the cached token for ${entry.url}; requesting a new one`);
+          clientCredentialsTokens.invalidate(credentials);
+          continue;
+        }
+        if (status === 401 || status === 403) {
+          throw new Error(`Microsoft Graph rejected the credentials for ${entry.url} (HTTP ${status})`);
+        }
+        throw new Error(`Microsoft Graph request failed: ${error.response?.data?.error?.message || error.message}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { globToRegExp } from './sourceConfig';
+
+/**
+ * Indexing and keyword search over documentation files on local disk
+ */
+
+export const DOC_MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.mdx': 'text/markdown',
+  '.adoc': 'text/asciidoc',
+  '.asciidoc': 'text/asciidoc',
+  '.rst': 'text/x-rst'
+};
+
+// Dependency and build output directories never hold the docs we want; dot-directories are skipped too
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'out', 'target', 'vendor', '__pycache__']);
+
+const STOP_WORDS = ['the', 'a', 'an', 'in', 'on', 'at', 'to', 'for', 'with', 'by', 'about', 'how', 'and', 'what'];
+
+export interface LocalDocument {
+  path: string;                 // Absolute file path
+  relativePath: string;         // Path below the indexed directory, always with forward slashes
+  title: string;
+  content: string;              // Text without the front matter
+  metadata: Record<string, unknown>; // YAML front matter; empty when there is none
+  mimeType: string;
+  modified: number;
+}
+
+export interface IndexOptions {
+  maxFiles?: number;            // Stop after this many documents (default 2000)
+  maxFileBytes?: number;        // Larger files are skipped (default 1 MB)
+  respectGitignore?: boolean;   // Skip what .gitignore files below the directory exclude (default false)
+}
+
+// One pattern line of a .gitignore file
+export interface GitignoreRule {
+  pattern: RegExp;              // Matches paths relative to the indexed directory
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+export interface DocumentMatch {
+  document: LocalDocument;
+  score: number;
+  snippet: string;
+}
+
+/**
+ * Read every documentation file below a directory
+ */
+export async function indexDocuments(rootDir: string, options: IndexOptions = {}): Promise<LocalDocument[]> {
+  const maxFiles = options.maxFiles ?? 2000;
+  const maxFileBytes = options.maxFileBytes ?? 1024 * 1024;
+  const documents: LocalDocument[] = [];
+  const pending: Array<{ dir: string; rules: GitignoreRule[] }> = [{ dir: rootDir, rules: [] }];
+
+  while (pending.length > 0 && documents.length < maxFiles) {
+    const { dir, rules: inherited } = pending.shift()!;
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      continue; // Unreadable directories are skipped
+    }
+
+    const rules = options.respectGitignore ? [...inherited, ...await readGitignore(rootDir, dir)] : inherited;
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = path.relative(rootDir, fullPath).split(path.sep).join('/');
+      if (isIgnored(relativePath, entry.isDirectory(), rules)) continue;
+
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) pending.push({ dir: fullPath, rules });
+        continue;
+      }
+
+      const mimeType = DOC_MIME_TYPES[path.extname(entry.name).toLowerCase()];
+      if (!entry.isFile() || !mimeType) continue;
+
+      try {
+        const stats = await fs.stat(fullPath);
+        if (stats.size > maxFileBytes) continue;
+
+        const { metadata, body } = parseFrontMatter(await fs.readFile(fullPath, 'utf8'));
+        documents.push({
+          path: fullPath,
+          relativePath,
+          title: typeof metadata.title === 'string' ? metadata.title : documentTitle(body, relativePath),
+          content: body,
+          metadata,
+          mimeType,
+          modified: stats.mtimeMs
+        });
+      } catch {
+        continue; // Files that vanish or cannot be read while indexing are skipped
+      }
+
+      if (documents.length >= maxFiles) break;
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * First heading of a Markdown, AsciiDoc or reStructuredText document, else the file name
+ */
+export function documentTitle(content: string, relativePath: string): string {
+  const heading = /^#\s+(.+)$/m.exec(content)                       // Markdown
+    || /^=\s+(.+)$/m.exec(content)                                  // AsciiDoc document title
+    || /^(\S.*)\r?\n([=\-~^"'`#*+])\2{2,}\s*$/m.exec(content);      // reStructuredText underline
+
+  return heading ? heading[1].trim() : path.posix.basename(relativePath);
+}
+
+/**
+ * Split leading YAML front matter (between --- lines) from the text.
+ * Front matter that is not a YAML mapping is left in the body.
+ */
+export function parseFrontMatter(content: string): { metadata: Record<string, unknown>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)\s*(?:\r?\n|$)/.exec(content);
+  if (!match) {
+    return { metadata: {}, body: content };
+  }
+
+  try {
+    const metadata = parseYaml(match[1]);
+    if (metadata && typeof metadata === 'object' && !Array.isArray(metadata)) {
+      return { metadata, body: content.slice(match[0].length) };
+    }
+  } catch {
+    // Not YAML after all
+  }
+  return { metadata: {}, body: content };
+}
+
+/**
+ * Rules of a .gitignore file; base is the file's directory relative to the indexed directory ('' at the top)
+ */
+export function parseGitignore(content: string, base: string): GitignoreRule[] {
+  const prefix = base ? `${base}/` : '';
+  return content.split(/\r?\n/).flatMap(line => {
+    let pattern = line.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) return [];
+
+    const negated = pattern.startsWith('!');
+    if (negated) pattern = pattern.slice(1);
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '').replace(/^\\([#!])/, '$1');
+
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = pattern.includes('/');
+    const glob = prefix + (anchored ? pattern.replace(/^\/+/, '') : `**/${pattern}`);
+    return [{ pattern: globToRegExp(glob), negated, directoryOnly }];
+  });
+}
+
+/**
+ * Whether git would ignore a path; the last matching rule wins.
+ * Files inside ignored directories never reach this check because those directories are not walked.
+ */
+export function isIgnored(relativePath: string, isDirectory: boolean, rules: GitignoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if ((!rule.directoryOnly || isDirectory) && rule.pattern.test(relativePath)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+async function readGitignore(rootDir: string, dir: string): Promise<GitignoreRule[]> {
+  try {
+    const content = await fs.readFile(path.join(dir, '.gitignore'), 'utf8');
+    return parseGitignore(content, path.relative(rootDir, dir).split(path.sep).join('/'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Keyword search: a document matches when it contains the whole query or at least half of its keywords.
+ * Ordered by score, then by path so results stay stable.
+ */
+export function searchDocuments(documents: LocalDocument[], query: string, limit: number): DocumentMatch[] {
+  const phrase = query.toLowerCase().trim();
+  const keywords = phrase
+    .split(/\s+/)
+    .map(word => word.replace(/[^\w]/g, ''))
+    .filter(word => word.length > 2 && !STOP_WORDS.includes(word));
+
+  const matches: DocumentMatch[] = [];
+  for (const document of documents) {
+    const text = document.content.toLowerCase();
+    const title = document.title.toLowerCase();
+    const matched = keywords.filter(keyword => text.includes(keyword) || title.includes(keyword));
+    const hasPhrase = phrase.length > 0 && text.includes(phrase);
+
+    if (!hasPhrase && (matched.length === 0 || matched.length < Math.floor(keywords.length * 0.5))) continue;
+
+    const score = (hasPhrase ? 1 : 0)
+      + (keywords.length > 0 ? matched.length / keywords.length : 0)
+      + (keywords.some(keyword => title.includes(keyword)) ? 0.5 : 0);
+    matches.push({ document, score, snippet: extractSnippet(document.content, hasPhrase ? [phrase] : matched) });
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.document.relativePath.localeCompare(b.document.relativePath))
+    .slice(0, limit);
+}
+
+function extractSnippet(content: string, terms: string[]): string {
+  const lower = content.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(position => position >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, first - 150);
+  const end = Math.min(content.length, first + 350);
+  return `${start > 0 ? '...' : ''}${content.substring(start, end).trim()}${end < content.length ? '...' : ''}`;
+}
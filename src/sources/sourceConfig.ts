@@ -0,0 +1,94 @@
+import { WikiSourceConfig } from './types';
+
+/**
+ * Validation of wikiUrls entries and matching of page paths against include/exclude patterns
+ */
+
+/**
+ * Turn a wikiUrls entry into a source config; plain strings are just the URL.
+ * Throws with the offending field when an object entry is malformed.
+ */
+export function normalizeSourceConfig(value: string | WikiSourceConfig): WikiSourceConfig {
+  if (typeof value === 'string') {
+    return { url: value };
+  }
+  if (!value || typeof value !== 'object' || typeof value.url !== 'string') {
+    throw new Error('wiki source needs a url');
+  }
+
+  const checkString = (field: keyof WikiSourceConfig) => {
+    if (value[field] !== undefined && typeof value[field] !== 'string') {
+      throw new Error(`${field} must be a string`);
+    }
+  };
+  const checkStrings = (field: keyof WikiSourceConfig) => {
+    const list = value[field];
+    if (list !== undefined && (!Array.isArray(list) || list.some(item => typeof item !== 'string'))) {
+      throw new Error(`${field} must be an array of strings`);
+    }
+  };
+  const checkPositive = (field: keyof WikiSourceConfig) => {
+    const number = value[field];
+    if (number !== undefined && (typeof number !== 'number' || !(number > 0))) {
+      throw new Error(`${field} must be a positive number`);
+    }
+  };
+
+  checkString('type');
+  checkString('name');
+  checkString('authRef');
+  checkStrings('tags');
+  checkStrings('include');
+  checkStrings('exclude');
+  checkPositive('refreshIntervalMinutes');
+  checkPositive('maxPages');
+  checkPositive('priority');
+  if (value.options !== undefined && (typeof value.options !== 'object' || value.options === null || Array.isArray(value.options))) {
+    throw new Error('options must be an object');
+  }
+
+  return { ...value };
+}
+
+/**
+ * Whether a page path passes a source's filters: it must match an include pattern (when there are any)
+ * and no exclude pattern. Paths have no leading slash, like the {pagePath} of wiki:// URIs.
+ */
+export function isPathIncluded(pagePath: string, include?: string[], exclude?: string[]): boolean {
+  const normalized = pagePath.replace(/^\/+/, '');
+  if (include && include.length > 0 && !include.some(pattern => globToRegExp(pattern).test(normalized))) {
+    return false;
+  }
+  return !exclude?.some(pattern => globToRegExp(pattern).test(normalized));
+}
+
+/**
+ * Glob pattern for page paths: `*` matches within one path segment, `**` across segments and `?` one character.
+ * A leading slash is ignored.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  const glob = pattern.replace(/^\/+/, '');
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no directory at all
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
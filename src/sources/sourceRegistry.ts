@@ -0,0 +1,131 @@
+import { EventEmitter } from 'events';
+import { AIEnhancedWikiContent } from '../ai/types';
+import {
+  DocumentSource,
+  WikiResource,
+  WikiResourceContents,
+  WikiSourceDetails,
+  WikiSourceStats,
+  SourceHealth
+} from './types';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('SourceRegistry');
+
+/**
+ * All document sources the server searches and exposes as resources
+ * Re-emits each source's 'resourceUpdated' and 'resourceListChanged' events
+ */
+export class SourceRegistry extends EventEmitter {
+  private sources: DocumentSource[] = [];
+
+  register(source: DocumentSource): void {
+    this.sources.push(source);
+    source.on('resourceUpdated', (uri: string) => this.emit('resourceUpdated', uri));
+    source.on('resourceListChanged', () => this.emit('resourceListChanged'));
+  }
+
+  list(): DocumentSource[] {
+    return [...this.sources];
+  }
+
+  /**
+   * Query every source in parallel and merge the results
+   * A failing source is logged and skipped so the others still answer
+   */
+  async search(params: any): Promise<AIEnhancedWikiContent[]> {
+    const query = params?.query?.text || '';
+    if (!query) {
+      return [];
+    }
+
+    const perSource = await Promise.all(this.sources.map(async source => {
+      try {
+        return await source.getContext(params) || [];
+      } catch (error) {
+        logger.error(`Error getting context from source ${source.name}:`, error);
+        return [];
+      }
+    }));
+
+    const results = this.mergeResults(perSource);
+
+    // Add fallback if no URLs configured or no relevant content found
+    if (results.length === 0) {
+      results.push({
+        title: 'Example Wiki Page',
+        content: `This is a sample wiki content related to "${query}". Configure wiki URLs in mcp.config.json to get real content.`,
+        source: 'wiki'
+      });
+    }
+
+    return results;
+  }
+
+  listResources(): WikiResource[] {
+    return this.sources.flatMap(source => source.listResources());
+  }
+
+  // First source that recognises the URI answers; null when none does
+  async readResource(uri: string): Promise<WikiResourceContents | null> {
+    for (const source of this.sources) {
+      const contents = await source.readResource(uri);
+      if (contents) return contents;
+    }
+    return null;
+  }
+
+  getWikiSourceDetails(): WikiSourceDetails[] {
+    return this.sources.flatMap(source => source.getWikiSourceDetails());
+  }
+
+  getWikiSourceStats(): WikiSourceStats {
+    const combined: WikiSourceStats = {
+      totalSources: 0,
+      sourcesByType: {},
+      authenticatedSources: 0,
+      cachedSources: 0,
+      cacheTimeoutMinutes: 0
+    };
+
+    for (const source of this.sources) {
+      const stats = source.getWikiSourceStats();
+      combined.totalSources += stats.totalSources;
+      combined.authenticatedSources += stats.authenticatedSources;
+      combined.cachedSources += stats.cachedSources;
+      combined.cacheTimeoutMinutes = Math.max(combined.cacheTimeoutMinutes, stats.cacheTimeoutMinutes);
+      for (const [type, count] of Object.entries(stats.sourcesByType)) {
+        combined.sourcesByType[type] = (combined.sourcesByType[type] || 0) + count;
+      }
+    }
+
+    return combined;
+  }
+
+  async checkHealth(): Promise<SourceHealth[]> {
+    const perSource = await Promise.all(this.sources.map(source => source.checkHealth()));
+    return perSource.flat();
+  }
+
+  // Interleave sources round-robin, AI-scored results first, dropping repeats of the same page
+  private mergeResults(perSource: AIEnhancedWikiContent[][]): AIEnhancedWikiContent[] {
+    const merged: AIEnhancedWikiContent[] = [];
+    const seen = new Set<string>();
+    const longest = Math.max(0, ...perSource.map(results => results.length));
+
+    for (let i = 0; i < longest; i++) {
+      for (const results of perSource) {
+        const result = results[i];
+        if (!result) continue;
+
+        const key = result.url ? `${result.url}#${result.title}` : `${result.source}:${result.title}:${result.content}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        merged.push(result);
+      }
+    }
+
+    // Stable sort keeps the interleaved order among unscored results
+    return merged.sort((a, b) => (b.relevanceScore ?? -1) - (a.relevanceScore ?? -1));
+  }
+}
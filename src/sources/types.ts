@@ -0,0 +1,180 @@
+import { EventEmitter } from 'events';
+import { AIEnhancedWikiContent } from '../ai/types';
+
+// Wiki source types supported
+export enum WikiType {
+  Markdown = 'markdown',
+  MediaWiki = 'mediawiki',
+  Gitbook = 'gitbook',
+  Confluence = 'confluence',
+  SharePoint = 'sharepoint',
+  Local = 'local',
+  GitHub = 'github',
+  GitLab = 'gitlab',
+  OpenAPI = 'openapi',
+  Unknown = 'unknown'
+}
+
+// Authentication configuration for private wikis
+export interface WikiAuthConfig {
+  id?: string;         // Name a source can refer to with authRef
+  urlPattern: string;  // Regex pattern to match URLs that need this auth
+  type: 'basic' | 'token' | 'oauth' | 'custom';
+  username?: string;  // For basic auth
+  password?: string;  // For basic auth
+  token?: string;     // For token auth
+  headerName?: string; // For custom header auth (e.g., 'Authorization')
+  headerValue?: string; // Value for the custom header
+  oauthConfig?: {      // For OAuth (client credentials grant)
+    clientId: string;
+    clientSecret: string;
+    tokenUrl: string;
+    scope?: string;     // Defaults to what the connector needs, e.g. the Graph .default scope
+  };
+}
+
+/**
+ * A wikiUrls entry written as an object; a plain string is the same as { url }
+ */
+export interface WikiSourceConfig {
+  url: string;
+  type?: WikiType | string;     // Connector to use; detected from the hostname when omitted
+  name?: string;                // Display name; derived from the URL when omitted
+  tags?: string[];
+  include?: string[];           // Glob patterns for page paths; when set, only matching pages are used
+  exclude?: string[];           // Glob patterns for page paths that are never used
+  refreshIntervalMinutes?: number; // Cache lifetime for this source instead of cacheTimeoutMinutes
+  maxPages?: number;            // Most pages listed for this source
+  authRef?: string;             // id of an auth entry, used instead of matching urlPattern
+  priority?: number;            // Weight when ranking this source's results against others (default 1)
+  options?: Record<string, any>; // Settings for the type's connector, such as MediaWiki namespaces
+}
+
+export interface WikiEntry {
+  id: string;   // Stable identifier used in wiki:// resource URIs
+  url: string;
+  type: WikiType | string;
+  name: string;
+  auth?: {
+    type: 'basic' | 'token' | 'oauth' | 'custom';
+    config: any;
+  };
+  tags?: string[];
+  include?: string[];
+  exclude?: string[];
+  refreshIntervalMinutes?: number;
+  maxPages?: number;
+  authRef?: string;
+  priority?: number;
+  options?: Record<string, any>; // Connector-specific settings from the source object
+  sourceUrl?: string;           // On page entries, the URL of the configured source they belong to
+}
+
+// A page a connector knows about without having fetched it
+export interface WikiPage {
+  url: string;
+  title: string;
+  breadcrumbs?: string[];       // Titles of the containers above the page, outermost first
+}
+
+export interface ConnectorSearchHit {
+  url: string;
+  title: string;
+  content: string;              // Snippet or section relevant to the query
+  score?: number;               // Higher is more relevant; only comparable within one connector
+  breadcrumbs?: string[];
+}
+
+export interface ConnectorHealth {
+  healthy: boolean;
+  latencyMs?: number;
+  message?: string;
+}
+
+/**
+ * Talks to one kind of wiki. Connectors keep only what their own search needs;
+ * content caching, indexing and resource bookkeeping stay in the source that owns the configured entries.
+ */
+export interface WikiConnector {
+  readonly type: string;
+
+  // Fetch the page at entry.url; page entries share their source's auth
+  fetch(entry: WikiEntry): Promise<string>;
+
+  // Pages beyond the configured one; empty when the wiki cannot be enumerated
+  listPages(entry: WikiEntry): Promise<WikiPage[]>;
+
+  // Native search; when absent, or null for an entry the wiki cannot search, the source matches
+  // the pages it has already fetched and listed instead
+  search?(entry: WikiEntry, query: string, limit: number): Promise<ConnectorSearchHit[] | null>;
+
+  checkHealth(entry: WikiEntry): Promise<ConnectorHealth>;
+
+  // Report changed page URLs as they happen; returns a function that stops watching
+  watch?(entry: WikiEntry, onChange: (urls: string[]) => void): () => void;
+}
+
+// MCP resource describing a wiki source or one of its cached pages
+export interface WikiResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType: string;
+  size?: number;
+  annotations?: { lastModified?: string };
+}
+
+export interface WikiResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export interface WikiSourceDetails {
+  id: string;
+  name: string;
+  url: string;
+  type: string;
+  hasAuth: boolean;
+  authType?: string;
+  cached: boolean;
+  cacheTimestamp?: string;
+  resourceUri?: string;         // Resource for the source itself, when it has one
+  tags?: string[];
+  include?: string[];
+  exclude?: string[];
+  refreshIntervalMinutes?: number;
+  maxPages?: number;
+  authRef?: string;
+  priority?: number;
+}
+
+export interface WikiSourceStats {
+  totalSources: number;
+  sourcesByType: Record<string, number>;
+  authenticatedSources: number;
+  cachedSources: number;
+  cacheTimeoutMinutes: number;
+}
+
+export interface SourceHealth extends ConnectorHealth {
+  id: string;
+  name: string;
+  type: string;
+}
+
+/**
+ * A provider of searchable documents and wiki:// resources registered with the SourceRegistry.
+ * Emits 'resourceUpdated' (uri) and 'resourceListChanged' like WikiSource.
+ */
+export interface DocumentSource extends EventEmitter {
+  name: string;
+  // params.query.text is the query; params.limit, when set, caps native search hits per wiki
+  getContext(params: any): Promise<AIEnhancedWikiContent[]>;
+  listResources(): WikiResource[];
+  readResource(uri: string): Promise<WikiResourceContents | null>;
+  getWikiSourceDetails(): WikiSourceDetails[];
+  getWikiSourceStats(): WikiSourceStats;
+  checkHealth(): Promise<SourceHealth[]>;
+}
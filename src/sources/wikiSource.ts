@@ -1,19 +1,40 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import axios from 'axios';
-import { marked } from 'marked';
+import { fileURLToPath } from 'url';
+import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
 import { AIService } from '../ai/aiService';
 import { AIEnhancedWikiContent } from '../ai/types';
+import { ConnectorRegistry } from './connectorRegistry';
+import { createDefaultConnectorRegistry } from './connectors';
+import { isPathIncluded, normalizeSourceConfig } from './sourceConfig';
+import { DOC_MIME_TYPES } from './localDocs';
+import { Logger } from '../utils/logger';
+import {
+  WikiType,
+  WikiAuthConfig,
+  WikiEntry,
+  WikiPage,
+  WikiSourceConfig,
+  WikiResource,
+  WikiResourceContents,
+  WikiSourceDetails,
+  WikiSourceStats,
+  SourceHealth,
+  DocumentSource
+} from './types';
 
 // Content cache to avoid repeated requests
 interface CacheEntry {
+  sourceId: string;
   content: string;
+  hash: string;
   timestamp: number;
   searchIndex: Record<string, number>; // Keyword -> relevance score
 }
 
 interface WikiConfig {
-  wikiUrls: string[];
+  wikiUrls: Array<string | WikiSourceConfig>;
   cacheTimeoutMinutes?: number;
   auth?: WikiAuthConfig[];
   ai?: {
@@ -32,51 +53,35 @@ interface WikiConfig {
   };
 }
 
-// Authentication configuration for private wikis
-interface WikiAuthConfig {
-  urlPattern: string;  // Regex pattern to match URLs that need this auth
-  type: 'basic' | 'token' | 'oauth' | 'custom';
-  username?: string;  // For basic auth
-  password?: string;  // For basic auth
-  token?: string;     // For token auth
-  headerName?: string; // For custom header auth (e.g., 'Authorization')
-  headerValue?: string; // Value for the custom header
-  oauthConfig?: {      // For OAuth
-    clientId: string;
-    clientSecret: string;
-    tokenUrl: string;
-  };
-}
+export const WIKI_PAGE_URI_TEMPLATE = 'wiki://{source}/{pagePath}';
 
-// Wiki source types supported
-enum WikiType {
-  Markdown = 'markdown',
-  MediaWiki = 'mediawiki',
-  Gitbook = 'gitbook',
-  Confluence = 'confluence',
-  SharePoint = 'sharepoint',
-  Unknown = 'unknown'
-}
+// Native search hits requested per source when the caller does not ask for more
+const DEFAULT_SEARCH_LIMIT = 5;
 
-interface WikiEntry {
-  url: string;
-  type: WikiType;
-  name: string;
-  auth?: {
-    type: 'basic' | 'token' | 'oauth' | 'custom';
-    config: any;
-  };
-}
+const logger = new Logger('WikiSource');
 
-export class WikiSource {
+/**
+ * Config-driven source for the wikis listed in mcp.config.json
+ * Fetching is delegated to the connector registered for each entry's type.
+ * Emits 'resourceUpdated' (uri) when a cached page's content changes on refetch and
+ * 'resourceListChanged' when pages or sources are added to or removed from the resource list
+ */
+export class WikiSource extends EventEmitter implements DocumentSource {
   name = 'wiki';
+  readonly connectors: ConnectorRegistry;
   private wikiEntries: WikiEntry[] = [];
   private contentCache: Record<string, CacheEntry> = {};
+  private pageIndex: Record<string, WikiPage[]> = {}; // Source id -> pages listed by its connector
   private cacheTimeoutMs: number = 30 * 60 * 1000; // Default: 30 minutes
   private authConfigs: WikiAuthConfig[] = [];
   private aiService: AIService | null = null;
+  private configPath?: string;  // File the configuration was loaded from; admin changes are written back here
+  private configValues = new WeakMap<WikiEntry, string | WikiSourceConfig>(); // Entry -> wikiUrls item it came from
+  private watchers: Map<string, () => void> = new Map(); // Source id -> stops its connector's watch
   
-  constructor() {
+  constructor(connectors: ConnectorRegistry = createDefaultConnectorRegistry()) {
+    super();
+    this.connectors = connectors;
     // Load config from mcp.config.json
     try {
       // Try multiple possible locations for the config file
@@ -94,59 +99,41 @@ export class WikiSource {
       
       for (const testPath of possiblePaths) {
         if (!testPath) continue; // Skip undefined paths
-        console.error(`[DEBUG] Testing config path: ${testPath}`);
         try {
           if (fs.existsSync(testPath)) {
             configPath = testPath;
-            console.error(`[DEBUG] Config file found at: ${configPath}`);
-            const configContent = fs.readFileSync(configPath, 'utf8');
-            console.error(`[DEBUG] Config file size: ${configContent.length} bytes`);
-            config = JSON.parse(configContent) as WikiConfig;
-            console.error(`[DEBUG] Successfully parsed config file`);
+            this.configPath = testPath;
+            config = JSON.parse(fs.readFileSync(configPath, 'utf8')) as WikiConfig;
+            logger.debug(`Loaded config file ${configPath}`);
             break;
-          } else {
-            console.error(`[DEBUG] Config file does not exist at: ${testPath}`);
           }
         } catch (error) {
-          console.error(`[DEBUG] Error checking config path ${testPath}:`, error);
+          logger.error(`Error reading config file ${testPath}:`, error);
         }
       }
-      
-      console.error(`[DEBUG] Current working directory: ${process.cwd()}`);
-      console.error(`[DEBUG] __dirname: ${__dirname}`);
-      console.error(`[DEBUG] process.argv: ${JSON.stringify(process.argv)}`);
-      console.error(`[DEBUG] process.env.PWD: ${process.env.PWD}`);
-      
+
       if (config) {
         // Initialize AI service if AI config is present
         if (config.ai) {
-          console.error(`[DEBUG] AI config found, enabled: ${config.ai.enabled}`);
+          logger.debug(`AI config found, enabled: ${config.ai.enabled}`);
           this.aiService = new AIService(config.ai);
         }
         
+        // Store auth configs for later use, including for sources added at runtime
+        this.authConfigs = config.auth || [];
+
         if (config.wikiUrls && Array.isArray(config.wikiUrls)) {
-          console.error(`[DEBUG] Found ${config.wikiUrls.length} wiki URLs in config`);
-          // Store auth configs for later use
-          this.authConfigs = config.auth || [];
-          
-          // Parse each wiki URL and assign auth if applicable
-          this.wikiEntries = config.wikiUrls.map(url => {
-            const entry = this.parseWikiUrl(url);
-            
-            // Check if this wiki needs authentication
-            const authConfig = this.findAuthConfigForUrl(url);
-            if (authConfig) {
-              entry.auth = {
-                type: authConfig.type,
-                config: authConfig
-              };
-              console.log(`Applied ${authConfig.type} authentication for ${entry.name}`);
+          this.wikiEntries = config.wikiUrls.flatMap(value => {
+            try {
+              return [this.createEntry(value)];
+            } catch (error: any) {
+              logger.error(`Skipping wiki source ${JSON.stringify(value)}: ${error.message}`);
+              return [];
             }
-            
-            return entry;
           });
+          this.assignSourceIds();
           
-          console.error(`Loaded ${this.wikiEntries.length} wiki sources`);
+          logger.info(`Loaded ${this.wikiEntries.length} wiki sources`);
         }
         
         // Set cache timeout if configured
@@ -157,13 +144,50 @@ export class WikiSource {
         // Pre-fetch content from wikis in background
         this.prefetchWikiContent();
       } else {
-        console.error(`[DEBUG] Config file not found at: ${configPath}`);
+        logger.notice(`No config file found; searched ${possiblePaths.join(', ')}`);
       }
     } catch (error) {
-      console.error('Error loading wiki configuration:', error);
+      logger.error('Error loading wiki configuration:', error);
     }
   }
   
+  // Build an entry from a wikiUrls item with its auth applied; the id is assigned separately
+  private createEntry(value: string | WikiSourceConfig): WikiEntry {
+    const config = normalizeSourceConfig(value);
+    const entry = this.parseWikiUrl(config.url);
+    const { type, name, tags, include, exclude, refreshIntervalMinutes, maxPages, authRef, priority, options } = config;
+
+    if (type) {
+      if (!this.connectors.has(type)) {
+        logger.warning(`No connector for wiki type ${type}; ${config.url} is fetched as a generic page`);
+      }
+      entry.type = type;
+    }
+    if (name) entry.name = name;
+    Object.assign(entry, { tags, include, exclude, refreshIntervalMinutes, maxPages, authRef, priority, options });
+
+    // Check if this wiki needs authentication; an explicit reference wins over URL patterns
+    const authConfig = authRef ? this.findAuthConfigById(authRef) : this.findAuthConfigForUrl(config.url);
+    if (authConfig) {
+      entry.auth = {
+        type: authConfig.type,
+        config: authConfig
+      };
+      logger.debug(`Applied ${authConfig.type} authentication for ${entry.name}`);
+    }
+
+    this.configValues.set(entry, value);
+    return entry;
+  }
+
+  private findAuthConfigById(id: string): WikiAuthConfig {
+    const authConfig = this.authConfigs.find(auth => auth.id === id);
+    if (!authConfig) {
+      throw new Error(`authRef ${id} does not match the id of any auth entry`);
+    }
+    return authConfig;
+  }
+
   // Find authentication config that matches a URL
   private findAuthConfigForUrl(url: string): WikiAuthConfig | undefined {
     return this.authConfigs.find(authConfig => {
@@ -171,7 +195,7 @@ export class WikiSource {
         const pattern = new RegExp(authConfig.urlPattern);
         return pattern.test(url);
       } catch (error) {
-        console.error(`Invalid URL pattern in auth config: ${authConfig.urlPattern}`, error);
+        logger.error(`Invalid URL pattern in auth config: ${authConfig.urlPattern}`, error);
         return false;
       }
     });
@@ -184,7 +208,19 @@ export class WikiSource {
     let name = hostname;
     
     // Detect wiki type based on URL patterns
-    if (hostname.includes('gitbook.io')) {
+    if (/(^|\/)(openapi|swagger)[^/]*\.(json|ya?ml)$/i.test(urlObj.pathname) || /\/v[23]\/api-docs\/?$/.test(urlObj.pathname)) {
+      type = WikiType.OpenAPI;
+      name = `OpenAPI: ${urlObj.protocol === 'file:' ? path.basename(fileURLToPath(urlObj)) : hostname}`;
+    } else if (urlObj.protocol === 'file:') {
+      type = WikiType.Local;
+      name = `Local: ${path.basename(fileURLToPath(urlObj)) || 'docs'}`;
+    } else if (hostname === 'github.com') {
+      type = WikiType.GitHub;
+      name = `GitHub: ${urlObj.pathname.split('/').slice(1, 3).join('/') || hostname}`;
+    } else if (hostname === 'gitlab.com' || hostname.startsWith('gitlab.')) {
+      type = WikiType.GitLab;
+      name = `GitLab: ${urlObj.pathname.split('/-/')[0].replace(/^\/+|\/+$/g, '') || hostname}`;
+    } else if (hostname.includes('gitbook.io')) {
       type = WikiType.Gitbook;
       name = `Gitbook: ${urlObj.pathname.split('/')[1] || hostname}`;
     } else if (hostname.endsWith('wiki.org') || hostname.includes('mediawiki')) {
@@ -201,228 +237,299 @@ export class WikiSource {
       name = hostname;
     }
     
-    return { url, type, name };
+    return { id: '', url, type, name };
+  }
+
+  // Derive URI-safe ids from entry names, suffixing duplicates; entries that already have an id keep it
+  private assignSourceIds(): void {
+    const used = new Set(this.wikiEntries.map(entry => entry.id).filter(Boolean));
+    for (const entry of this.wikiEntries) {
+      if (entry.id) continue;
+      const base = entry.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'wiki';
+      let id = base;
+      for (let n = 2; used.has(id); n++) {
+        id = `${base}-${n}`;
+      }
+      used.add(id);
+      entry.id = id;
+    }
   }
   
   // Prefetch content from all wikis
   private async prefetchWikiContent(): Promise<void> {
-    console.error('Pre-fetching wiki content...');
+    logger.debug('Pre-fetching wiki content');
     
     for (const entry of this.wikiEntries) {
       try {
         await this.fetchWikiContent(entry);
-        console.error(`Fetched content from ${entry.name}`);
+        logger.debug(`Fetched content from ${entry.name}`);
+        await this.indexPages(entry);
+        this.watchSource(entry);
       } catch (error) {
-        console.error(`Failed to fetch content from ${entry.name}:`, error);
+        logger.warning(`Failed to fetch content from ${entry.name}:`, error);
       }
     }
     
-    console.error('Wiki content pre-fetch complete');
+    logger.debug('Wiki content pre-fetch complete');
+  }
+
+  // Remember the pages a connector can enumerate so they show up as resources before being read
+  private async indexPages(entry: WikiEntry): Promise<void> {
+    const listed = await this.connectors.resolve(entry.type).listPages(entry);
+    const pages = listed.filter(page => this.isPageIncluded(entry, page.url)).slice(0, entry.maxPages);
+    const known = new Set((this.pageIndex[entry.id] || []).map(page => page.url));
+    this.pageIndex[entry.id] = pages;
+
+    if (pages.length !== known.size || pages.some(page => !known.has(page.url))) {
+      this.emit('resourceListChanged');
+    }
+  }
+
+  // Follow changes the connector reports as they happen, for connectors that can watch their source
+  private watchSource(entry: WikiEntry): void {
+    const connector = this.connectors.resolve(entry.type);
+    if (!connector.watch || this.watchers.has(entry.id)) return;
+
+    this.watchers.set(entry.id, connector.watch(entry, urls => {
+      this.refreshChangedPages(entry, urls)
+        .catch(error => logger.warning(`Failed to refresh changed pages of ${entry.name}:`, error));
+    }));
+  }
+
+  // Refetch the changed pages that are cached, drop the ones that are gone and list the pages again
+  private async refreshChangedPages(entry: WikiEntry, urls: string[]): Promise<void> {
+    for (const url of [entry.url, ...urls]) {
+      if (!this.contentCache[url]) continue;
+      try {
+        await this.fetchWikiContent({ ...entry, url, sourceUrl: entry.url }, false, true);
+      } catch {
+        delete this.contentCache[url];
+      }
+    }
+    await this.indexPages(entry);
   }
   
-  // Fetch content from a wiki
-  private async fetchWikiContent(entry: WikiEntry): Promise<string> {
+  // Fetch content from a wiki; with useFallback off, errors are thrown instead of simulated.
+  // A forced fetch ignores the cache and never answers with stale content.
+  private async fetchWikiContent(entry: WikiEntry, useFallback: boolean = true, force: boolean = false): Promise<string> {
     // Check cache first
-    if (this.contentCache[entry.url] && 
-        (Date.now() - this.contentCache[entry.url].timestamp) < this.cacheTimeoutMs) {
+    if (!force && this.contentCache[entry.url] && 
+        (Date.now() - this.contentCache[entry.url].timestamp) < this.getCacheTimeoutMs(entry)) {
       return this.contentCache[entry.url].content;
     }
     
-    console.error(`Fetching content from ${entry.name} (${entry.url})...`);
+    logger.debug(`Fetching content from ${entry.name} (${entry.url})`);
     
     try {
-      let content = '';
-      
-      switch (entry.type) {
-        case WikiType.MediaWiki:
-          content = await this.fetchMediaWikiContent(entry);
-          break;
-        case WikiType.Gitbook:
-          content = await this.fetchGitbookContent(entry);
-          break;
-        case WikiType.Confluence:
-          content = await this.fetchConfluenceContent(entry);
-          break;
-        case WikiType.Markdown:
-          content = await this.fetchMarkdownContent(entry);
-          break;
-        case WikiType.SharePoint:
-          content = await this.fetchSharePointContent(entry);
-          break;
-        default:
-          content = await this.fetchGenericContent(entry);
-      }
+      const content = await this.connectors.resolve(entry.type).fetch(entry);
       
       // Build search index
       const searchIndex = this.buildSearchIndex(content);
+      const hash = createHash('sha256').update(content).digest('hex');
+      const previous = this.contentCache[entry.url];
       
       // Cache the content
       this.contentCache[entry.url] = {
+        sourceId: entry.id,
         content,
+        hash,
         timestamp: Date.now(),
         searchIndex
       };
+
+      if (previous && previous.hash !== hash) {
+        for (const uri of this.getResourceUris(entry, entry.url)) {
+          this.emit('resourceUpdated', uri);
+        }
+      } else if (!previous && !this.wikiEntries.some(e => e.url === entry.url)) {
+        this.emit('resourceListChanged');
+      }
       
       return content;
     } catch (error) {
-      console.error(`Error fetching content from ${entry.url}:`, error);
+      logger.warning(`Error fetching content from ${entry.url}:`, error);
       
       // If we previously had cached content, use it even if expired
-      if (this.contentCache[entry.url]) {
-        console.log(`Using expired cached content for ${entry.url}`);
+      if (!force && this.contentCache[entry.url]) {
+        logger.info(`Using expired cached content for ${entry.url}`);
         return this.contentCache[entry.url].content;
       }
+
+      if (!useFallback) {
+        throw error;
+      }
       
       // Otherwise fall back to simulated content
-      console.log(`Falling back to simulated content for ${entry.url}`);
+      logger.info(`Falling back to simulated content for ${entry.url}`);
       const keywords = ['fallback'];
       const query = 'Error fetching content';
       return this.generateSimulatedContent(entry, query, keywords) || 'Error fetching content';
     }
   }
   
-  // Build a search index from content
-  private buildSearchIndex(content: string): Record<string, number> {
-    const index: Record<string, number> = {};
-    const words = content.toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(word => word.length > 2);
-    
-    // Count word occurrences
-    for (const word of words) {
-      index[word] = (index[word] || 0) + 1;
+  /**
+   * Add a wiki at runtime from a URL or a source object, like a wikiUrls item; content is fetched in the background.
+   * @param persist Also write the new source list back to the config file
+   */
+  addSource(source: string | WikiSourceConfig, persist: boolean = false): WikiSourceDetails {
+    const url = typeof source === 'string' ? source : source.url;
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error(`Invalid wiki URL: ${url}`);
     }
-    
-    return index;
-  }
-  
-  // Fetch content from MediaWiki
-  private async fetchMediaWikiContent(entry: WikiEntry): Promise<string> {
-    // MediaWiki API endpoint
-    const apiUrl = new URL(entry.url);
-    apiUrl.pathname = apiUrl.pathname.replace(/\/wiki\/.*$/, '/api.php');
-    
-    // Use MediaWiki API to get page content
-    const params = new URLSearchParams({
-      action: 'parse',
-      page: 'Main_Page', // Default to main page
-      format: 'json',
-      prop: 'text'
-    });
-    
-    const config = this.createRequestConfig(entry);
-    const response = await axios.get(`${apiUrl.toString()}?${params.toString()}`, config);
-    
-    if (response.data && response.data.parse && response.data.parse.text) {
-      return response.data.parse.text['*'];
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new Error(`Wiki URLs must use http or https: ${url}`);
     }
-    
-    throw new Error('Failed to parse MediaWiki content');
-  }
-  
-  // Fetch content from GitBook
-  private async fetchGitbookContent(entry: WikiEntry): Promise<string> {
-    const config = this.createRequestConfig(entry);
-    const response = await axios.get(entry.url, config);
-    
-    if (response.data) {
-      // Gitbook uses client-side rendering, so we need to extract content from HTML
-      return this.extractContentFromHtml(response.data);
+
+    const existing = this.wikiEntries.find(e => e.url === url);
+    if (existing) {
+      throw new Error(`Wiki source already configured as ${existing.id}: ${url}`);
     }
-    
-    throw new Error('Failed to fetch GitBook content');
+
+    const entry = this.createEntry(source);
+    this.wikiEntries.push(entry);
+    this.assignSourceIds();
+    if (persist) this.writeConfig();
+    logger.notice(`Added wiki source ${entry.id} (${url})`);
+    this.emit('resourceListChanged');
+
+    this.fetchWikiContent(entry)
+      .then(() => this.indexPages(entry))
+      .catch(error => logger.warning(`Failed to fetch content from ${entry.name}:`, error));
+
+    return this.describeEntry(entry);
   }
-  
-  // Fetch content from Confluence
-  private async fetchConfluenceContent(entry: WikiEntry): Promise<string> {
+
+  /**
+   * Remove a wiki and everything cached for it
+   * @param persist Also write the new source list back to the config file
+   */
+  removeSource(id: string, persist: boolean = false): WikiSourceDetails {
+    const entry = this.requireEntry(id);
+    const details = this.describeEntry(entry);
+
+    this.wikiEntries = this.wikiEntries.filter(e => e !== entry);
+    this.watchers.get(id)?.();
+    this.watchers.delete(id);
+    this.removeCachedPages(id);
+    delete this.pageIndex[id];
+    if (persist) this.writeConfig();
+    logger.notice(`Removed wiki source ${id} (${entry.url})`);
+    this.emit('resourceListChanged');
+
+    return details;
+  }
+
+  /**
+   * Refetch a wiki's configured page and every page cached for it, bypassing the cache,
+   * then list its pages again. Pages that cannot be fetched keep their previous content.
+   */
+  async refreshSource(id: string): Promise<{ refreshed: string[]; failed: string[] }> {
+    const entry = this.requireEntry(id);
+    const urls = [entry.url, ...Object.keys(this.contentCache).filter(url =>
+      url !== entry.url && this.contentCache[url].sourceId === id
+    )];
+
+    const refreshed: string[] = [];
+    const failed: string[] = [];
+    for (const url of urls) {
+      try {
+        await this.fetchWikiContent({ ...entry, url, sourceUrl: entry.url }, false, true);
+        refreshed.push(url);
+      } catch {
+        failed.push(url);
+      }
+    }
+
     try {
-      // Try direct HTML fetch first
-      const config = this.createRequestConfig(entry);
-      const response = await axios.get(entry.url, config);
-      return this.extractContentFromHtml(response.data);
+      await this.indexPages(entry);
     } catch (error) {
-      // If no authentication or authentication failed
-      if (!entry.auth) {
-        console.warn(`Confluence at ${entry.url} may require authentication`);
-      } else {
-        console.error(`Authentication failed for Confluence at ${entry.url}`, error);
-      }
-      throw new Error('Failed to fetch Confluence content - check authentication');
+      logger.warning(`Failed to list pages of ${entry.name}:`, error);
     }
+
+    logger.info(`Refreshed ${refreshed.length} pages of ${id}, ${failed.length} failed`);
+    return { refreshed, failed };
   }
-  
-  // Fetch content from Markdown source
-  private async fetchMarkdownContent(entry: WikiEntry): Promise<string> {
-    const config = this.createRequestConfig(entry);
-    const response = await axios.get(entry.url, config);
-    
-    if (response.data) {
-      if (typeof response.data === 'string') {
-        // Parse markdown to HTML
-        return marked(response.data);
-      } else {
-        // Handle JSON responses (e.g., from GitHub)
-        return response.data.content ? marked(response.data.content) : JSON.stringify(response.data);
-      }
+
+  /**
+   * Drop cached content for one wiki, or for all wikis when no id is given
+   * @returns Number of cached pages removed
+   */
+  clearCache(id?: string): number {
+    if (id !== undefined) this.requireEntry(id);
+
+    const cleared = this.removeCachedPages(id);
+    if (cleared > 0) {
+      logger.info(`Cleared ${cleared} cached pages${id ? ` of ${id}` : ''}`);
+      this.emit('resourceListChanged');
     }
-    
-    throw new Error('Failed to fetch Markdown content');
+    return cleared;
+  }
+
+  private removeCachedPages(id?: string): number {
+    const urls = Object.keys(this.contentCache).filter(url => id === undefined || this.contentCache[url].sourceId === id);
+    for (const url of urls) {
+      delete this.contentCache[url];
+    }
+    return urls.length;
+  }
+
+  private requireEntry(id: string): WikiEntry {
+    const entry = this.wikiEntries.find(e => e.id === id);
+    if (!entry) {
+      throw new Error(`Unknown wiki source: ${id}`);
+    }
+    return entry;
+  }
+
+  // Replace wikiUrls in the config file, keeping every other setting and each source's original form;
+  // written to a temporary file first
+  private writeConfig(): void {
+    const target = this.configPath || process.env.MCP_CONFIG_PATH || path.join(process.cwd(), 'mcp.config.json');
+    const config = fs.existsSync(target) ? JSON.parse(fs.readFileSync(target, 'utf8')) : {};
+    config.wikiUrls = this.wikiEntries.map(entry => this.configValues.get(entry) ?? entry.url);
+
+    const temporary = `${target}.${process.pid}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(config, null, 2) + '\n');
+    fs.renameSync(temporary, target);
+    this.configPath = target;
+    logger.info(`Wrote ${config.wikiUrls.length} wiki sources to ${target}`);
   }
   
-  // Fetch content from SharePoint
-  private async fetchSharePointContent(entry: WikiEntry): Promise<string> {
+  // A source's own refresh interval overrides the global cache timeout
+  private getCacheTimeoutMs(entry: WikiEntry): number {
+    return entry.refreshIntervalMinutes ? entry.refreshIntervalMinutes * 60 * 1000 : this.cacheTimeoutMs;
+  }
+
+  // Whether a page of the source passes its include/exclude patterns; the configured page always does
+  private isPageIncluded(entry: WikiEntry, url: string): boolean {
+    if (url === entry.url || (!entry.include && !entry.exclude)) return true;
     try {
-      const config = this.createRequestConfig(entry);
-      const response = await axios.get(entry.url, config);
-      return this.extractContentFromHtml(response.data);
-    } catch (error) {
-      if (!entry.auth) {
-        console.warn(`SharePoint at ${entry.url} likely requires authentication`);
-      } else {
-        console.error(`Authentication failed for SharePoint at ${entry.url}`, error);
-      }
-      throw new Error('Failed to fetch SharePoint content - check authentication');
+      const pagePath = decodeURIComponent(new URL(url).pathname);
+      // Local directories match their patterns against paths below the directory
+      const base = entry.type === WikiType.Local ? decodeURIComponent(new URL(entry.url).pathname).replace(/\/+$/, '') + '/' : '';
+      return isPathIncluded(base && pagePath.startsWith(base) ? pagePath.slice(base.length) : pagePath, entry.include, entry.exclude);
+    } catch {
+      return false;
     }
   }
-  
-  // Fetch content from generic URL
-  private async fetchGenericContent(entry: WikiEntry): Promise<string> {
-    const config = this.createRequestConfig(entry);
-    const response = await axios.get(entry.url, config);
+
+  // Build a search index from content
+  private buildSearchIndex(content: string): Record<string, number> {
+    const index: Record<string, number> = {};
+    const words = content.toLowerCase()
+      .replace(/[^\w\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 2);
     
-    if (response.data) {
-      if (typeof response.data === 'string') {
-        // Try to detect if it's HTML or plain text
-        if (response.data.includes('<!DOCTYPE html>') || response.data.includes('<html')) {
-          return this.extractContentFromHtml(response.data);
-        }
-        return response.data;
-      } else {
-        // JSON response
-        return JSON.stringify(response.data);
-      }
+    // Count word occurrences
+    for (const word of words) {
+      index[word] = (index[word] || 0) + 1;
     }
     
-    throw new Error('Failed to fetch content');
-  }
-  
-  // Extract meaningful content from HTML
-  private extractContentFromHtml(html: string): string {
-    // Basic extraction - in a real app, use a proper HTML parser
-    const textContent = html
-      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-      .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '')
-      .replace(/<header\b[^<]*(?:(?!<\/header>)<[^<]*)*<\/header>/gi, '')
-      .replace(/<footer\b[^<]*(?:(?!<\/footer>)<[^<]*)*<\/footer>/gi, '')
-      .replace(/<nav\b[^<]*(?:(?!<\/nav>)<[^<]*)*<\/nav>/gi, '')
-      .replace(/<aside\b[^<]*(?:(?!<\/aside>)<[^<]*)*<\/aside>/gi, '')
-      .replace(/<!--[\s\S]*?-->/g, '')
-      .replace(/<[^>]+>/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
-    
-    return textContent;
+    return index;
   }
   
   // Extract code blocks from content
@@ -460,48 +567,6 @@ export class WikiSource {
     return codeBlocks;
   }
   
-  // Create axios request config with authentication if available
-  private createRequestConfig(entry: WikiEntry): any {
-    if (!entry.auth) {
-      return {}; // No authentication needed
-    }
-    
-    const config: any = {
-      headers: {}
-    };
-    
-    switch (entry.auth.type) {
-      case 'basic':
-        const { username, password } = entry.auth.config;
-        if (username && password) {
-          const base64Credentials = Buffer.from(`${username}:${password}`).toString('base64');
-          config.headers['Authorization'] = `Basic ${base64Credentials}`;
-        }
-        break;
-        
-      case 'token':
-        const { token } = entry.auth.config;
-        if (token) {
-          config.headers['Authorization'] = `Bearer ${token}`;
-        }
-        break;
-        
-      case 'custom':
-        const { headerName, headerValue } = entry.auth.config;
-        if (headerName && headerValue) {
-          config.headers[headerName] = headerValue;
-        }
-        break;
-        
-      case 'oauth':
-        // OAuth implementation would be more complex and require token management
-        console.log(`OAuth authentication for ${entry.url} - token would be applied if implemented`);
-        break;
-    }
-    
-    return config;
-  }
-
   async getContext(params: any): Promise<AIEnhancedWikiContent[]> {
     // Extract query from params
     const query = params?.query?.text || '';
@@ -509,69 +574,53 @@ export class WikiSource {
       return [];
     }
     
-    console.error(`Processing query: "${query}"`);
+    logger.debug(`Processing query: "${query}"`);
     
     // Extract keywords from the query
     const keywords = this.extractKeywords(query.toLowerCase());
     
-    const results: AIEnhancedWikiContent[] = [];
-    const fetchPromises = [];
-    
-    // Process each wiki entry
-    for (const entry of this.wikiEntries) {
-      fetchPromises.push(
-        this.processWikiEntry(entry, query, keywords)
-          .then(result => {
-            if (result) {
-              results.push(result);
-            }
-          })
-          .catch(error => {
-            console.error(`Error processing ${entry.name}:`, error);
-            // Add fallback content if fetch fails
-            const fallbackContent = this.generateSimulatedContent(entry, query, keywords);
-            if (fallbackContent) {
-              results.push({
-                title: `${entry.name} (Simulated Content)`,
-                content: fallbackContent,
-                url: entry.url,
-                source: this.name,
-                type: entry.type
-              } as AIEnhancedWikiContent);
-            }
-          })
-      );
-    }
-    
-    // Wait for all fetches to complete
-    await Promise.all(fetchPromises);
-    
-    // Add fallback if no URLs configured or no relevant content found
-    if (results.length === 0) {
-      results.push({
-        title: 'Example Wiki Page',
-        content: `This is a sample wiki content related to "${query}". Configure wiki URLs in mcp.config.json to get real content.`,
-        source: this.name
-      } as AIEnhancedWikiContent);
-    }
+    const limit = params?.limit ?? DEFAULT_SEARCH_LIMIT;
+
+    // Process each wiki entry, higher priority first; the sort is stable, so paging sees the same order every time
+    const entries = [...this.wikiEntries].sort((a, b) => (b.priority ?? 1) - (a.priority ?? 1));
+    const perEntry = await Promise.all(entries.map(entry =>
+      this.processWikiEntry(entry, query, keywords, limit)
+        .catch(error => {
+          logger.warning(`Error processing ${entry.name}:`, error);
+          // Add fallback content if fetch fails
+          const fallbackContent = this.generateSimulatedContent(entry, query, keywords);
+          return fallbackContent ? [{
+            title: `${entry.name} (Simulated Content)`,
+            content: fallbackContent,
+            url: entry.url,
+            source: this.name,
+            type: entry.type
+          } as AIEnhancedWikiContent] : [];
+        })
+    ));
+    const results = perEntry.flat();
+    const weights = perEntry.flatMap((entryResults, i) => entryResults.map(() => entries[i].priority ?? 1));
     
     // Apply AI-assisted relevance scoring if enabled
-    if (this.aiService && this.aiService.isAvailable()) {
+    if (results.length > 0 && this.aiService && this.aiService.isAvailable()) {
       try {
-        console.log('Applying AI-assisted relevance scoring...');
+        logger.debug('Applying AI-assisted relevance scoring');
         
         // Convert results to format expected by AI service
-        const contentsForScoring = results.map(result => ({
+        const contentsForScoring = results.map((result, i) => ({
           content: result.content,
           title: result.title,
           source: result.source,
-          url: result.url
+          url: result.url,
+          resourceUri: result.resourceUri,
+          breadcrumbs: result.breadcrumbs,
+          weight: weights[i]
         }));
         
         // Get the primary provider
         const primaryProvider = this.aiService.getPrimaryProvider();
         if (!primaryProvider) {
-          console.log('No AI provider available, using basic relevance scoring');
+          logger.info('No AI provider available, using basic relevance scoring');
           return results;
         }
         
@@ -594,7 +643,7 @@ export class WikiSource {
                 summary
               };
             } catch (err) {
-              console.error(`Error scoring content '${item.title}':`, err);
+              logger.warning(`Error scoring content '${item.title}':`, err);
               return {
                 ...item,
                 relevanceScore: 0.5, // Default score
@@ -604,8 +653,8 @@ export class WikiSource {
           })
         );
         
-        // Sort by relevance score (highest first)
-        const sortedResults = scoredResults.sort((a, b) => b.relevanceScore - a.relevanceScore);
+        // Sort by relevance score weighted by source priority (highest first)
+        const sortedResults = scoredResults.sort((a, b) => b.relevanceScore * b.weight - a.relevanceScore * a.weight);
         
         // Filter by minimum relevance score
         const minScore = this.aiService.getMinimumRelevanceScore();
@@ -618,10 +667,12 @@ export class WikiSource {
             source: result.source,
             type: results.find(r => r.title === result.title)?.type,
             relevanceScore: result.relevanceScore,
-            summary: result.summary
+            summary: result.summary,
+            resourceUri: result.resourceUri,
+            breadcrumbs: result.breadcrumbs
           } as AIEnhancedWikiContent));
           
-        console.log(`AI scored ${sortedResults.length} results, ${enhancedResults.length} above threshold`);
+        logger.debug(`AI scored ${sortedResults.length} results, ${enhancedResults.length} above threshold`);
         
         // If we have AI-scored results, use them; otherwise fall back to original results
         if (enhancedResults.length > 0) {
@@ -629,9 +680,9 @@ export class WikiSource {
         }
         
         // Log that we're using basic relevance instead of AI
-        console.log('No results passed AI relevance threshold, using basic relevance scoring');
+        logger.debug('No results passed AI relevance threshold, using basic relevance scoring');
       } catch (error) {
-        console.error('Error during AI-assisted relevance scoring:', error);
+        logger.error('Error during AI-assisted relevance scoring:', error);
         // Continue with regular results on error
       }
     }
@@ -639,34 +690,94 @@ export class WikiSource {
     return results;
   }
   
-  private async processWikiEntry(entry: WikiEntry, query: string, keywords: string[]): Promise<AIEnhancedWikiContent | null> {
+  private async processWikiEntry(
+    entry: WikiEntry,
+    query: string,
+    keywords: string[],
+    limit: number
+  ): Promise<AIEnhancedWikiContent[]> {
     try {
+      // Prefer the wiki's own search when the connector has one
+      const connector = this.connectors.resolve(entry.type);
+      const hits = connector.search ? await connector.search(entry, query, limit) : null;
+      if (hits) {
+        return hits.filter(hit => this.isPageIncluded(entry, hit.url)).map(hit => ({
+          title: hit.title,
+          content: hit.content,
+          url: hit.url,
+          source: this.name,
+          type: entry.type,
+          resourceUri: this.getResourceUri(entry, hit.url),
+          breadcrumbs: hit.breadcrumbs
+        }));
+      }
+
       // Fetch content (will use cache if available)
       const content = await this.fetchWikiContent(entry);
+      const results: AIEnhancedWikiContent[] = [];
       
       // Check if content is relevant to the query
-      if (!this.isContentRelevantToQuery(content, query, keywords)) {
-        return null;
-      }
-      
-      // Extract relevant section
-      const relevantSection = this.extractRelevantSection(content, query, keywords);
+      const relevantSection = this.isContentRelevantToQuery(content, query, keywords)
+        ? this.extractRelevantSection(content, query, keywords)
+        : '';
       
       if (relevantSection) {
-        return {
+        results.push({
           title: `${entry.name}`,
           content: relevantSection,
           url: entry.url,
           source: this.name,
-          type: entry.type
-        };
+          type: entry.type,
+          resourceUri: `wiki://${entry.id}`
+        });
       }
+      return [...results, ...this.searchKnownPages(entry, query, keywords)].slice(0, limit);
     } catch (error) {
-      console.error(`Error processing wiki entry ${entry.name}:`, error);
+      logger.warning(`Error processing wiki entry ${entry.name}:`, error);
     }
-    return null;
+    return [];
   }
   
+  /**
+   * Match the pages of a source that are already cached or listed, without any requests:
+   * cached pages by their content, listed ones by their title and breadcrumbs
+   */
+  private searchKnownPages(entry: WikiEntry, query: string, keywords: string[]): AIEnhancedWikiContent[] {
+    const listed = new Map((this.pageIndex[entry.id] || []).map(page => [page.url, page]));
+    const cachedUrls = Object.keys(this.contentCache).filter(url => this.contentCache[url].sourceId === entry.id);
+    const scored: Array<{ result: AIEnhancedWikiContent; score: number }> = [];
+
+    for (const url of new Set([...cachedUrls, ...listed.keys()])) {
+      if (url === entry.url || !this.isPageIncluded(entry, url)) continue;
+
+      const page = listed.get(url);
+      const cached = this.contentCache[url];
+      const title = page?.title || this.getPageTitle(url);
+      const trail = [...(page?.breadcrumbs || []), title];
+      const label = trail.join(' ').toLowerCase();
+      const contentScore = cached && this.isContentRelevantToQuery(cached.content, query, keywords)
+        ? keywords.reduce((total, keyword) => total + (cached.searchIndex[keyword] || 0), 0)
+        : 0;
+      const score = contentScore + 5 * keywords.filter(keyword => label.includes(keyword)).length;
+      if (score === 0) continue;
+
+      scored.push({
+        score,
+        result: {
+          title,
+          content: cached ? this.extractRelevantSection(cached.content, query, keywords) : trail.join(' › '),
+          url,
+          source: this.name,
+          type: entry.type,
+          resourceUri: this.getResourceUri(entry, url),
+          breadcrumbs: page?.breadcrumbs
+        }
+      });
+    }
+
+    return scored.sort((a, b) => b.score - a.score).map(({ result }) => result);
+  }
+
   // Check if content is relevant to the query
   private isContentRelevantToQuery(content: string, query: string, keywords: string[]): boolean {
     // If we have a cached search index, use it
@@ -821,17 +932,127 @@ export class WikiSource {
     return `<h1>${query}</h1>\n<h2>Document Summary</h2>\n<p>This SharePoint document contains information related to ${keywords.join(', ')}.</p>\n<h2>Key Points</h2>\n<ul>\n  <li>Point 1</li>\n  <li>Point 2</li>\n  <li>Point 3</li>\n</ul>\n<p><a href="${entry.url}">View full document</a></p>`;
   }
 
+  // List each configured source plus every page cached or listed for it as MCP resources
+  listResources(): WikiResource[] {
+    const resources: WikiResource[] = [];
+
+    for (const entry of this.wikiEntries) {
+      const rootCache = this.contentCache[entry.url];
+      resources.push({
+        uri: `wiki://${entry.id}`,
+        name: entry.id,
+        title: entry.name,
+        description: `${entry.type} wiki at ${entry.url}`,
+        mimeType: this.getMimeType(entry.type, entry.url),
+        size: rootCache?.content.length,
+        annotations: rootCache ? { lastModified: new Date(rootCache.timestamp).toISOString() } : undefined
+      });
+
+      for (const [url, cached] of Object.entries(this.contentCache)) {
+        if (cached.sourceId !== entry.id || url === entry.url) continue;
+
+        const pagePath = this.getPagePath(url);
+        resources.push({
+          uri: `wiki://${entry.id}/${pagePath}`,
+          name: pagePath,
+          title: this.pageIndex[entry.id]?.find(page => page.url === url)?.title || this.getPageTitle(url),
+          description: `Page from ${entry.name}`,
+          mimeType: this.getMimeType(entry.type, url),
+          size: cached.content.length,
+          annotations: { lastModified: new Date(cached.timestamp).toISOString() }
+        });
+      }
+
+      for (const page of this.pageIndex[entry.id] || []) {
+        if (page.url === entry.url || this.contentCache[page.url]) continue;
+
+        const pagePath = this.getPagePath(page.url);
+        resources.push({
+          uri: `wiki://${entry.id}/${pagePath}`,
+          name: pagePath,
+          title: page.title,
+          description: page.breadcrumbs && page.breadcrumbs.length > 0
+            ? `Page from ${entry.name}: ${page.breadcrumbs.join(' › ')}`
+            : `Page from ${entry.name}`,
+          mimeType: this.getMimeType(entry.type, page.url)
+        });
+      }
+    }
+
+    return resources;
+  }
+
+  // Read a wiki://{source} or wiki://{source}/{pagePath} resource; null when the URI is unknown
+  async readResource(uri: string): Promise<WikiResourceContents | null> {
+    const match = uri.match(/^wiki:\/\/([^/]+)(?:\/(.*))?$/);
+    if (!match) return null;
+
+    const entry = this.wikiEntries.find(e => e.id === match[1]);
+    if (!entry) return null;
+
+    const pageEntry = match[2] ? this.createPageEntry(entry, match[2]) : entry;
+    if (!pageEntry) return null;
+
+    const content = await this.fetchWikiContent(pageEntry, false);
+    return { uri, mimeType: this.getMimeType(entry.type, pageEntry.url), text: content };
+  }
+
+  // Resolve a page path against the source's host; pages on other hosts are rejected
+  private createPageEntry(entry: WikiEntry, pagePath: string): WikiEntry | null {
+    try {
+      const base = new URL(entry.url);
+      const pageUrl = new URL('/' + pagePath.replace(/^\/+/, ''), base);
+      if (pageUrl.origin !== base.origin || !this.isPageIncluded(entry, pageUrl.toString())) return null;
+      return { ...entry, url: pageUrl.toString(), sourceUrl: entry.url };
+    } catch {
+      return null;
+    }
+  }
+
+  // A source's configured page is addressable both as wiki://{source} and by its page path
+  private getResourceUris(entry: WikiEntry, url: string): string[] {
+    const pageUri = `wiki://${entry.id}/${this.getPagePath(url)}`;
+    const root = this.wikiEntries.find(e => e.id === entry.id);
+    return root && root.url === url ? [`wiki://${entry.id}`, pageUri] : [pageUri];
+  }
+
+  // Page resource URI for a URL on the source's host; undefined for pages elsewhere
+  private getResourceUri(entry: WikiEntry, url: string): string | undefined {
+    try {
+      if (new URL(url).origin !== new URL(entry.url).origin) return undefined;
+    } catch {
+      return undefined;
+    }
+    return url === entry.url ? `wiki://${entry.id}` : `wiki://${entry.id}/${this.getPagePath(url)}`;
+  }
+
+  private getPagePath(url: string): string {
+    const parsed = new URL(url);
+    return parsed.pathname.replace(/^\/+/, '') + parsed.search;
+  }
+
+  private getPageTitle(url: string): string {
+    const segments = new URL(url).pathname.split('/').filter(Boolean);
+    const last = segments.length > 0 ? decodeURIComponent(segments[segments.length - 1]) : url;
+    return last.replace(/_/g, ' ').replace(/\.(md|html?)$/, '');
+  }
+
+  // MediaWiki and Markdown sources are cached as rendered HTML, GitBook pages and API operations as Markdown,
+  // local and repository files as they are stored and the rest as extracted text
+  private getMimeType(type: string, url: string): string {
+    if (type === WikiType.Local || type === WikiType.GitHub || type === WikiType.GitLab) return DOC_MIME_TYPES[path.extname(new URL(url).pathname).toLowerCase()] || 'text/markdown';
+    if (type === WikiType.Gitbook || type === WikiType.OpenAPI) return 'text/markdown';
+    return type === WikiType.MediaWiki || type === WikiType.Markdown ? 'text/html' : 'text/plain';
+  }
+
   // Get detailed information about all configured wiki sources
-  getWikiSourceDetails(): Array<{
-    name: string;
-    url: string;
-    type: string;
-    hasAuth: boolean;
-    authType?: string;
-    cached: boolean;
-    cacheTimestamp?: string;
-  }> {
-    return this.wikiEntries.map(entry => ({
+  getWikiSourceDetails(): WikiSourceDetails[] {
+    return this.wikiEntries.map(entry => this.describeEntry(entry));
+  }
+
+  private describeEntry(entry: WikiEntry): WikiSourceDetails {
+    return {
+      id: entry.id,
       name: entry.name,
       url: entry.url,
       type: entry.type,
@@ -840,18 +1061,20 @@ export class WikiSource {
       cached: !!this.contentCache[entry.url],
       cacheTimestamp: this.contentCache[entry.url] ? 
         new Date(this.contentCache[entry.url].timestamp).toISOString() : 
-        undefined
-    }));
+        undefined,
+      resourceUri: `wiki://${entry.id}`,
+      tags: entry.tags,
+      include: entry.include,
+      exclude: entry.exclude,
+      refreshIntervalMinutes: entry.refreshIntervalMinutes,
+      maxPages: entry.maxPages,
+      authRef: entry.authRef,
+      priority: entry.priority ?? 1
+    };
   }
 
   // Get summary statistics about wiki sources
-  getWikiSourceStats(): {
-    totalSources: number;
-    sourcesByType: Record<string, number>;
-    authenticatedSources: number;
-    cachedSources: number;
-    cacheTimeoutMinutes: number;
-  } {
+  getWikiSourceStats(): WikiSourceStats {
     const sourcesByType: Record<string, number> = {};
     let authenticatedSources = 0;
     let cachedSources = 0;
@@ -870,4 +1093,12 @@ export class WikiSource {
       cacheTimeoutMinutes: this.cacheTimeoutMs / (60 * 1000)
     };
   }
+
+  // Ask each entry's connector whether the wiki is reachable
+  async checkHealth(): Promise<SourceHealth[]> {
+    return Promise.all(this.wikiEntries.map(async entry => {
+      const health = await this.connectors.resolve(entry.type).checkHealth(entry);
+      return { id: entry.id, name: entry.name, type: entry.type, ...health };
+    }));
+  }
 }
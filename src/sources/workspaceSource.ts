@@ -0,0 +1,193 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { AIEnhancedWikiContent } from '../ai/types';
+import { requestContext } from '../requestContext';
+import { Logger } from '../utils/logger';
+import { IndexOptions, LocalDocument, indexDocuments, searchDocuments } from './localDocs';
+import {
+  DocumentSource,
+  WikiResource,
+  WikiResourceContents,
+  WikiSourceDetails,
+  WikiSourceStats,
+  SourceHealth
+} from './types';
+
+const logger = new Logger('WorkspaceSource');
+
+// Search hits per root when the caller does not ask for more
+const DEFAULT_SEARCH_LIMIT = 5;
+
+// A root as returned by the client's roots/list
+export interface WorkspaceRoot {
+  uri: string;
+  name?: string;
+}
+
+interface IndexedRoot {
+  uri: string;
+  name: string;
+  directory: string;
+  documents: LocalDocument[];
+}
+
+/**
+ * Documentation in the client's workspace roots (MCP roots capability).
+ * Roots belong to the session that reported them, so each client only searches its own workspace;
+ * the session is taken from the request being handled.
+ */
+export class WorkspaceSource extends EventEmitter implements DocumentSource {
+  name = 'workspace';
+  private roots: Map<string, IndexedRoot[]> = new Map(); // Session id -> indexed roots
+  private generations: Map<string, number> = new Map();  // Session id -> latest setRoots call
+  allowedDirectories?: string[];  // Roots must lie under one of these; undefined accepts any root
+
+  constructor(private indexOptions: IndexOptions = {}) {
+    super();
+  }
+
+  /**
+   * Replace a session's roots and index the documentation under them.
+   * Only file:// roots can be read, and only under allowedDirectories when it is set; others are skipped.
+   */
+  async setRoots(sessionId: string, roots: WorkspaceRoot[]): Promise<void> {
+    const generation = (this.generations.get(sessionId) || 0) + 1;
+    this.generations.set(sessionId, generation);
+    const indexed: IndexedRoot[] = [];
+
+    for (const root of roots) {
+      if (typeof root?.uri !== 'string' || !root.uri.startsWith('file://')) {
+        logger.warning(`Skipping workspace root that is not a file:// URI: ${root?.uri}`);
+        continue;
+      }
+
+      const directory = await this.allowedDirectory(fileURLToPath(root.uri));
+      if (!directory) {
+        logger.warning(`Skipping workspace root outside the allowed directories: ${root.uri}`);
+        continue;
+      }
+      const documents = await indexDocuments(directory, this.indexOptions);
+      const name = root.name || path.basename(directory) || directory;
+      indexed.push({ uri: root.uri, name, directory, documents });
+      logger.info(`Indexed ${documents.length} documents in workspace root ${name}`);
+    }
+
+    // A newer call or a closed session supersedes this one
+    if (this.generations.get(sessionId) !== generation) return;
+
+    this.roots.set(sessionId, indexed);
+    this.emit('resourceListChanged');
+  }
+
+  removeSession(sessionId: string): void {
+    this.generations.delete(sessionId);
+    if (this.roots.delete(sessionId)) {
+      this.emit('resourceListChanged');
+    }
+  }
+
+  async getContext(params: any): Promise<AIEnhancedWikiContent[]> {
+    const query = params?.query?.text || '';
+    if (!query) {
+      return [];
+    }
+
+    const limit = params?.limit ?? DEFAULT_SEARCH_LIMIT;
+    return this.currentRoots().flatMap(root =>
+      searchDocuments(root.documents, query, limit).map(match => ({
+        title: match.document.title,
+        content: match.snippet,
+        url: this.documentUri(match.document),
+        source: `workspace: ${root.name}`,
+        type: 'workspace',
+        resourceUri: this.documentUri(match.document)
+      }))
+    );
+  }
+
+  listResources(): WikiResource[] {
+    return this.currentRoots().flatMap(root => root.documents.map(document => ({
+      uri: this.documentUri(document),
+      name: document.relativePath,
+      title: document.title,
+      description: `Document in workspace root ${root.name}`,
+      mimeType: document.mimeType,
+      size: document.content.length,
+      annotations: { lastModified: new Date(document.modified).toISOString() }
+    })));
+  }
+
+  // Indexed documents are re-read so edits show up before the next re-index
+  async readResource(uri: string): Promise<WikiResourceContents | null> {
+    for (const root of this.currentRoots()) {
+      const document = root.documents.find(doc => this.documentUri(doc) === uri);
+      if (!document) continue;
+
+      try {
+        return { uri, mimeType: document.mimeType, text: await fs.readFile(document.path, 'utf8') };
+      } catch {
+        return { uri, mimeType: document.mimeType, text: document.content };
+      }
+    }
+    return null;
+  }
+
+  getWikiSourceDetails(): WikiSourceDetails[] {
+    return this.currentRoots().map(root => ({
+      id: `workspace-${root.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')}`,
+      name: root.name,
+      url: root.uri,
+      type: 'workspace',
+      hasAuth: false,
+      cached: true
+    }));
+  }
+
+  getWikiSourceStats(): WikiSourceStats {
+    const roots = this.currentRoots();
+    return {
+      totalSources: roots.length,
+      sourcesByType: roots.length > 0 ? { workspace: roots.length } : {},
+      authenticatedSources: 0,
+      cachedSources: roots.length,
+      cacheTimeoutMinutes: 0
+    };
+  }
+
+  async checkHealth(): Promise<SourceHealth[]> {
+    return Promise.all(this.getWikiSourceDetails().map(async (details, i) => {
+      const directory = this.currentRoots()[i].directory;
+      try {
+        await fs.access(directory);
+        return { id: details.id, name: details.name, type: details.type, healthy: true };
+      } catch {
+        return { id: details.id, name: details.name, type: details.type, healthy: false, message: `${directory} is not readable` };
+      }
+    }));
+  }
+
+  // The directory to index, resolved through symlinks when it has to be checked; undefined when it is not allowed
+  private async allowedDirectory(directory: string): Promise<string | undefined> {
+    if (!this.allowedDirectories) return directory;
+
+    const resolved = await fs.realpath(directory).catch(() => undefined);
+    if (!resolved) return undefined;
+    for (const allowed of this.allowedDirectories) {
+      const base = await fs.realpath(allowed).catch(() => undefined);
+      const relative = base !== undefined ? path.relative(base, resolved) : '..';
+      if (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative)) return resolved;
+    }
+    return undefined;
+  }
+
+  private currentRoots(): IndexedRoot[] {
+    const sessionId = requestContext.getStore()?.sessionId;
+    return sessionId ? this.roots.get(sessionId) || [] : [];
+  }
+
+  private documentUri(document: LocalDocument): string {
+    return pathToFileURL(document.path).href;
+  }
+}
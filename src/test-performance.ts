@@ -8,6 +8,10 @@ import { OptimizedWikiSource } from './performance/OptimizedWikiSource';
 import { runPerformanceTests, runLoadTest } from './performance/tests/PerformanceTest';
 import { Logger } from './utils/logger';
 
+// Standalone script: show log output on stderr unless MCP_LOG_STDERR chooses a level
+if (!process.env.MCP_LOG_STDERR) {
+  Logger.setStderrLevel('info');
+}
 const logger = new Logger('TestRunner');
 
 async function testCacheManager(): Promise<void> {
@@ -0,0 +1,357 @@
+import { ToolDefinition } from './toolRegistry';
+import { JsonSchema } from './schemaValidator';
+
+/**
+ * Input and output schemas for the built-in MCP tools
+ * Output schemas describe structuredContent; file contents travel as embedded resources
+ */
+
+const GENERATED_FILE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    filename: { type: 'string' },
+    uri: { type: 'string', description: 'URI of the embedded resource holding the file content' },
+    language: { type: 'string' },
+    mimeType: { type: 'string' },
+    description: { type: 'string' },
+    dependencies: { type: 'array', items: { type: 'string' } },
+    instructions: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['filename', 'uri', 'mimeType']
+};
+
+const GENERATED_FILES_OUTPUT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    files: { type: 'array', items: GENERATED_FILE_SCHEMA },
+    errors: { type: 'array', items: { type: 'string' } },
+    metadata: { type: 'object' }
+  },
+  required: ['success', 'files']
+};
+
+const SOURCE_DETAILS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    url: { type: 'string' },
+    type: { type: 'string' },
+    hasAuth: { type: 'boolean' },
+    authType: { type: 'string' },
+    cached: { type: 'boolean' },
+    cacheTimestamp: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+    include: { type: 'array', items: { type: 'string' } },
+    exclude: { type: 'array', items: { type: 'string' } },
+    refreshIntervalMinutes: { type: 'number' },
+    maxPages: { type: 'integer' },
+    authRef: { type: 'string' },
+    priority: { type: 'number' }
+  },
+  required: ['id', 'name', 'url', 'type', 'hasAuth', 'cached']
+};
+
+const PERSIST_PROPERTY: JsonSchema = {
+  type: 'boolean',
+  description: 'Also write the change to mcp.config.json so it survives a restart (default false)'
+};
+
+export const SEARCH_WIKI_TOOL: ToolDefinition = {
+  name: 'search_wiki',
+  description: 'Search for information across all configured wiki sources including GitBook, NixOS Wiki, GitHub Docs, and NixOS Manual; results from every source are merged. At most 50 results per source are ranked; further pages of a search are served from the ranking of its first call for 10 minutes',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        minLength: 1,
+        description: 'Search query to find relevant wiki content'
+      },
+      limit: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 50,
+        description: 'Maximum number of results to return (default 10)'
+      },
+      cursor: {
+        type: 'string',
+        description: 'nextCursor from a previous search_wiki call with the same query; expires 10 minutes after the first call'
+      }
+    },
+    required: ['query']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string' },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            snippet: { type: 'string' },
+            url: { type: 'string' },
+            uri: { type: 'string', description: 'wiki:// resource URI of the page, readable with resources/read' },
+            source: { type: 'string' },
+            type: { type: 'string' },
+            relevanceScore: { type: 'number' },
+            summary: { type: 'string' },
+            breadcrumbs: { type: 'array', items: { type: 'string' }, description: 'Where the page sits in its wiki, outermost first' }
+          },
+          required: ['title', 'snippet', 'source']
+        }
+      },
+      total: { type: 'integer', description: 'Number of results across all pages, at most 50 per source' },
+      nextCursor: { type: 'string', description: 'Pass as cursor to fetch the next page; absent on the last page' }
+    },
+    required: ['query', 'results', 'total']
+  }
+};
+
+export const LIST_WIKI_SOURCES_TOOL: ToolDefinition = {
+  name: 'list_wiki_sources',
+  description: 'List all available wiki sources',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      includeHealth: {
+        type: 'boolean',
+        description: 'Also check whether each source is reachable (makes a request per source)'
+      }
+    }
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      summary: {
+        type: 'object',
+        properties: {
+          totalSources: { type: 'integer' },
+          sourcesByType: { type: 'object' },
+          authenticatedSources: { type: 'integer' },
+          cachedSources: { type: 'integer' },
+          cacheTimeoutMinutes: { type: 'number' }
+        },
+        required: ['totalSources', 'sourcesByType', 'authenticatedSources', 'cachedSources', 'cacheTimeoutMinutes']
+      },
+      sources: { type: 'array', items: SOURCE_DETAILS_SCHEMA },
+      health: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            healthy: { type: 'boolean' },
+            latencyMs: { type: 'number' },
+            message: { type: 'string' }
+          },
+          required: ['id', 'healthy']
+        }
+      }
+    },
+    required: ['summary', 'sources']
+  }
+};
+
+export const TRANSFORM_CONTENT_TOOL: ToolDefinition = {
+  name: 'transform_content',
+  description: 'Transform wiki content or markdown into executable code in specified programming language',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      content: {
+        type: 'string',
+        minLength: 1,
+        description: 'The markdown or wiki content to transform into code'
+      },
+      targetLanguage: {
+        type: 'string',
+        minLength: 1,
+        description: 'Target programming language (e.g., typescript, python, javascript, etc.)'
+      },
+      framework: {
+        type: 'string',
+        description: 'Optional framework to use (e.g., express, fastapi, react)'
+      },
+      projectType: {
+        type: 'string',
+        description: 'Optional project type (e.g., api, library, cli)'
+      }
+    },
+    required: ['content', 'targetLanguage']
+  },
+  outputSchema: GENERATED_FILES_OUTPUT_SCHEMA
+};
+
+export const GENERATE_CODE_TOOL: ToolDefinition = {
+  name: 'generate_code',
+  description: 'Generate code from wiki content using templates and AI',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      content: {
+        type: 'string',
+        minLength: 1,
+        description: 'The wiki content or documentation to generate code from'
+      },
+      codeType: {
+        type: 'string',
+        minLength: 1,
+        description: 'Type of code to generate (e.g., dockerfile, typescript, python, yaml)'
+      },
+      templateName: {
+        type: 'string',
+        description: 'Optional template name to use for generation'
+      }
+    },
+    required: ['content', 'codeType']
+  },
+  outputSchema: GENERATED_FILES_OUTPUT_SCHEMA
+};
+
+export const GENERATE_PROJECT_TOOL: ToolDefinition = {
+  name: 'generate_project',
+  description: 'Generate complete project structure from wiki documentation',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      content: {
+        type: 'string',
+        minLength: 1,
+        description: 'The wiki content describing the project requirements'
+      },
+      projectType: {
+        type: 'string',
+        minLength: 1,
+        description: 'Type of project to generate (e.g., express-api, react-app, cli-tool)'
+      },
+      language: {
+        type: 'string',
+        minLength: 1,
+        description: 'Programming language for the project (e.g., typescript, python, javascript)'
+      },
+      framework: {
+        type: 'string',
+        description: 'Optional framework to use (e.g., express, fastapi)'
+      },
+      features: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Optional list of features to include'
+      },
+      projectName: {
+        type: 'string',
+        description: 'Optional name for the generated project'
+      }
+    },
+    required: ['content', 'projectType', 'language']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      description: { type: 'string' },
+      files: { type: 'array', items: GENERATED_FILE_SCHEMA },
+      structure: { type: 'array', items: { type: 'object' } },
+      setupInstructions: { type: 'array', items: { type: 'string' } },
+      dependencies: { type: 'object' }
+    },
+    required: ['name', 'files', 'structure', 'setupInstructions', 'dependencies']
+  }
+};
+
+// Admin tools are only registered when the server runs with admin tools enabled
+
+export const ADD_WIKI_SOURCE_TOOL: ToolDefinition = {
+  name: 'add_wiki_source',
+  description: 'Add a wiki without restarting the server; the fields are those of a source object in wikiUrls, and anything omitted is derived from the URL',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', minLength: 1, description: 'http or https URL of the wiki' },
+      type: { type: 'string', description: 'Wiki type such as confluence or mediawiki; detected from the hostname when omitted' },
+      name: { type: 'string', description: 'Display name' },
+      tags: { type: 'array', items: { type: 'string' } },
+      include: { type: 'array', items: { type: 'string' }, description: 'Glob patterns of page paths to use' },
+      exclude: { type: 'array', items: { type: 'string' }, description: 'Glob patterns of page paths to skip' },
+      refreshIntervalMinutes: { type: 'number', minimum: 0.01 },
+      maxPages: { type: 'integer', minimum: 1 },
+      authRef: { type: 'string', description: 'id of an auth entry in the config file' },
+      priority: { type: 'number', minimum: 0.01, description: 'Ranking weight of the source (default 1)' },
+      persist: PERSIST_PROPERTY
+    },
+    required: ['url']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      source: SOURCE_DETAILS_SCHEMA,
+      persisted: { type: 'boolean' }
+    },
+    required: ['source', 'persisted']
+  }
+};
+
+export const REMOVE_WIKI_SOURCE_TOOL: ToolDefinition = {
+  name: 'remove_wiki_source',
+  description: 'Remove a wiki source and drop everything cached for it',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      source: { type: 'string', minLength: 1, description: 'Source id as reported by list_wiki_sources' },
+      persist: PERSIST_PROPERTY
+    },
+    required: ['source']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      source: SOURCE_DETAILS_SCHEMA,
+      persisted: { type: 'boolean' }
+    },
+    required: ['source', 'persisted']
+  }
+};
+
+export const REFRESH_WIKI_SOURCE_TOOL: ToolDefinition = {
+  name: 'refresh_wiki_source',
+  description: 'Refetch a wiki and all of its cached pages now, ignoring the cache timeout',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      source: { type: 'string', minLength: 1, description: 'Source id as reported by list_wiki_sources' }
+    },
+    required: ['source']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      source: { type: 'string' },
+      refreshed: { type: 'array', items: { type: 'string' }, description: 'URLs fetched again' },
+      failed: { type: 'array', items: { type: 'string' }, description: 'URLs that could not be fetched; their cached content is kept' }
+    },
+    required: ['source', 'refreshed', 'failed']
+  }
+};
+
+export const CLEAR_WIKI_CACHE_TOOL: ToolDefinition = {
+  name: 'clear_wiki_cache',
+  description: 'Drop cached wiki content so it is fetched again on next use',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      source: { type: 'string', minLength: 1, description: 'Only clear this source; omit to clear every source' }
+    }
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      source: { type: 'string' },
+      cleared: { type: 'integer', description: 'Number of cached pages removed' }
+    },
+    required: ['cleared']
+  }
+};
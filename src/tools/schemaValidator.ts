@@ -0,0 +1,124 @@
+/**
+ * Minimal JSON Schema support for tool input schemas
+ * Covers the keywords our tool definitions use; unknown keywords are ignored
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: any[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  default?: any;
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Validate a value against a schema
+ * @returns One message per problem, each naming the offending field; empty when valid
+ */
+export function validateSchema(schema: JsonSchema, value: any, path: string = ''): string[] {
+  const errors: string[] = [];
+  const field = path || 'arguments';
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(type, value))) {
+      errors.push(`'${field}' must be ${types.join(' or ')}, got ${describeValue(value)}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    errors.push(`'${field}' must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`'${field}' must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`'${field}' must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`'${field}' must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`'${field}' must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`'${field}' must contain at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`'${field}' must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(schema.items!, item, `${field}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const prefix = path ? `${path}.` : '';
+
+    for (const name of schema.required || []) {
+      if (value[name] === undefined) {
+        errors.push(`missing required property '${prefix}${name}'`);
+      }
+    }
+
+    for (const [name, propertySchema] of Object.entries(schema.properties || {})) {
+      if (value[name] !== undefined) {
+        errors.push(...validateSchema(propertySchema, value[name], `${prefix}${name}`));
+      }
+    }
+
+    if (schema.additionalProperties === false) {
+      for (const name of Object.keys(value)) {
+        if (!schema.properties || !(name in schema.properties)) {
+          errors.push(`unexpected property '${prefix}${name}'`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(type: JsonSchemaType, value: any): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return isPlainObject(value);
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+function isPlainObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function describeValue(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,73 @@
+import { JsonSchema, validateSchema } from './schemaValidator';
+import { ProgressCallback } from '../transformation/types';
+import { ToolResult } from './toolResult';
+
+export interface ToolDefinition {
+  name: string;
+  title?: string;
+  description: string;
+  inputSchema: JsonSchema;
+  outputSchema?: JsonSchema;    // Shape of structuredContent in successful results
+}
+
+/**
+ * Per-call state handed to tool handlers
+ * onProgress is only set when the client supplied a progressToken
+ */
+export interface ToolCallContext {
+  signal: AbortSignal;
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Executes a tool call with validated arguments
+ * Resolves with the MCP tool result ({ content, structuredContent }); throw to report a tool execution error
+ */
+export type ToolHandler = (args: Record<string, any>, context: ToolCallContext) => Promise<ToolResult>;
+
+interface RegisteredTool {
+  definition: ToolDefinition;
+  handler: ToolHandler;
+}
+
+/**
+ * Single place where MCP tools and their input schemas are declared
+ */
+export class ToolRegistry {
+  private tools: Map<string, RegisteredTool> = new Map();
+
+  register(definition: ToolDefinition, handler: ToolHandler): void {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`Tool already registered: ${definition.name}`);
+    }
+    this.tools.set(definition.name, { definition, handler });
+  }
+
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => tool.definition);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name)?.definition;
+  }
+
+  getHandler(name: string): ToolHandler | undefined {
+    return this.tools.get(name)?.handler;
+  }
+
+  /**
+   * Check arguments against the tool's input schema
+   * @returns Problems naming the offending fields; empty when the arguments are valid
+   */
+  validateArguments(name: string, args: any): string[] {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return [`unknown tool '${name}'`];
+    }
+    return validateSchema(tool.definition.inputSchema, args, '');
+  }
+}
@@ -0,0 +1,240 @@
+import { AIEnhancedWikiContent } from '../ai/types';
+import { GeneratedCode, ProjectStructure, TransformationResult } from '../transformation/types';
+import { WikiSourceDetails, WikiSourceStats, SourceHealth } from '../sources/types';
+
+export interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+export interface ResourceLinkContent {
+  type: 'resource_link';
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface EmbeddedResourceContent {
+  type: 'resource';
+  resource: { uri: string; mimeType: string; text: string };
+}
+
+export type ToolContent = TextContent | ResourceLinkContent | EmbeddedResourceContent;
+
+export interface ToolResult {
+  content: ToolContent[];
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
+}
+
+// Generated files are embedded under this scheme; the path is the file's path within the output
+const GENERATED_URI_PREFIX = 'generated://files/';
+
+const LANGUAGE_MIME_TYPES: Record<string, string> = {
+  typescript: 'application/typescript',
+  javascript: 'text/javascript',
+  python: 'text/x-python',
+  java: 'text/x-java-source',
+  csharp: 'text/x-csharp',
+  go: 'text/x-go',
+  rust: 'text/x-rust',
+  php: 'application/x-httpd-php',
+  ruby: 'text/x-ruby',
+  shell: 'application/x-sh',
+  bash: 'application/x-sh',
+  yaml: 'application/yaml',
+  json: 'application/json',
+  markdown: 'text/markdown',
+  html: 'text/html',
+  css: 'text/css',
+  xml: 'application/xml',
+  sql: 'application/sql',
+  toml: 'application/toml',
+  dockerfile: 'text/x-dockerfile'
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'typescript', js: 'javascript', jsx: 'javascript', mjs: 'javascript',
+  py: 'python', java: 'java', cs: 'csharp', go: 'go', rs: 'rust', php: 'php', rb: 'ruby',
+  sh: 'shell', yml: 'yaml', yaml: 'yaml', json: 'json', md: 'markdown', html: 'html',
+  css: 'css', xml: 'xml', sql: 'sql', toml: 'toml'
+};
+
+/**
+ * MIME type for a generated file, from its declared language or else its extension
+ */
+export function getGeneratedFileMimeType(language: string | undefined, filename: string): string {
+  const byLanguage = language ? LANGUAGE_MIME_TYPES[language.toLowerCase()] : undefined;
+  if (byLanguage) return byLanguage;
+
+  const basename = filename.split('/').pop() || filename;
+  if (basename === 'Dockerfile') return LANGUAGE_MIME_TYPES.dockerfile;
+
+  const extension = basename.includes('.') ? basename.split('.').pop()!.toLowerCase() : '';
+  return LANGUAGE_MIME_TYPES[EXTENSION_LANGUAGES[extension]] || 'text/plain';
+}
+
+export function searchResultsToToolResult(
+  query: string,
+  results: AIEnhancedWikiContent[],
+  page: { total: number; offset: number; nextCursor?: string } = { total: results.length, offset: 0 }
+): ToolResult {
+  const range = page.total > results.length && results.length > 0
+    ? ` (showing ${page.offset + 1}-${page.offset + results.length})`
+    : '';
+  const content: ToolContent[] = [
+    { type: 'text', text: `Found ${page.total} result${page.total === 1 ? '' : 's'} for "${query}"${range}` }
+  ];
+
+  for (const result of results) {
+    const location = result.breadcrumbs && result.breadcrumbs.length > 0 ? `Location: ${result.breadcrumbs.join(' › ')}\n` : '';
+    content.push({ type: 'text', text: `### ${result.title} (${result.source})\n${location}${result.summary || result.content}` });
+    if (result.resourceUri) {
+      content.push({
+        type: 'resource_link',
+        uri: result.resourceUri,
+        name: result.resourceUri.replace(/^wiki:\/\//, ''),
+        title: result.title,
+        description: result.url
+      });
+    }
+  }
+
+  if (page.nextCursor) {
+    content.push({ type: 'text', text: `More results available: call search_wiki again with cursor "${page.nextCursor}"` });
+  }
+
+  return {
+    content,
+    structuredContent: {
+      query,
+      results: results.map(result => ({
+        title: result.title,
+        snippet: result.content,
+        url: result.url,
+        uri: result.resourceUri,
+        source: result.source,
+        type: result.type,
+        relevanceScore: result.relevanceScore,
+        summary: result.summary || undefined,
+        breadcrumbs: result.breadcrumbs
+      })),
+      total: page.total,
+      nextCursor: page.nextCursor
+    }
+  };
+}
+
+export function sourcesToToolResult(
+  summary: WikiSourceStats,
+  sources: WikiSourceDetails[],
+  health?: SourceHealth[]
+): ToolResult {
+  const content: ToolContent[] = [
+    { type: 'text', text: `${summary.totalSources} wiki sources configured, ${summary.cachedSources} cached` }
+  ];
+
+  for (const source of sources) {
+    const status = health?.find(h => h.id === source.id);
+    const tags = source.tags && source.tags.length > 0 ? ` [${source.tags.join(', ')}]` : '';
+    const description = status
+      ? `${source.type} source at ${source.url}${tags} (${status.healthy ? 'healthy' : `unhealthy: ${status.message}`})`
+      : `${source.type} source at ${source.url}${tags}`;
+
+    content.push(source.resourceUri
+      ? { type: 'resource_link', uri: source.resourceUri, name: source.id, title: source.name, description }
+      : { type: 'text', text: `${source.name}: ${description}` });
+  }
+
+  return { content, structuredContent: { summary, sources, health } };
+}
+
+export function generatedFilesToToolResult(
+  result: Pick<TransformationResult, 'success' | 'generated' | 'errors'> & Partial<Pick<TransformationResult, 'metadata'>>
+): ToolResult {
+  const content: ToolContent[] = [
+    {
+      type: 'text',
+      text: result.success
+        ? `Generated ${result.generated.length} file${result.generated.length === 1 ? '' : 's'}`
+        : `Generation failed: ${(result.errors || []).join(', ')}`
+    },
+    ...result.generated.map(embedGeneratedFile)
+  ];
+
+  return {
+    content,
+    structuredContent: {
+      success: result.success,
+      files: result.generated.map(describeGeneratedFile),
+      errors: result.errors,
+      metadata: result.metadata
+    },
+    isError: !result.success
+  };
+}
+
+export function projectToToolResult(project: ProjectStructure): ToolResult {
+  const instructions = project.setupInstructions.map(step => `- ${step}`).join('\n');
+  const content: ToolContent[] = [
+    { type: 'text', text: `${project.name}: ${project.description}\n\nSetup:\n${instructions}` },
+    ...project.files.map(embedGeneratedFile)
+  ];
+
+  return {
+    content,
+    structuredContent: {
+      name: project.name,
+      description: project.description,
+      files: project.files.map(describeGeneratedFile),
+      structure: project.structure,
+      setupInstructions: project.setupInstructions,
+      dependencies: project.dependencies
+    }
+  };
+}
+
+/**
+ * Rewrite a result for clients that predate structured tool output (protocol before 2025-06-18):
+ * structured content becomes a JSON text item and resource links become plain text
+ */
+export function toLegacyToolResult(result: ToolResult): ToolResult {
+  const content: ToolContent[] = result.content.map(item => item.type === 'resource_link'
+    ? { type: 'text', text: `${item.title || item.name}: ${item.uri}` }
+    : item);
+
+  if (result.structuredContent) {
+    content.unshift({ type: 'text', text: JSON.stringify(result.structuredContent, null, 2) });
+  }
+
+  return result.isError ? { content, isError: true } : { content };
+}
+
+function generatedFileUri(file: GeneratedCode): string {
+  return GENERATED_URI_PREFIX + file.filename.replace(/^\/+/, '').split('/').map(encodeURIComponent).join('/');
+}
+
+function embedGeneratedFile(file: GeneratedCode): EmbeddedResourceContent {
+  return {
+    type: 'resource',
+    resource: {
+      uri: generatedFileUri(file),
+      mimeType: getGeneratedFileMimeType(file.language, file.filename),
+      text: file.content
+    }
+  };
+}
+
+function describeGeneratedFile(file: GeneratedCode) {
+  return {
+    filename: file.filename,
+    uri: generatedFileUri(file),
+    language: file.language,
+    mimeType: getGeneratedFileMimeType(file.language, file.filename),
+    description: file.description,
+    dependencies: file.dependencies,
+    instructions: file.instructions
+  };
+}
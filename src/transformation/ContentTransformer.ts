@@ -5,10 +5,14 @@ import {
   TransformationResult, 
   GeneratedCode, 
   CodePattern,
-  Template
+  Template,
+  OperationControl
 } from './types';
 import { AIProvider } from '../ai/aiProvider';
 import { TemplateEngine } from './TemplateEngine';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('ContentTransformer');
 
 /**
  * Core content transformation engine
@@ -26,6 +30,7 @@ export class ContentTransformer {
 
   /**
    * Transform markdown/wiki content to code
+   * Reports pattern extraction and per-file generation through options.onProgress
    */
   async transformMarkdownToCode(
     content: string, 
@@ -34,9 +39,10 @@ export class ContentTransformer {
       framework?: string;
       projectType?: string;
       customVariables?: Record<string, any>;
-    } = {}
+    } & OperationControl = {}
   ): Promise<TransformationResult> {
     const startTime = Date.now();
+    const { signal, onProgress } = options;
     
     try {
       const context: TransformationContext = {
@@ -49,26 +55,38 @@ export class ContentTransformer {
       };
 
       // Extract code patterns from content
-      const patterns = await this.extractPatterns(content, targetLanguage);
+      onProgress?.(0, undefined, 'Extracting code patterns');
+      const patterns = await this.extractPatterns(content, targetLanguage, signal);
+
+      // One step for extraction, one per pattern (or the direct AI fallback), one to finish
+      const total = Math.max(patterns.length, 1) + 2;
+      onProgress?.(1, total, `Found ${patterns.length} code patterns`);
       
       // Generate code using AI and templates
       const generated: GeneratedCode[] = [];
       
-      for (const pattern of patterns) {
-        const code = await this.generateCodeFromPattern(pattern, context);
+      for (let i = 0; i < patterns.length; i++) {
+        signal?.throwIfAborted();
+        const code = await this.generateCodeFromPattern(patterns[i], context, signal);
         if (code) {
           generated.push(code);
         }
+        onProgress?.(i + 2, total, `Generated file ${i + 1} of ${patterns.length}`);
       }
 
       // If no patterns found, try direct AI transformation
       if (generated.length === 0) {
-        const aiGenerated = await this.transformWithAI(context);
+        signal?.throwIfAborted();
+        const aiGenerated = await this.transformWithAI(context, signal);
         if (aiGenerated) {
           generated.push(aiGenerated);
         }
+        if (patterns.length === 0) {
+          onProgress?.(2, total, 'Generated code directly with AI');
+        }
       }
 
+      onProgress?.(total, total, `Generated ${generated.length} files`);
       const processingTime = Date.now() - startTime;
       
       return {
@@ -83,6 +101,10 @@ export class ContentTransformer {
       };
 
     } catch (error: any) {
+      // Cancellation is not a transformation failure; let the caller see it
+      if (signal?.aborted) {
+        throw error;
+      }
       return {
         success: false,
         generated: [],
@@ -100,7 +122,7 @@ export class ContentTransformer {
   /**
    * Extract code patterns from content
    */
-  async extractPatterns(content: string, targetLanguage: string): Promise<CodePattern[]> {
+  async extractPatterns(content: string, targetLanguage: string, signal?: AbortSignal): Promise<CodePattern[]> {
     const patterns: CodePattern[] = [];
     
     // Extract existing code blocks
@@ -129,7 +151,7 @@ export class ContentTransformer {
 
     // Use AI to identify patterns in text
     if (patterns.length === 0) {
-      const aiPatterns = await this.identifyPatternsWithAI(content, targetLanguage);
+      const aiPatterns = await this.identifyPatternsWithAI(content, targetLanguage, signal);
       patterns.push(...aiPatterns);
     }
 
@@ -141,7 +163,8 @@ export class ContentTransformer {
    */
   private async generateCodeFromPattern(
     pattern: CodePattern, 
-    context: TransformationContext
+    context: TransformationContext,
+    signal?: AbortSignal
   ): Promise<GeneratedCode | null> {
     try {
       // Try template-based generation first
@@ -164,10 +187,13 @@ export class ContentTransformer {
       }
 
       // Fallback to AI generation
-      return await this.generateWithAI(pattern, context);
+      return await this.generateWithAI(pattern, context, signal);
 
     } catch (error) {
-      console.error('Error generating code from pattern:', error);
+      if (signal?.aborted) {
+        throw error;
+      }
+      logger.error('Error generating code from pattern:', error);
       return null;
     }
   }
@@ -175,13 +201,13 @@ export class ContentTransformer {
   /**
    * Transform content using AI when no patterns are found
    */
-  private async transformWithAI(context: TransformationContext): Promise<GeneratedCode | null> {
+  private async transformWithAI(context: TransformationContext, signal?: AbortSignal): Promise<GeneratedCode | null> {
     try {
       const prompt = this.buildTransformationPrompt(context);
-      const aiResponse = await this.aiProvider.summarizeContent(prompt, 2000);
+      const aiResponse = await this.aiProvider.summarizeContent(prompt, 2000, { signal });
       
       if (!aiResponse || aiResponse.trim().length === 0) {
-        console.error('Empty AI response received');
+        logger.error('Empty AI response received');
         return null;
       }
       
@@ -215,7 +241,10 @@ export class ContentTransformer {
 
       return null;
     } catch (error) {
-      console.error('Error with AI transformation:', error);
+      if (signal?.aborted) {
+        throw error;
+      }
+      logger.error('Error with AI transformation:', error);
       return null;
     }
   }
@@ -223,7 +252,7 @@ export class ContentTransformer {
   /**
    * Use AI to identify code patterns in text content
    */
-  private async identifyPatternsWithAI(content: string, targetLanguage: string): Promise<CodePattern[]> {
+  private async identifyPatternsWithAI(content: string, targetLanguage: string, signal?: AbortSignal): Promise<CodePattern[]> {
     try {
       const prompt = `
 Analyze the following content and identify code patterns that could be implemented in ${targetLanguage}:
@@ -247,7 +276,7 @@ Return a JSON array of patterns with structure:
 }
 `;
 
-      const aiResponse = await this.aiProvider.summarizeContent(prompt, 1500);
+      const aiResponse = await this.aiProvider.summarizeContent(prompt, 1500, { signal });
       
       // Try to parse JSON response
       try {
@@ -267,12 +296,15 @@ Return a JSON array of patterns with structure:
           }));
         }
       } catch (parseError) {
-        console.error('Error parsing AI pattern response:', parseError);
+        logger.error('Error parsing AI pattern response:', parseError);
       }
 
       return [];
     } catch (error) {
-      console.error('Error identifying patterns with AI:', error);
+      if (signal?.aborted) {
+        throw error;
+      }
+      logger.error('Error identifying patterns with AI:', error);
       return [];
     }
   }
@@ -282,7 +314,8 @@ Return a JSON array of patterns with structure:
    */
   private async generateWithAI(
     pattern: CodePattern, 
-    context: TransformationContext
+    context: TransformationContext,
+    signal?: AbortSignal
   ): Promise<GeneratedCode | null> {
     try {
       const prompt = `
@@ -306,7 +339,7 @@ ${context.targetFramework ? `- Use ${context.targetFramework} conventions` : ''}
 Return only the code, no explanations.
 `;
 
-      const aiResponse = await this.aiProvider.summarizeContent(prompt, 1500);
+      const aiResponse = await this.aiProvider.summarizeContent(prompt, 1500, { signal });
       
       // Extract code from response
       const codeMatch = aiResponse.match(/```[\w]*\n([\s\S]*?)```/);
@@ -325,7 +358,10 @@ Return only the code, no explanations.
 
       return null;
     } catch (error) {
-      console.error('Error generating code with AI:', error);
+      if (signal?.aborted) {
+        throw error;
+      }
+      logger.error('Error generating code with AI:', error);
       return null;
     }
   }
@@ -0,0 +1,171 @@
+import {
+  PromptDefinition,
+  PromptArgument,
+  RenderedPromptMessage
+} from './types';
+import { TemplateEngine } from './TemplateEngine';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('PromptLibrary');
+
+/**
+ * Prompt library for the MCP prompts capability
+ * Loads *.prompt.json definitions that live next to the code templates
+ */
+export class PromptLibrary {
+  private prompts: Map<string, PromptDefinition> = new Map();
+  private promptDirectory: string;
+  private templateEngine: TemplateEngine;
+
+  constructor(promptDirectory: string = './templates', templateEngine?: TemplateEngine) {
+    this.promptDirectory = promptDirectory;
+    this.templateEngine = templateEngine || new TemplateEngine(promptDirectory);
+  }
+
+  /**
+   * Initialize prompt library and load prompt definitions
+   */
+  async initialize(): Promise<void> {
+    try {
+      await this.loadPrompts();
+      logger.debug(`Loaded ${this.prompts.size} prompts`);
+    } catch (error) {
+      logger.warning('Failed to load prompts:', error);
+    }
+  }
+
+  /**
+   * Render a prompt's messages with the given arguments
+   * Throws when the prompt is unknown or an argument is missing or invalid
+   */
+  render(id: string, args: Record<string, any> = {}): RenderedPromptMessage[] {
+    const prompt = this.prompts.get(id);
+    if (!prompt) {
+      throw new Error(`Unknown prompt: ${id}`);
+    }
+
+    const variables = this.validateArguments(prompt, args);
+
+    return prompt.messages.map(message => {
+      if (message.resource) {
+        return { role: message.role, resourceUri: this.templateEngine.render(message.resource, variables) };
+      }
+      return { role: message.role, text: this.templateEngine.render(message.text || '', variables) };
+    });
+  }
+
+  /**
+   * Load prompt definitions from directory
+   */
+  private async loadPrompts(): Promise<void> {
+    const promptDir = path.resolve(this.promptDirectory);
+    const files = await fs.readdir(promptDir, { recursive: true });
+
+    for (const file of files) {
+      if (typeof file !== 'string' || !file.endsWith('.prompt.json')) continue;
+
+      try {
+        const content = await fs.readFile(path.join(promptDir, file), 'utf-8');
+        const prompt: PromptDefinition = JSON.parse(content);
+
+        if (this.validatePrompt(prompt)) {
+          this.prompts.set(prompt.id, prompt);
+        } else {
+          logger.warning(`Prompt validation failed for: ${file}`);
+        }
+      } catch (error) {
+        logger.warning(`Failed to load prompt ${file}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Check required arguments and coerce values to their declared types
+   */
+  private validateArguments(prompt: PromptDefinition, args: Record<string, any>): Record<string, any> {
+    const variables: Record<string, any> = {};
+    const problems: string[] = [];
+
+    for (const argument of prompt.arguments) {
+      const value = args[argument.name];
+
+      if (value === undefined || value === null || value === '') {
+        if (argument.required) {
+          problems.push(`missing required argument '${argument.name}'`);
+        }
+        continue;
+      }
+
+      const coerced = this.coerceArgument(argument, value);
+      if (coerced === undefined) {
+        problems.push(`argument '${argument.name}' must be ${this.describeType(argument)}`);
+        continue;
+      }
+      variables[argument.name] = coerced;
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid arguments for prompt ${prompt.id}: ${problems.join('; ')}`);
+    }
+
+    return variables;
+  }
+
+  // Prompt arguments arrive as strings from most clients
+  private coerceArgument(argument: PromptArgument, value: any): any {
+    switch (argument.type) {
+      case 'number': {
+        const number = Number(value);
+        return Number.isFinite(number) ? number : undefined;
+      }
+      case 'boolean':
+        if (value === true || value === 'true') return true;
+        if (value === false || value === 'false') return false;
+        return undefined;
+      case 'resource':
+        return typeof value === 'string' && value.startsWith('wiki://') ? value : undefined;
+      default:
+        if (typeof value !== 'string') return undefined;
+        if (argument.options && !argument.options.includes(value)) return undefined;
+        return value;
+    }
+  }
+
+  private describeType(argument: PromptArgument): string {
+    switch (argument.type) {
+      case 'resource': return 'a wiki:// resource URI';
+      case 'number': return 'a number';
+      case 'boolean': return 'true or false';
+      default: return argument.options ? `one of: ${argument.options.join(', ')}` : 'a string';
+    }
+  }
+
+  /**
+   * Validate prompt structure
+   */
+  private validatePrompt(prompt: any): boolean {
+    return !!(
+      prompt.id &&
+      prompt.description &&
+      Array.isArray(prompt.arguments) &&
+      Array.isArray(prompt.messages) &&
+      prompt.messages.every((m: any) => (m.role === 'user' || m.role === 'assistant') && (m.text || m.resource))
+    );
+  }
+
+  /**
+   * Get all available prompts
+   */
+  getPrompts(): PromptDefinition[] {
+    return Array.from(this.prompts.values());
+  }
+
+  /**
+   * Get prompt by ID
+   */
+  getPrompt(id: string): PromptDefinition | undefined {
+    return this.prompts.get(id);
+  }
+}
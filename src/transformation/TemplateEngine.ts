@@ -7,6 +7,9 @@ import {
 } from './types';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { Logger } from '../utils/logger';
+
+const logger = new Logger('TemplateEngine');
 
 /**
  * Template engine for code generation
@@ -26,9 +29,9 @@ export class TemplateEngine {
   async initialize(): Promise<void> {
     try {
       await this.loadTemplates();
-      console.log(`Loaded ${this.templates.size} templates`);
+      logger.info(`Loaded ${this.templates.size} templates`);
     } catch (error) {
-      console.warn('Failed to load templates:', error);
+      logger.warning('Failed to load templates:', error);
     }
   }
 
@@ -52,7 +55,7 @@ export class TemplateEngine {
       // Process template
       return await this.processTemplate(template, mergedVariables);
     } catch (error) {
-      console.error('Error processing pattern:', error);
+      logger.error('Error processing pattern:', error);
       return null;
     }
   }
@@ -64,7 +67,14 @@ export class TemplateEngine {
     template: Template, 
     variables: Record<string, any>
   ): Promise<string> {
-    let content = template.content;
+    return this.render(template.content, variables);
+  }
+
+  /**
+   * Render template text with variables, conditionals and loops
+   */
+  render(text: string, variables: Record<string, any>): string {
+    let content = text;
 
     // Simple variable substitution
     content = this.substituteVariables(content, variables);
@@ -87,25 +97,25 @@ export class TemplateEngine {
   private async loadTemplates(): Promise<void> {
     try {
       const templateDir = path.resolve(this.templateDirectory);
-      console.log(`[TemplateEngine] Loading templates from: ${templateDir}`);
+      logger.debug(`Loading templates from: ${templateDir}`);
       
       // Create template directory if it doesn't exist
       try {
         await fs.access(templateDir);
-        console.log(`[TemplateEngine] Template directory exists`);
+        logger.debug(`Template directory exists`);
       } catch {
-        console.log(`[TemplateEngine] Template directory doesn't exist, creating with defaults`);
+        logger.debug(`Template directory doesn't exist, creating with defaults`);
         await fs.mkdir(templateDir, { recursive: true });
         await this.createDefaultTemplates(templateDir);
       }
 
       // Load template files
       const files = await fs.readdir(templateDir, { recursive: true });
-      console.log(`[TemplateEngine] Found files in template directory:`, files);
+      logger.debug(`Found files in template directory:`, files);
       
       for (const file of files) {
         if (typeof file === 'string' && file.endsWith('.template.json')) {
-          console.log(`[TemplateEngine] Loading JSON template file: ${file}`);
+          logger.debug(`Loading JSON template file: ${file}`);
           try {
             const filePath = path.join(templateDir, file);
             const content = await fs.readFile(filePath, 'utf-8');
@@ -114,15 +124,15 @@ export class TemplateEngine {
             // Validate template
             if (this.validateTemplate(template)) {
               this.templates.set(template.id, template);
-              console.log(`[TemplateEngine] Successfully loaded JSON template: ${template.id}`);
+              logger.debug(`Successfully loaded JSON template: ${template.id}`);
             } else {
-              console.warn(`[TemplateEngine] Template validation failed for: ${file}`);
+              logger.warning(`Template validation failed for: ${file}`);
             }
           } catch (error) {
-            console.warn(`Failed to load template ${file}:`, error);
+            logger.warning(`Failed to load template ${file}:`, error);
           }
         } else if (typeof file === 'string' && file.endsWith('.hbs')) {
-          console.log(`[TemplateEngine] Loading Handlebars template file: ${file}`);
+          logger.debug(`Loading Handlebars template file: ${file}`);
           try {
             const filePath = path.join(templateDir, file);
             const content = await fs.readFile(filePath, 'utf-8');
@@ -131,17 +141,17 @@ export class TemplateEngine {
             // Validate template
             if (this.validateTemplate(template)) {
               this.templates.set(template.id, template);
-              console.log(`[TemplateEngine] Successfully loaded HBS template: ${template.id}`);
+              logger.debug(`Successfully loaded HBS template: ${template.id}`);
             } else {
-              console.warn(`[TemplateEngine] Template validation failed for: ${file}`);
+              logger.warning(`Template validation failed for: ${file}`);
             }
           } catch (error) {
-            console.warn(`Failed to load template ${file}:`, error);
+            logger.warning(`Failed to load template ${file}:`, error);
           }
         }
       }
     } catch (error) {
-      console.warn('Failed to access template directory:', error);
+      logger.warning('Failed to access template directory:', error);
     }
   }
 
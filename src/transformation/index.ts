@@ -4,10 +4,12 @@
 export * from './types';
 export * from './TemplateEngine';
 export * from './ContentTransformer';
+export * from './PromptLibrary';
 
 // Export explicit named exports for better IDE support
 import { TemplateEngine } from './TemplateEngine';
 import { ContentTransformer } from './ContentTransformer';
+import { PromptLibrary } from './PromptLibrary';
 import { 
   TransformationContext, 
   TransformationResult, 
@@ -19,6 +21,7 @@ import {
 export {
   TemplateEngine,
   ContentTransformer,
+  PromptLibrary,
   TransformationContext,
   TransformationResult,
   GeneratedCode,
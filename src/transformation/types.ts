@@ -120,3 +120,42 @@ export interface TransformationConfig {
     formatCheck: boolean;
   };
 }
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+  type: 'string' | 'number' | 'boolean' | 'resource';
+  options?: string[];           // Allowed values for string arguments
+}
+
+export interface PromptMessageTemplate {
+  role: 'user' | 'assistant';
+  text?: string;                // Template text with {{argument}} placeholders
+  resource?: string;            // Resource URI template, embedded as wiki content
+}
+
+export interface PromptDefinition {
+  id: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+  messages: PromptMessageTemplate[];
+}
+
+export interface RenderedPromptMessage {
+  role: 'user' | 'assistant';
+  text?: string;
+  resourceUri?: string;
+}
+
+/**
+ * Receives stage updates from long-running operations
+ * progress increases monotonically; total is set once the amount of work is known
+ */
+export type ProgressCallback = (progress: number, total?: number, message?: string) => void;
+
+export interface OperationControl {
+  signal?: AbortSignal;         // Aborting stops between stages and cancels pending provider requests
+  onProgress?: ProgressCallback;
+}
@@ -0,0 +1,334 @@
+import express, { Request, Response, NextFunction } from 'express';
+import * as http from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { MCPServer, MCPNotification, MCPRequest, MCPSession, createErrorResponse } from '../mcpServer';
+import { Logger } from '../utils/logger';
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  path: string;                 // Endpoint path, e.g. '/mcp'
+  trustProxy: boolean | number | string; // Passed to express 'trust proxy'
+  allowedOrigins: string[];     // Browser origins allowed besides localhost ones; requests without Origin are always allowed
+  sessionTimeoutMinutes: number;
+  heartbeatIntervalMs: number;
+  maxQueuedNotifications: number;
+  adminToken?: string;          // Bearer token that gives a session the admin tools; without one no HTTP session gets them
+}
+
+const SESSION_HEADER = 'mcp-session-id';
+
+// Pages served from the machine itself may always connect
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * A client connected over Streamable HTTP.
+ * Server-initiated messages go to the open SSE streams, or are queued until one is opened.
+ */
+export class HttpSession implements MCPSession {
+  id: string;
+  clientInfo?: { name: string; version: string };
+  clientCapabilities?: Record<string, any>;
+  protocolVersion?: string;
+  initialized?: boolean;
+  admin?: boolean;
+  createdAt = Date.now();
+  lastActivity = Date.now();
+  private streams: Set<Response> = new Set();
+  private queue: Array<MCPNotification | MCPRequest> = [];
+  private eventId = 0;
+
+  constructor(id: string, private maxQueued: number) {
+    this.id = id;
+  }
+
+  notify(message: MCPNotification | MCPRequest): void {
+    if (this.streams.size === 0) {
+      this.queue.push(message);
+      // Drop the oldest notifications rather than growing without bound; requests are kept, since their senders wait for an answer
+      let excess = this.queue.length - this.maxQueued;
+      if (excess > 0) {
+        this.queue = this.queue.filter(queued => 'id' in queued || excess-- <= 0);
+      }
+      return;
+    }
+
+    // A request must reach the client exactly once, so it goes to a single stream
+    if ('id' in message) {
+      this.writeEvent(this.streams.values().next().value!, message);
+      return;
+    }
+
+    for (const stream of this.streams) {
+      this.writeEvent(stream, message);
+    }
+  }
+
+  attachStream(stream: Response): void {
+    this.streams.add(stream);
+    const pending = this.queue.splice(0);
+    for (const message of pending) {
+      this.writeEvent(stream, message);
+    }
+  }
+
+  detachStream(stream: Response): void {
+    this.streams.delete(stream);
+  }
+
+  hasOpenStreams(): boolean {
+    return this.streams.size > 0;
+  }
+
+  close(): void {
+    for (const stream of this.streams) {
+      stream.end();
+    }
+    this.streams.clear();
+    this.queue = [];
+  }
+
+  private writeEvent(stream: Response, message: MCPNotification | MCPRequest): void {
+    stream.write(`id: ${++this.eventId}\nevent: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+}
+
+/**
+ * MCP Streamable HTTP transport (POST for client messages, GET for the SSE stream).
+ * All sessions share one MCPServer, so the wiki cache is shared across clients.
+ */
+export class HttpTransport {
+  private app: express.Express;
+  private server: MCPServer;
+  private options: HttpTransportOptions;
+  private sessions: Map<string, HttpSession> = new Map();
+  private httpServer?: http.Server;
+  private cleanupTimer?: NodeJS.Timeout;
+  private logger: Logger;
+
+  constructor(server: MCPServer, options: Partial<HttpTransportOptions> = {}) {
+    this.server = server;
+    this.options = {
+      port: 3000,
+      host: '127.0.0.1',
+      path: '/mcp',
+      trustProxy: false,
+      allowedOrigins: [],
+      sessionTimeoutMinutes: 60,
+      heartbeatIntervalMs: 15000,
+      maxQueuedNotifications: 100,
+      ...options
+    };
+    this.logger = new Logger('HttpTransport');
+    this.app = this.createApp();
+  }
+
+  getApp(): express.Express {
+    return this.app;
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer = this.app.listen(this.options.port, this.options.host, () => resolve());
+      this.httpServer.once('error', reject);
+    });
+
+    // Expire sessions that have been idle without an open stream
+    this.cleanupTimer = setInterval(() => this.expireSessions(), 60000);
+    this.cleanupTimer.unref();
+
+    this.logger.notice(`MCP HTTP transport listening on http://${this.options.host}:${this.options.port}${this.options.path}`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+    }
+
+    for (const session of this.sessions.values()) {
+      session.close();
+      this.server.closeSession(session);
+    }
+    this.sessions.clear();
+
+    if (this.httpServer) {
+      await new Promise<void>((resolve) => this.httpServer!.close(() => resolve()));
+      this.httpServer = undefined;
+    }
+  }
+
+  private createApp(): express.Express {
+    const app = express();
+    app.set('trust proxy', this.options.trustProxy);
+    app.disable('x-powered-by');
+
+    app.get('/health', (_req, res) => {
+      res.json({ status: 'ok', version: this.server.version, sessions: this.sessions.size });
+    });
+
+    const router = express.Router();
+    router.use((req, res, next) => this.validateOrigin(req, res, next));
+    router.post('/', express.json({ limit: '4mb' }), (req, res) => this.handlePost(req, res));
+    router.get('/', (req, res) => this.handleGet(req, res));
+    router.delete('/', (req, res) => this.handleDelete(req, res));
+    app.use(this.options.path, router);
+
+    // Body parser failures arrive here; report them as JSON-RPC parse errors
+    app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
+      if (err?.type === 'entity.parse.failed') {
+        res.status(400).json(createErrorResponse(null, -32700, 'Parse error'));
+        return;
+      }
+      if (err?.type === 'entity.too.large') {
+        res.status(413).json(createErrorResponse(null, -32600, 'Request entity too large'));
+        return;
+      }
+      next(err);
+    });
+
+    return app;
+  }
+
+  // Reject browser requests from origins that are not explicitly allowed, to guard against DNS rebinding.
+  // A rebound page keeps its own origin, so the Host header is no evidence of a same-origin request.
+  private validateOrigin(req: Request, res: Response, next: NextFunction): void {
+    const origin = req.headers.origin;
+    if (origin !== undefined && !this.isOriginAllowed(origin)) {
+      res.status(403).json(createErrorResponse(null, -32000, `Origin not allowed: ${origin}`));
+      return;
+    }
+    next();
+  }
+
+  private isOriginAllowed(origin: string): boolean {
+    if (this.options.allowedOrigins.includes(origin)) return true;
+    try {
+      const url = new URL(origin);
+      return (url.protocol === 'http:' || url.protocol === 'https:') && LOOPBACK_HOSTS.includes(url.hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  // The token is checked once, on initialize; the session id then stands for it
+  private hasAdminToken(req: Request): boolean {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    if (!this.options.adminToken || !match) return false;
+
+    const given = Buffer.from(match[1]);
+    const expected = Buffer.from(this.options.adminToken);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  private async handlePost(req: Request, res: Response): Promise<void> {
+    const body = req.body;
+    const messages: any[] = Array.isArray(body) ? body : [body];
+    const isInitialize = messages.some(m => m?.method === 'initialize');
+    let session: HttpSession | undefined;
+
+    if (isInitialize) {
+      if (messages.length > 1) {
+        res.status(400).json(createErrorResponse(null, -32600, 'Invalid Request: initialize must not be part of a batch'));
+        return;
+      }
+      session = new HttpSession(randomUUID(), this.options.maxQueuedNotifications);
+      session.admin = this.hasAdminToken(req);
+    } else {
+      session = this.resolveSession(req, res);
+      if (!session) return;
+    }
+
+    session.lastActivity = Date.now();
+    const reply = await this.server.handleMessage(body, session);
+
+    if (isInitialize && reply && !Array.isArray(reply) && !reply.error) {
+      this.sessions.set(session.id, session);
+      res.setHeader('Mcp-Session-Id', session.id);
+      this.logger.info(`Created session ${session.id} for ${req.ip}`);
+    }
+
+    // Batches made only of notifications and responses get no body
+    if (!reply) {
+      res.status(202).end();
+      return;
+    }
+
+    res.status(200).json(reply);
+  }
+
+  private handleGet(req: Request, res: Response): void {
+    const accept = req.headers.accept || '';
+    if (!accept.includes('text/event-stream')) {
+      res.status(406).json(createErrorResponse(null, -32000, 'Not Acceptable: client must accept text/event-stream'));
+      return;
+    }
+
+    const session = this.resolveSession(req, res);
+    if (!session) return;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Disable response buffering in nginx
+    });
+    res.flushHeaders();
+
+    session.attachStream(res);
+    session.lastActivity = Date.now();
+
+    // Comment lines keep idle proxies from closing the stream
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), this.options.heartbeatIntervalMs);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      session.detachStream(res);
+      session.lastActivity = Date.now();
+    });
+  }
+
+  private handleDelete(req: Request, res: Response): void {
+    const session = this.resolveSession(req, res);
+    if (!session) return;
+
+    session.close();
+    this.sessions.delete(session.id);
+    this.server.closeSession(session);
+    this.logger.info(`Closed session ${session.id}`);
+    res.status(204).end();
+  }
+
+  private resolveSession(req: Request, res: Response): HttpSession | undefined {
+    const sessionId = req.header(SESSION_HEADER);
+    if (!sessionId) {
+      res.status(400).json(createErrorResponse(null, -32000, 'Bad Request: Mcp-Session-Id header is required'));
+      return undefined;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      res.status(404).json(createErrorResponse(null, -32001, 'Session not found'));
+      return undefined;
+    }
+
+    return session;
+  }
+
+  private expireSessions(): void {
+    const timeoutMs = this.options.sessionTimeoutMinutes * 60 * 1000;
+    const now = Date.now();
+
+    for (const [id, session] of this.sessions) {
+      if (!session.hasOpenStreams() && now - session.lastActivity > timeoutMs) {
+        session.close();
+        this.sessions.delete(id);
+        this.server.closeSession(session);
+        this.logger.info(`Expired idle session ${id}`);
+      }
+    }
+  }
+}
@@ -1,3 +1,87 @@
+// RFC 5424 severities, least severe first, as used by MCP logging
+export type LogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+export interface LogRecord {
+  level: LogLevel;
+  logger: string;               // Context the Logger was created with
+  message: string;
+  details?: any[];              // Extra arguments, redacted and made JSON-safe
+  timestamp: Date;
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && LOG_LEVELS.includes(value as LogLevel);
+}
+
+export function isAtLeast(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+const REDACTED = '[REDACTED]';
+
+// Object keys whose string values are never logged
+const SENSITIVE_KEY = /pass(word|wd)?$|secret|token|api[-_]?key|authorization|cookie|credential|private[-_]?key/i;
+
+const SENSITIVE_PATTERNS: Array<[RegExp, string]> = [
+  [/(\b[a-z][a-z0-9+.-]*:\/\/)[^\s/:@]+:[^\s/@]+@/gi, `$1${REDACTED}@`],                   // user:pass@ in URLs
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/-]+=*/g, `$1 ${REDACTED}`],
+  [/([?&](?:access_token|token|api[-_]?key|key|secret|client_secret|password|sig)=)[^&\s#"']+/gi, `$1${REDACTED}`],
+  [/(["']?(?:password|secret|token|api[-_]?key)["']?\s*[:=]\s*["']?)[^"'\s,}&]+/gi, `$1${REDACTED}`]
+];
+
+/**
+ * Copy of a value that is safe to log: credentials masked, errors reduced to name and message,
+ * cycles and deep nesting cut off
+ */
+export function redact(value: any, depth = 0, seen = new WeakSet<object>()): any {
+  if (typeof value === 'string') {
+    return SENSITIVE_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' || typeof value === 'symbol' ? String(value) : value;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message) };
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (seen.has(value) || depth >= 5) {
+    return '[...]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1, seen));
+  }
+
+  const copy: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = SENSITIVE_KEY.test(key) && item !== null && (typeof item === 'string' || typeof item === 'object')
+      ? REDACTED
+      : redact(item, depth + 1, seen);
+  }
+  return copy;
+}
+
+function parseStderrLevel(): LogLevel | undefined {
+  const configured = process.env.MCP_LOG_STDERR;
+  if (isLogLevel(configured)) return configured;
+  return process.env.DEBUG ? 'debug' : undefined;
+}
+
+const sinks = new Set<LogSink>();
+let stderrLevel = parseStderrLevel();
+
+/**
+ * Named logger. Records go to every registered sink (the MCP server forwards them to clients
+ * as notifications/message); stderr output is off unless MCP_LOG_STDERR names a level.
+ * Nothing is ever written to stdout, which carries the stdio transport.
+ */
 export class Logger {
   private context: string;
 
@@ -5,21 +89,76 @@ export class Logger {
     this.context = context;
   }
 
+  // Returns a function that removes the sink again
+  static addSink(sink: LogSink): () => void {
+    sinks.add(sink);
+    return () => { sinks.delete(sink); };
+  }
+
+  // Minimum level written to stderr; undefined turns stderr output off
+  static setStderrLevel(level?: LogLevel): void {
+    stderrLevel = level;
+  }
+
+  debug(message: string, ...args: any[]): void {
+    this.log('debug', message, args);
+  }
+
   info(message: string, ...args: any[]): void {
-    console.log(`[${new Date().toISOString()}] [${this.context}] INFO: ${message}`, ...args);
+    this.log('info', message, args);
+  }
+
+  notice(message: string, ...args: any[]): void {
+    this.log('notice', message, args);
+  }
+
+  warning(message: string, ...args: any[]): void {
+    this.log('warning', message, args);
   }
 
   warn(message: string, ...args: any[]): void {
-    console.warn(`[${new Date().toISOString()}] [${this.context}] WARN: ${message}`, ...args);
+    this.log('warning', message, args);
   }
 
   error(message: string, ...args: any[]): void {
-    console.error(`[${new Date().toISOString()}] [${this.context}] ERROR: ${message}`, ...args);
+    this.log('error', message, args);
   }
 
-  debug(message: string, ...args: any[]): void {
-    if (process.env.DEBUG) {
-      console.debug(`[${new Date().toISOString()}] [${this.context}] DEBUG: ${message}`, ...args);
+  critical(message: string, ...args: any[]): void {
+    this.log('critical', message, args);
+  }
+
+  alert(message: string, ...args: any[]): void {
+    this.log('alert', message, args);
+  }
+
+  emergency(message: string, ...args: any[]): void {
+    this.log('emergency', message, args);
+  }
+
+  private log(level: LogLevel, message: string, args: any[]): void {
+    const toStderr = stderrLevel !== undefined && isAtLeast(level, stderrLevel);
+    if (!toStderr && sinks.size === 0) return;
+
+    const record: LogRecord = {
+      level,
+      logger: this.context,
+      message: redact(message),
+      details: args.length > 0 ? redact(args) : undefined,
+      timestamp: new Date()
+    };
+
+    if (toStderr) {
+      console.error(`[${record.timestamp.toISOString()}] [${this.context}] ${level.toUpperCase()}: ${record.message}`,
+        ...(record.details || []).map(detail => typeof detail === 'string' ? detail : JSON.stringify(detail)));
+    }
+
+    for (const sink of sinks) {
+      try {
+        sink(record);
+      } catch {
+        // A failing sink must not break the caller that logged
+      }
     }
   }
-}
\ No newline at end of file
+}
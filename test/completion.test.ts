@@ -0,0 +1,35 @@
+import { matchScore, rankCompletions, MAX_COMPLETION_VALUES } from '../src/completion';
+
+describe('rankCompletions', () => {
+  it('ranks prefix matches before word starts, substrings and fuzzy matches', () => {
+    const candidates = ['typescript', 'javascript', 'type-script-legacy', 'prototype', 'python'].map(value => ({ value }));
+
+    expect(rankCompletions(candidates, 'ty').values).toEqual(['typescript', 'type-script-legacy', 'prototype']);
+    expect(rankCompletions(candidates, 'scr').values).toEqual(['type-script-legacy', 'typescript', 'javascript']);
+    expect(rankCompletions(candidates, 'pyn').values).toEqual(['python']);
+  });
+
+  it('matches labels as well as values and drops duplicates', () => {
+    const result = rankCompletions([
+      { value: 'wiki/Flakes', label: 'Flakes' },
+      { value: 'wiki/Home', label: 'NixOS Home' },
+      { value: 'wiki/Flakes', label: 'Nix flakes' }
+    ], 'home');
+
+    expect(result).toEqual({ values: ['wiki/Home'], total: 1, hasMore: false });
+  });
+
+  it('caps the response at 100 values and reports the total', () => {
+    const candidates = Array.from({ length: 150 }, (_, i) => ({ value: `page-${i}` }));
+    const result = rankCompletions(candidates, 'page');
+
+    expect(result.values).toHaveLength(MAX_COMPLETION_VALUES);
+    expect(result).toMatchObject({ total: 150, hasMore: true });
+  });
+
+  it('prefers tighter fuzzy matches', () => {
+    expect(matchScore('csharp', 'csh')).toBe(0);
+    expect(matchScore('go', 'xyz')).toBeUndefined();
+    expect(matchScore('rust', 'rt')!).toBeLessThan(matchScore('ruby-on-rails-test', 'rt')!);
+  });
+});
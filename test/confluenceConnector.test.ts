@@ -0,0 +1,175 @@
+import * as http from 'http';
+import { ConfluenceConnector } from '../src/sources/connectors';
+import { WikiEntry, WikiType } from '../src/sources/types';
+
+interface StandInPage {
+  id: string;
+  title: string;
+  space: string;
+  ancestors: string[];
+  labels: string[];
+  storage: string;
+}
+
+const SPACES: Record<string, string> = { ENG: 'Engineering', OPS: 'Operations' };
+
+const PAGES: StandInPage[] = [
+  { id: '100', title: 'Engineering Home', space: 'ENG', ancestors: [], labels: [], storage: '<p>Welcome to engineering</p>' },
+  { id: '101', title: 'Runbooks', space: 'ENG', ancestors: ['100'], labels: ['runbook'], storage: '<p>All runbooks</p>' },
+  {
+    id: '102', title: 'Deploy Guide', space: 'ENG', ancestors: ['100', '101'], labels: ['runbook'],
+    storage: '<h2>Steps</h2><ul><li>Build &amp; tag</li><li>Roll out</li></ul>'
+      + '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">bash</ac:parameter>'
+      + '<ac:plain-text-body><![CDATA[kubectl apply -f deploy.yaml && echo "<done>"]]></ac:plain-text-body></ac:structured-macro>'
+  },
+  { id: '200', title: 'Ops Home', space: 'OPS', ancestors: [], labels: [], storage: '<p>Operations</p>' }
+];
+
+// Content the way the REST API returns it with ancestors and space expanded
+function toContent(page: StandInPage) {
+  return {
+    id: page.id,
+    type: 'page',
+    title: page.title,
+    space: { key: page.space, name: SPACES[page.space] },
+    ancestors: page.ancestors.map(id => ({ id, title: PAGES.find(p => p.id === id)!.title })),
+    _links: { webui: `/spaces/${page.space}/pages/${page.id}/${page.title.replace(/ /g, '+')}` }
+  };
+}
+
+// Just enough CQL for the connector's queries: space, label and text clauses joined with AND
+function matchesCql(page: StandInPage, cql: string): boolean {
+  const space = cql.match(/space = "([^"]+)"/)?.[1];
+  const spaces = cql.match(/space in \(([^)]+)\)/)?.[1].match(/"([^"]+)"/g)?.map(s => s.slice(1, -1));
+  const labels = cql.match(/label in \(([^)]+)\)/)?.[1].match(/"([^"]+)"/g)?.map(s => s.slice(1, -1));
+  const text = cql.match(/text ~ "([^"]+)"/)?.[1];
+  return (!space || page.space === space)
+    && (!spaces || spaces.includes(page.space))
+    && (!labels || page.labels.some(label => labels.includes(label)))
+    && (!text || page.title.toLowerCase().includes(text.toLowerCase()));
+}
+
+function answer(pathname: string, params: URLSearchParams): any {
+  if (pathname === '/wiki/rest/api/space') {
+    return { results: Object.entries(SPACES).map(([key, name]) => ({ key, name })), _links: {} };
+  }
+
+  const space = pathname.match(/^\/wiki\/rest\/api\/space\/(\w+)$/);
+  if (space) {
+    return { key: space[1], homepage: { id: PAGES.find(p => p.space === space[1] && p.ancestors.length === 0)!.id } };
+  }
+
+  // Two results per response, so listing has to follow _links.next
+  if (pathname === '/wiki/rest/api/content/search') {
+    const cql = params.get('cql')!;
+    const start = Number(params.get('start') || 0);
+    const matches = PAGES.filter(page => matchesCql(page, cql));
+    const next = start + 2 < matches.length
+      ? `/rest/api/content/search?${new URLSearchParams({ cql, start: String(start + 2) })}`
+      : undefined;
+    return { results: matches.slice(start, start + 2).map(toContent), _links: next ? { next } : {} };
+  }
+
+  const content = pathname.match(/^\/wiki\/rest\/api\/content\/(\d+)$/);
+  if (content) {
+    const page = PAGES.find(p => p.id === content[1]);
+    return page ? { ...toContent(page), body: { storage: { value: page.storage, representation: 'storage' } } } : undefined;
+  }
+
+  if (pathname === '/wiki/rest/api/search') {
+    const cql = params.get('cql')!;
+    return {
+      results: PAGES.filter(page => matchesCql(page, cql)).slice(0, Number(params.get('limit'))).map(page => ({
+        content: toContent(page),
+        title: page.title,
+        excerpt: `How to @@@hl@@@${page.title}@@@endhl@@@ &amp; more`
+      }))
+    };
+  }
+
+  return undefined;
+}
+
+describe('ConfluenceConnector', () => {
+  let api: http.Server;
+  let baseUrl: string;
+  const queries: string[] = [];
+  const connector = new ConfluenceConnector();
+  const auth = { type: 'basic' as const, config: { username: 'bot@example.com', password: 'api-token' } };
+
+  beforeAll(async () => {
+    api = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      res.setHeader('Content-Type', 'application/json');
+      if (req.headers.authorization !== `Basic ${Buffer.from('bot@example.com:api-token').toString('base64')}`) {
+        res.statusCode = 401;
+        res.end(JSON.stringify({ message: 'Unauthorized' }));
+        return;
+      }
+      if (url.searchParams.has('cql')) queries.push(url.searchParams.get('cql')!);
+      const body = answer(url.pathname, url.searchParams);
+      res.statusCode = body ? 200 : 404;
+      res.end(JSON.stringify(body || { message: 'Not found' }));
+    });
+    await new Promise<void>(resolve => api.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(api.address() as any).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => api.close(resolve));
+  });
+
+  const entry = (overrides: Partial<WikiEntry> = {}): WikiEntry => ({
+    id: 'kb', name: 'KB', type: WikiType.Confluence, url: `${baseUrl}/wiki/spaces/ENG/overview`, auth, ...overrides
+  });
+
+  it('reads the space home page and page bodies from storage format with breadcrumbs', async () => {
+    const home = await connector.fetch(entry());
+    const deploy = await connector.fetch(entry({ url: `${baseUrl}/wiki/spaces/ENG/pages/102/Deploy+Guide` }));
+
+    expect(home).toContain('# Engineering Home');
+    expect(home).toContain('Welcome to engineering');
+    expect(deploy).toContain('Location: Engineering › Engineering Home › Runbooks');
+    expect(deploy).toContain('## Steps\n\n- Build & tag\n- Roll out');
+    expect(deploy).toContain('```bash\nkubectl apply -f deploy.yaml && echo "<done>"\n```');
+  });
+
+  it('lists pages of every space across result pages, keeping their ancestry', async () => {
+    const pages = await connector.listPages(entry());
+
+    expect(pages.map(page => page.title)).toEqual(['Engineering Home', 'Runbooks', 'Deploy Guide', 'Ops Home']);
+    expect(pages[2]).toEqual({
+      url: `${baseUrl}/wiki/spaces/ENG/pages/102/Deploy+Guide`,
+      title: 'Deploy Guide',
+      breadcrumbs: ['Engineering', 'Engineering Home', 'Runbooks']
+    });
+  });
+
+  it('filters listing and search by space keys and labels', async () => {
+    queries.length = 0;
+    const filtered = entry({ options: { spaces: ['ENG'], labels: ['runbook'] } });
+
+    const pages = await connector.listPages(filtered);
+    const hits = await connector.search(filtered, 'deploy', 5);
+
+    expect(pages.map(page => page.title)).toEqual(['Runbooks', 'Deploy Guide']);
+    expect(hits).toEqual([{
+      url: `${baseUrl}/wiki/spaces/ENG/pages/102/Deploy+Guide`,
+      title: 'Deploy Guide',
+      content: 'How to Deploy Guide & more',
+      score: 1,
+      breadcrumbs: ['Engineering', 'Engineering Home', 'Runbooks']
+    }]);
+    expect(queries).toEqual([
+      'space = "ENG" AND type = page AND label in ("runbook")',
+      'text ~ "deploy" AND type = page AND space in ("ENG") AND label in ("runbook")'
+    ]);
+  });
+
+  it('respects maxPages and reports rejected credentials clearly', async () => {
+    expect(await connector.listPages(entry({ maxPages: 3 }))).toHaveLength(3);
+
+    const health = await connector.checkHealth(entry({ auth: undefined }));
+    expect(health).toMatchObject({ healthy: false, message: expect.stringContaining('rejected the credentials') });
+  });
+});
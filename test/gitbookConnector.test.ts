@@ -0,0 +1,195 @@
+import * as http from 'http';
+import { GitbookConnector } from '../src/sources/connectors';
+import { WikiEntry, WikiType } from '../src/sources/types';
+
+// Published site: page Markdown under {path}.md, HTML at the page itself
+const MARKDOWN: Record<string, string> = {
+  '/docs/getting-started.md': '# Getting started\n\nInstall the CLI with `npm install`.',
+  '/docs/guides/deploying.md': '# Deploying\n\nRun the deploy script, then deploy the workers.',
+  '/docs/guides/deploying/rollbacks.md': '# Rollbacks\n\nRoll back with `deploy --undo`.'
+};
+
+// Content API page tree: a group chapter containing a document with a child document
+const TREE = [
+  { id: 'p1', title: 'Getting started', type: 'document', path: 'getting-started', pages: [] },
+  {
+    id: 'g1', title: 'Guides', type: 'group', pages: [
+      {
+        id: 'p2', title: 'Deploying', type: 'document', path: 'guides/deploying', pages: [
+          { id: 'p3', title: 'Rollbacks', type: 'document', path: 'guides/deploying/rollbacks', pages: [] }
+        ]
+      },
+      { id: 'l1', title: 'Status page', type: 'link', pages: [] }
+    ]
+  }
+];
+
+function answer(baseUrl: string, pathname: string, params: URLSearchParams, authorized: boolean): { type: string; body: string } | undefined {
+  if (pathname === '/docs/sitemap.xml') {
+    return { type: 'application/xml', body: `<?xml version="1.0"?><sitemapindex><sitemap><loc>${baseUrl}/docs/sitemap-pages.xml</loc></sitemap></sitemapindex>` };
+  }
+  if (pathname === '/docs/sitemap-pages.xml') {
+    const urls = ['/docs/', '/docs/getting-started', '/docs/guides/deploying', '/docs/guides/deploying/rollbacks', '/elsewhere/page'];
+    return { type: 'application/xml', body: `<urlset>${urls.map(url => `<url><loc>${baseUrl}${url}</loc></url>`).join('')}</urlset>` };
+  }
+  if (MARKDOWN[pathname]) {
+    return { type: 'text/markdown', body: MARKDOWN[pathname] };
+  }
+  if (pathname === '/docs' || pathname === '/docs/') {
+    return { type: 'text/html', body: '<!DOCTYPE html><html><body><nav>Menu</nav><main>Welcome to the docs</main></body></html>' };
+  }
+
+  if (pathname.startsWith('/v1/')) {
+    if (!authorized) return { type: 'application/json', body: 'unauthorized' };
+    if (pathname === '/v1/spaces/space-1' || pathname === '/v1/spaces/space-1/content') {
+      return { type: 'application/json', body: JSON.stringify({ id: 'space-1', pages: TREE }) };
+    }
+    const page = pathname.match(/^\/v1\/spaces\/space-1\/content\/path\/(.+)$/);
+    if (page && params.get('format') === 'markdown') {
+      const markdown = MARKDOWN[`/docs/${decodeURIComponent(page[1])}.md`];
+      return markdown ? { type: 'application/json', body: JSON.stringify({ markdown: markdown.replace(/^# .*\n\n/, '') }) } : undefined;
+    }
+    if (pathname === '/v1/spaces/space-1/search') {
+      const query = params.get('query')!.toLowerCase();
+      const items = Object.entries(MARKDOWN)
+        .filter(([, markdown]) => markdown.toLowerCase().includes(query))
+        .map(([path, markdown]) => {
+          const pagePath = path.slice('/docs/'.length, -'.md'.length);
+          const id = ({ 'getting-started': 'p1', 'guides/deploying': 'p2', 'guides/deploying/rollbacks': 'p3' } as Record<string, string>)[pagePath];
+          return { id, title: markdown.match(/^# (.*)/)![1], path: pagePath, sections: [{ id: 's1', body: markdown.split('\n\n')[1] }] };
+        });
+      return { type: 'application/json', body: JSON.stringify({ items }) };
+    }
+  }
+  return undefined;
+}
+
+describe('GitbookConnector', () => {
+  let site: http.Server;
+  let baseUrl: string;
+  const requested: string[] = [];
+  const connector = new GitbookConnector();
+
+  beforeAll(async () => {
+    site = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      requested.push(url.pathname);
+      const authorized = req.headers.authorization === 'Bearer gb-token';
+      const body = answer(baseUrl, url.pathname, url.searchParams, authorized);
+      if (body?.body === 'unauthorized') {
+        res.statusCode = 401;
+        res.end(JSON.stringify({ error: { code: 401, message: 'Unauthorized' } }));
+        return;
+      }
+      res.statusCode = body ? 200 : 404;
+      res.setHeader('Content-Type', body?.type || 'text/plain');
+      res.end(body?.body || 'Not found');
+    });
+    await new Promise<void>(resolve => site.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(site.address() as any).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => site.close(resolve));
+  });
+
+  describe('through the sitemap', () => {
+    const entry = (overrides: Partial<WikiEntry> = {}): WikiEntry => ({
+      id: 'docs', name: 'Docs', type: WikiType.Gitbook, url: `${baseUrl}/docs/`, ...overrides
+    });
+
+    it('discovers every page under the site from nested sitemaps, with the path as chapter trail', async () => {
+      const pages = await connector.listPages(entry());
+
+      expect(pages).toEqual([
+        { url: `${baseUrl}/docs/getting-started`, title: 'Getting started', breadcrumbs: [] },
+        { url: `${baseUrl}/docs/guides/deploying`, title: 'Deploying', breadcrumbs: ['Guides'] },
+        { url: `${baseUrl}/docs/guides/deploying/rollbacks`, title: 'Rollbacks', breadcrumbs: ['Guides', 'Deploying'] }
+      ]);
+      expect(await connector.listPages(entry({ maxPages: 1 }))).toHaveLength(1);
+    });
+
+    it('reads pages as Markdown and falls back to HTML for the landing page', async () => {
+      expect(await connector.fetch(entry({ url: `${baseUrl}/docs/guides/deploying` })))
+        .toBe('# Deploying\n\nRun the deploy script, then deploy the workers.');
+      expect(await connector.fetch(entry())).toBe('Welcome to the docs');
+    });
+
+    it('leaves search to the source until the site has been listed', async () => {
+      requested.length = 0;
+
+      expect(await new GitbookConnector().search(entry(), 'deploy', 5)).toBeNull();
+      expect(requested).toEqual([]);
+    });
+
+    it('searches page bodies read in the background after listing, without requests per query', async () => {
+      const reader = new GitbookConnector();
+      await reader.listPages(entry());
+
+      // "workers" occurs only in the body of the deploying page
+      let hits = await reader.search(entry(), 'workers', 5);
+      for (let attempt = 0; attempt < 50 && hits?.length === 0; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        hits = await reader.search(entry(), 'workers', 5);
+      }
+      requested.length = 0;
+
+      expect(hits).toEqual([expect.objectContaining({
+        url: `${baseUrl}/docs/guides/deploying`,
+        title: 'Deploying',
+        breadcrumbs: ['Guides'],
+        content: expect.stringContaining('deploy the workers')
+      })]);
+      expect(await reader.search(entry(), 'undo', 5)).toEqual([expect.objectContaining({ title: 'Rollbacks' })]);
+      expect(requested).toEqual([]);
+    });
+  });
+
+  describe('through the content API', () => {
+    const entry = (overrides: Partial<WikiEntry> = {}): WikiEntry => ({
+      id: 'docs',
+      name: 'Docs',
+      type: WikiType.Gitbook,
+      url: `${baseUrl}/docs`,
+      auth: { type: 'token', config: { urlPattern: '.*', type: 'token', token: 'gb-token' } },
+      options: { spaceId: 'space-1', apiUrl: `${baseUrl}/v1` },
+      ...overrides
+    });
+
+    it('lists document pages with their chapter hierarchy as breadcrumbs', async () => {
+      const pages = await connector.listPages(entry());
+
+      expect(pages).toEqual([
+        { url: `${baseUrl}/docs/getting-started`, title: 'Getting started', breadcrumbs: [] },
+        { url: `${baseUrl}/docs/guides/deploying`, title: 'Deploying', breadcrumbs: ['Guides'] },
+        { url: `${baseUrl}/docs/guides/deploying/rollbacks`, title: 'Rollbacks', breadcrumbs: ['Guides', 'Deploying'] }
+      ]);
+    });
+
+    it('reads page Markdown with its location and describes the space at the root', async () => {
+      const rollbacks = await connector.fetch(entry({ url: `${baseUrl}/docs/guides/deploying/rollbacks` }));
+      const root = await connector.fetch(entry());
+
+      expect(rollbacks).toBe('# Rollbacks\n\nLocation: Guides › Deploying\n\nRoll back with `deploy --undo`.');
+      expect(root).toBe('# Contents\n\n- Getting started\n- Guides\n  - Deploying\n    - Rollbacks');
+    });
+
+    it('uses the API search and maps results to page URLs', async () => {
+      const hits = await connector.search(entry(), 'roll back', 5);
+
+      expect(hits).toEqual([{
+        url: `${baseUrl}/docs/guides/deploying/rollbacks`,
+        title: 'Rollbacks',
+        content: 'Roll back with `deploy --undo`.',
+        score: 1,
+        breadcrumbs: ['Guides', 'Deploying']
+      }]);
+    });
+
+    it('reports rejected tokens', async () => {
+      const health = await connector.checkHealth(entry({ auth: { type: 'token', config: { urlPattern: '.*', type: 'token', token: 'wrong' } } }));
+
+      expect(health).toMatchObject({ healthy: false, message: expect.stringContaining('rejected the credentials') });
+    });
+  });
+});
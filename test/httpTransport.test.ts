@@ -0,0 +1,158 @@
+import { Response } from 'express';
+import request from 'supertest';
+import { MCPServer } from '../src/mcpServer';
+import { HttpSession, HttpTransport } from '../src/transport/httpTransport';
+
+describe('HttpTransport', () => {
+  let transport: HttpTransport;
+
+  beforeEach(() => {
+    transport = new HttpTransport(new MCPServer());
+  });
+
+  afterEach(async () => {
+    await transport.stop();
+  });
+
+  async function initialize(): Promise<string> {
+    const res = await request(transport.getApp())
+      .post('/mcp')
+      .set('Accept', 'application/json, text/event-stream')
+      .send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { clientInfo: { name: 'test', version: '1.0.0' } } });
+
+    expect(res.status).toBe(200);
+    expect(res.headers['mcp-session-id']).toBeDefined();
+    return res.headers['mcp-session-id'];
+  }
+
+  it('creates a session on initialize and serves later requests in it', async () => {
+    const sessionId = await initialize();
+
+    const res = await request(transport.getApp())
+      .post('/mcp')
+      .set('Mcp-Session-Id', sessionId)
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.id).toBe(2);
+    expect(Array.isArray(res.body.result.tools)).toBe(true);
+    expect(transport.getSessionCount()).toBe(1);
+  });
+
+  it('rejects requests without a session header', async () => {
+    const res = await request(transport.getApp())
+      .post('/mcp')
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 404 for unknown sessions', async () => {
+    const res = await request(transport.getApp())
+      .post('/mcp')
+      .set('Mcp-Session-Id', 'does-not-exist')
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(res.status).toBe(404);
+  });
+
+  it('accepts notifications with 202 and no body', async () => {
+    const sessionId = await initialize();
+
+    const res = await request(transport.getApp())
+      .post('/mcp')
+      .set('Mcp-Session-Id', sessionId)
+      .send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+    expect(res.status).toBe(202);
+    expect(res.text).toBe('');
+  });
+
+  it('reports malformed JSON as a parse error', async () => {
+    const res = await request(transport.getApp())
+      .post('/mcp')
+      .set('Content-Type', 'application/json')
+      .send('{"jsonrpc": "2.0", ');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe(-32700);
+  });
+
+  it('terminates a session on DELETE', async () => {
+    const sessionId = await initialize();
+
+    const res = await request(transport.getApp())
+      .delete('/mcp')
+      .set('Mcp-Session-Id', sessionId);
+
+    expect(res.status).toBe(204);
+    expect(transport.getSessionCount()).toBe(0);
+  });
+
+  it('rejects origins that are not allowed', async () => {
+    const restricted = new HttpTransport(new MCPServer(), { allowedOrigins: ['https://wiki.example.com'] });
+
+    const res = await request(restricted.getApp())
+      .post('/mcp')
+      .set('Origin', 'https://evil.example.com')
+      .send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('rejects cross-origin requests unless their origin is listed', async () => {
+    const post = (origin: string) => request(transport.getApp())
+      .post('/mcp')
+      .set('Origin', origin)
+      .send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+
+    expect((await post('http://attacker.example.com:3000')).status).toBe(403);
+    expect((await post('null')).status).toBe(403);
+    expect((await post('http://localhost:5173')).status).toBe(200);
+    expect((await post('http://127.0.0.1:3000')).status).toBe(200);
+  });
+
+  it('gives the admin tools only to sessions initialized with the admin token', async () => {
+    await transport.stop();
+    transport = new HttpTransport(new MCPServer({ adminTools: true }), { adminToken: 'let-me-in' });
+    const toolNames = async (authorization?: string) => {
+      const init = request(transport.getApp())
+        .post('/mcp')
+        .send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { clientInfo: { name: 'test', version: '1.0.0' } } });
+      const sessionId = (await (authorization ? init.set('Authorization', authorization) : init)).headers['mcp-session-id'];
+      const res = await request(transport.getApp())
+        .post('/mcp')
+        .set('Mcp-Session-Id', sessionId)
+        .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+      return res.body.result.tools.map((tool: any) => tool.name);
+    };
+
+    expect(await toolNames()).not.toContain('add_wiki_source');
+    expect(await toolNames('Bearer let-me-out')).not.toContain('add_wiki_source');
+    expect(await toolNames('Bearer let-me-in')).toContain('add_wiki_source');
+  });
+
+  it('drops only notifications when the queue of a session without a stream overflows', () => {
+    const session = new HttpSession('queued', 2);
+    session.notify({ jsonrpc: '2.0', id: 'server-1', method: 'roots/list', params: {} });
+    for (const progress of [1, 2, 3]) {
+      session.notify({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 't', progress } });
+    }
+
+    const written: string[] = [];
+    session.attachStream({ write: (chunk: string) => written.push(chunk) } as unknown as Response);
+    const messages = written.map(event => JSON.parse(event.split('data: ')[1]));
+
+    expect(messages).toEqual([
+      expect.objectContaining({ id: 'server-1', method: 'roots/list' }),
+      expect.objectContaining({ method: 'notifications/progress', params: expect.objectContaining({ progress: 3 }) })
+    ]);
+  });
+
+  it('exposes a health endpoint', async () => {
+    const res = await request(transport.getApp()).get('/health');
+
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe('ok');
+  });
+});
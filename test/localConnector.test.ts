@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { LocalConnector } from '../src/sources/connectors';
+import { isIgnored, parseFrontMatter, parseGitignore } from '../src/sources/localDocs';
+import { WikiSource } from '../src/sources/wikiSource';
+import { WikiEntry, WikiType } from '../src/sources/types';
+
+function writeFiles(root: string, files: Record<string, string>): void {
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+    fs.writeFileSync(path.join(root, name), content);
+  }
+}
+
+// Page path WikiSource derives from a file:// URL
+function pagePath(file: string): string {
+  return pathToFileURL(file).pathname.slice(1);
+}
+
+const FILES: Record<string, string> = {
+  '.gitignore': 'generated/\n*.draft.md\n',
+  'README.md': [
+    '---',
+    'title: Team handbook',
+    'tags: [onboarding, ops]',
+    '---',
+    '# Handbook',
+    '',
+    'Start with [deploying](guides/deploy.md#steps) and [setup](guides/setup).',
+    'See the [guides](guides/) and the [site](https://example.com/docs.md).',
+    'Broken: [gone](missing.md). Outside: [up](../elsewhere.md).',
+    '',
+    '[notes]: ./notes.adoc'
+  ].join('\n'),
+  'guides/README.md': '# Guides\n\nBack to the [handbook](/README.md).',
+  'guides/deploy.md': '# Deploying\n\nRun the release pipeline.',
+  'guides/setup.mdx': '# Setup\n\nInstall the toolchain.',
+  'notes.adoc': '= Notes\n\nSee xref:guides/deploy.md[deploying] and <<api.rst#,the API>>.',
+  'api.rst': 'API\n===\n\nRead `the notes <notes.adoc>`_ first.',
+  'generated/output.md': '# Generated',
+  'plan.draft.md': '# Draft',
+  'guides/.gitignore': 'local.md\n',
+  'guides/local.md': '# Local only'
+};
+
+describe('LocalConnector', () => {
+  let root: string;
+  const connector = new LocalConnector();
+  const entry = (overrides: Partial<WikiEntry> = {}): WikiEntry => ({
+    id: 'docs', name: 'Docs', type: WikiType.Local, url: pathToFileURL(root).toString(), ...overrides
+  });
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-local-'));
+    writeFiles(root, FILES);
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('indexes documentation files, skipping what .gitignore files exclude', async () => {
+    const pages = await connector.listPages(entry());
+
+    expect(pages.map(page => path.relative(root, new URL(page.url).pathname))).toEqual([
+      'api.rst', 'notes.adoc', 'README.md', path.join('guides', 'deploy.md'), path.join('guides', 'README.md'), path.join('guides', 'setup.mdx')
+    ]);
+    expect(pages[2].title).toBe('Team handbook');
+    expect(pages[3]).toMatchObject({ title: 'Deploying', breadcrumbs: ['guides'] });
+  });
+
+  it('rewrites relative links between documents to wiki:// resource URIs', async () => {
+    const readme = await connector.fetch(entry());
+    const guides = await connector.fetch(entry({ url: pathToFileURL(path.join(root, 'guides/README.md')).toString(), sourceUrl: entry().url }));
+    const notes = await connector.fetch(entry({ url: pathToFileURL(path.join(root, 'notes.adoc')).toString(), sourceUrl: entry().url }));
+    const api = await connector.fetch(entry({ url: pathToFileURL(path.join(root, 'api.rst')).toString(), sourceUrl: entry().url }));
+    const uri = (name: string) => `wiki://docs/${pagePath(path.join(root, name))}`;
+
+    expect(readme).toContain('title: Team handbook');
+    expect(readme).toContain(`[deploying](${uri('guides/deploy.md')}#steps)`);
+    expect(readme).toContain(`[setup](${uri('guides/setup.mdx')})`);
+    expect(readme).toContain(`[guides](${uri('guides/README.md')})`);
+    expect(readme).toContain('[site](https://example.com/docs.md)');
+    expect(readme).toContain('[gone](missing.md)');
+    expect(readme).toContain('[up](../elsewhere.md)');
+    expect(readme).toContain(`[notes]: ${uri('notes.adoc')}`);
+    expect(guides).toContain(`[handbook](${uri('README.md')})`);
+    expect(notes).toContain(`xref:${uri('guides/deploy.md')}[deploying]`);
+    expect(notes).toContain(`<<${uri('api.rst')}#,the API>>`);
+    expect(api).toContain(`\`the notes <${uri('notes.adoc')}>\`_`);
+  });
+
+  it('refuses files outside the directory and files it did not index', async () => {
+    const outside = entry({ url: pathToFileURL(path.join(os.tmpdir(), 'other.md')).toString(), sourceUrl: entry().url });
+    const ignored = entry({ url: pathToFileURL(path.join(root, 'plan.draft.md')).toString(), sourceUrl: entry().url });
+
+    await expect(connector.fetch(outside)).rejects.toThrow('Not an indexed document');
+    await expect(connector.fetch(ignored)).rejects.toThrow('Not an indexed document');
+  });
+
+  it('re-indexes on change so edits are searchable within a second', async () => {
+    const watched = entry({ url: pathToFileURL(root).toString() });
+    const changes: string[][] = [];
+    const stop = connector.watch(watched, urls => changes.push(urls));
+
+    try {
+      await connector.listPages(watched);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      fs.writeFileSync(path.join(root, 'guides/rollback.md'), '# Rollback\n\nUse the flux capacitor.');
+
+      const deadline = Date.now() + 3000;
+      while (changes.length === 0 && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+
+      expect(changes).toEqual([[pathToFileURL(path.join(root, 'guides/rollback.md')).toString()]]);
+      const hits = await connector.search(watched, 'flux capacitor', 5);
+      expect(hits).toEqual([expect.objectContaining({ title: 'Rollback', breadcrumbs: ['guides'] })]);
+    } finally {
+      stop();
+      fs.rmSync(path.join(root, 'guides/rollback.md'), { force: true });
+    }
+  });
+});
+
+describe('localDocs front matter and .gitignore rules', () => {
+  it('parses YAML front matter and leaves other leading text alone', () => {
+    expect(parseFrontMatter('---\ntitle: A\ntags:\n  - x\n---\nBody')).toEqual({ metadata: { title: 'A', tags: ['x'] }, body: 'Body' });
+    expect(parseFrontMatter('---\n- just\n- a list\n---\nBody').metadata).toEqual({});
+    expect(parseFrontMatter('No front matter\n---\n').body).toBe('No front matter\n---\n');
+  });
+
+  it('matches patterns the way git does', () => {
+    const rules = [...parseGitignore('# comment\n*.log\n/build\ndocs/*.tmp\ncache/\n!keep.log\n', ''), ...parseGitignore('secret.md', 'sub')];
+
+    expect(isIgnored('a/b/debug.log', false, rules)).toBe(true);
+    expect(isIgnored('keep.log', false, rules)).toBe(false);
+    expect(isIgnored('build', true, rules)).toBe(true);
+    expect(isIgnored('src/build', true, rules)).toBe(false);
+    expect(isIgnored('docs/x.tmp', false, rules)).toBe(true);
+    expect(isIgnored('cache', true, rules)).toBe(true);
+    expect(isIgnored('cache', false, rules)).toBe(false);
+    expect(isIgnored('sub/deeper/secret.md', false, rules)).toBe(true);
+    expect(isIgnored('secret.md', false, rules)).toBe(false);
+  });
+});
+
+describe('WikiSource with a local directory', () => {
+  let root: string;
+  let configDir: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-local-'));
+    writeFiles(root, FILES);
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wiki-'));
+    fs.writeFileSync(path.join(configDir, 'mcp.config.json'), JSON.stringify({
+      wikiUrls: [{ url: pathToFileURL(root).toString(), name: 'Handbook', exclude: ['notes.adoc'] }]
+    }));
+    process.env.MCP_CONFIG_PATH = path.join(configDir, 'mcp.config.json');
+  });
+
+  afterAll(() => {
+    delete process.env.MCP_CONFIG_PATH;
+    fs.rmSync(root, { recursive: true, force: true });
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('serves documents as resources, searches them and reports edits to read pages', async () => {
+    const source = new WikiSource();
+    await new Promise(resolve => source.once('resourceListChanged', resolve));
+
+    const [details] = source.getWikiSourceDetails();
+    expect(details).toMatchObject({ id: 'handbook', type: 'local' });
+
+    const deployUri = `wiki://handbook/${pagePath(path.join(root, 'guides/deploy.md'))}`;
+    const resources = source.listResources();
+    expect(resources.map(r => r.uri)).toContain(deployUri);
+    expect(resources.find(r => r.uri.endsWith('api.rst'))?.mimeType).toBe('text/x-rst');
+    expect(resources.some(r => r.uri.endsWith('notes.adoc'))).toBe(false);
+    expect(await source.readResource(`wiki://handbook/${pagePath(path.join(root, 'notes.adoc'))}`)).toBeNull();
+
+    expect((await source.readResource(deployUri))?.text).toContain('Run the release pipeline.');
+    const [hit] = await source.getContext({ query: { text: 'release pipeline' } });
+    expect(hit).toMatchObject({ title: 'Deploying', resourceUri: deployUri, breadcrumbs: ['guides'] });
+
+    const updated = new Promise(resolve => source.on('resourceUpdated', uri => uri === deployUri && resolve(uri)));
+    fs.writeFileSync(path.join(root, 'guides/deploy.md'), '# Deploying\n\nRun the canary pipeline first.');
+    await updated;
+
+    expect((await source.readResource(deployUri))?.text).toContain('canary pipeline');
+    source.removeSource('handbook');
+  });
+});
@@ -0,0 +1,128 @@
+import * as http from 'http';
+import { MediaWikiConnector } from '../src/sources/connectors';
+import { WikiEntry, WikiType } from '../src/sources/types';
+
+// Stand-in for api.php: two pages per allpages call, so listing has to follow continuation
+const PAGES: Record<number, string[]> = {
+  0: ['Flakes', 'Home Manager', 'Main Page', 'NixOS'],
+  4: ['NixOS Wiki:About']
+};
+
+function answer(params: URLSearchParams): any {
+  if (params.get('format') !== 'json') {
+    return { error: { code: 'badformat', info: 'format=json expected' } };
+  }
+
+  if (params.get('action') === 'parse') {
+    const page = params.get('page')!.replace(/_/g, ' ');
+    return Object.values(PAGES).some(titles => titles.includes(page))
+      ? { parse: { title: page, text: { '*': `<div><p>${page} article</p></div>` } } }
+      : { error: { code: 'missingtitle', info: "The page you specified doesn't exist." } };
+  }
+
+  if (params.get('list') === 'allpages') {
+    const titles = PAGES[Number(params.get('apnamespace'))] || [];
+    const start = params.has('apcontinue') ? titles.indexOf(params.get('apcontinue')!) : 0;
+    const batch = titles.slice(start, start + Math.min(2, Number(params.get('aplimit'))));
+    const next = titles[start + batch.length];
+    return {
+      ...(next ? { continue: { apcontinue: next, continue: '-||' } } : {}),
+      query: { allpages: batch.map(title => ({ title })) }
+    };
+  }
+
+  if (params.get('list') === 'search') {
+    const namespaces = params.get('srnamespace')!.split('|').map(Number);
+    const term = params.get('srsearch')!.toLowerCase();
+    const hits = namespaces.flatMap(ns => PAGES[ns] || []).filter(title => title.toLowerCase().includes(term));
+    return {
+      query: {
+        search: hits.slice(0, Number(params.get('srlimit'))).map(title => ({
+          title,
+          snippet: `Configuring <span class="searchmatch">${title}</span> declaratively`
+        }))
+      }
+    };
+  }
+
+  if (params.get('meta') === 'siteinfo') {
+    return { query: { general: { sitename: 'Stand-in wiki' } } };
+  }
+
+  return { error: { code: 'badvalue', info: 'Unrecognized request' } };
+}
+
+describe('MediaWikiConnector', () => {
+  let api: http.Server;
+  let baseUrl: string;
+  const requests: URLSearchParams[] = [];
+  const connector = new MediaWikiConnector();
+
+  beforeAll(async () => {
+    api = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      res.setHeader('Content-Type', 'application/json');
+      if (url.pathname !== '/api.php') {
+        res.statusCode = 404;
+        res.end('{}');
+        return;
+      }
+      requests.push(url.searchParams);
+      res.end(JSON.stringify(answer(url.searchParams)));
+    });
+    await new Promise<void>(resolve => api.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(api.address() as any).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => api.close(resolve));
+  });
+
+  const entry = (overrides: Partial<WikiEntry> = {}): WikiEntry => ({
+    id: 'nixos', name: 'NixOS wiki', type: WikiType.MediaWiki, url: `${baseUrl}/wiki/Main_Page`, ...overrides
+  });
+
+  it('renders the configured page and pages addressed by title', async () => {
+    expect(await connector.fetch(entry())).toContain('Main Page article');
+    expect(await connector.fetch(entry({ url: `${baseUrl}/wiki/Home_Manager` }))).toContain('Home Manager article');
+    await expect(connector.fetch(entry({ url: `${baseUrl}/wiki/Missing` }))).rejects.toThrow("MediaWiki API error: The page you specified doesn't exist.");
+  });
+
+  it('lists every page across continuation batches as /wiki/ URLs', async () => {
+    requests.length = 0;
+    const pages = await connector.listPages(entry());
+
+    expect(pages).toEqual([
+      { url: `${baseUrl}/wiki/Flakes`, title: 'Flakes' },
+      { url: `${baseUrl}/wiki/Home_Manager`, title: 'Home Manager' },
+      { url: `${baseUrl}/wiki/Main_Page`, title: 'Main Page' },
+      { url: `${baseUrl}/wiki/NixOS`, title: 'NixOS' }
+    ]);
+    expect(requests.map(params => params.get('apcontinue'))).toEqual([null, 'Main Page']);
+  });
+
+  it('honours namespaces and maxPages', async () => {
+    const withProject = await connector.listPages(entry({ options: { namespaces: [0, 4] } }));
+    const limited = await connector.listPages(entry({ maxPages: 3 }));
+
+    expect(withProject.map(page => page.url)).toContain(`${baseUrl}/wiki/NixOS_Wiki:About`);
+    expect(limited).toHaveLength(3);
+  });
+
+  it('searches through list=search and returns plain-text snippets', async () => {
+    const hits = await connector.search(entry({ options: { namespaces: [0, 4] } }), 'nixos', 5);
+
+    expect(hits).toEqual([
+      { url: `${baseUrl}/wiki/NixOS`, title: 'NixOS', content: 'Configuring NixOS declaratively', score: 2 },
+      { url: `${baseUrl}/wiki/NixOS_Wiki:About`, title: 'NixOS Wiki:About', content: 'Configuring NixOS Wiki:About declaratively', score: 1 }
+    ]);
+  });
+
+  it('uses an explicit apiUrl and reports health from siteinfo', async () => {
+    const health = await connector.checkHealth(entry({ url: 'https://wiki.example/start', options: { apiUrl: `${baseUrl}/api.php` } }));
+    const broken = await connector.checkHealth(entry({ url: `${baseUrl}/docs/wiki/Main_Page` }));
+
+    expect(health.healthy).toBe(true);
+    expect(broken.healthy).toBe(false);
+  });
+});
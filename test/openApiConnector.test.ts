@@ -0,0 +1,308 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { OpenApiConnector } from '../src/sources/connectors';
+import { WikiSource } from '../src/sources/wikiSource';
+import { WikiEntry, WikiType } from '../src/sources/types';
+
+const DEPLOY_API = `
+openapi: 3.0.3
+info:
+  title: Deploy API
+  version: 2.1.0
+  description: Ship releases to environments.
+servers:
+  - url: /v1
+tags:
+  - name: deployments
+    description: Rollouts of a release to an environment
+security:
+  - bearerAuth: []
+paths:
+  /deployments:
+    get:
+      operationId: listDeployments
+      summary: List deployments
+      tags: [deployments]
+      parameters:
+        - $ref: '#/components/parameters/Limit'
+        - name: environment
+          in: query
+          schema: { $ref: '#/components/schemas/Environment' }
+      responses:
+        '200':
+          description: A page of deployments
+          content:
+            application/json:
+              schema:
+                type: array
+                items: { $ref: '#/components/schemas/Deployment' }
+    post:
+      operationId: createDeployment
+      summary: Create a deployment
+      description: Starts rolling out a release and returns once the rollout is queued.
+      tags: [deployments]
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema: { $ref: '#/components/schemas/NewDeployment' }
+            examples:
+              canary:
+                summary: Canary to production
+                value: { release: '2024.06.1', environment: production, strategy: canary }
+      responses:
+        '201':
+          description: The deployment was queued
+          content:
+            application/json:
+              schema: { $ref: '#/components/schemas/Deployment' }
+        '409':
+          $ref: '#/components/responses/Conflict'
+  /deployments/{id}:
+    parameters:
+      - name: id
+        in: path
+        required: true
+        description: Deployment id
+        schema: { type: string }
+    delete:
+      summary: Cancel a deployment
+      tags: [deployments]
+      security: []
+      responses:
+        '204': { description: Cancelled }
+  /health:
+    get:
+      operationId: getHealth
+      responses:
+        '200': { description: OK }
+components:
+  securitySchemes:
+    bearerAuth: { type: http, scheme: bearer }
+  parameters:
+    Limit: { name: limit, in: query, description: Page size, schema: { type: integer, default: 20 } }
+  responses:
+    Conflict:
+      description: Another deployment is running
+      content:
+        application/json:
+          schema: { $ref: '#/components/schemas/Error' }
+          example: { code: conflict, message: dep-41 is still rolling out }
+  schemas:
+    Environment: { type: string, enum: [staging, production] }
+    NewDeployment:
+      type: object
+      required: [release, environment]
+      properties:
+        release: { type: string, description: Release tag to deploy }
+        environment: { $ref: '#/components/schemas/Environment' }
+        strategy: { type: string, enum: [rolling, canary], default: rolling }
+    Deployment:
+      allOf:
+        - $ref: '#/components/schemas/NewDeployment'
+        - type: object
+          required: [id]
+          properties:
+            id: { type: string }
+            createdAt: { type: string, format: date-time }
+            previous: { $ref: '#/components/schemas/Deployment' }
+    Error:
+      type: object
+      properties:
+        code: { type: string }
+        message: { type: string }
+`;
+
+const PET_STORE = {
+  swagger: '2.0',
+  info: { title: 'Pets', version: '1' },
+  host: 'pets.example.com',
+  basePath: '/api',
+  schemes: ['https'],
+  consumes: ['application/json'],
+  produces: ['application/json'],
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'findPets',
+        summary: 'Find pets by tag',
+        parameters: [{ name: 'tags', in: 'query', type: 'array', items: { type: 'string' }, description: 'Tags to filter by' }],
+        responses: { 200: { description: 'Matching pets', schema: { type: 'array', items: { $ref: '#/definitions/Pet' } } } }
+      },
+      post: {
+        operationId: 'addPet',
+        summary: 'Add a pet',
+        tags: ['pets'],
+        parameters: [{ name: 'body', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } }],
+        responses: {
+          200: { description: 'The stored pet', schema: { $ref: '#/definitions/Pet' }, examples: { 'application/json': { id: 7, name: 'Rex' } } }
+        }
+      }
+    }
+  },
+  definitions: {
+    Pet: { type: 'object', required: ['name'], properties: { id: { type: 'integer', format: 'int64' }, name: { type: 'string' } } }
+  }
+};
+
+describe('OpenApiConnector', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: string[] = [];
+  const connector = new OpenApiConnector();
+  const entry = (overrides: Partial<WikiEntry> = {}): WikiEntry => ({
+    id: 'deploy', name: 'Deploy API', type: WikiType.OpenAPI, url: `${baseUrl}/specs/openapi.yaml`, ...overrides
+  });
+  const operationUrl = (id: string) => {
+    const url = new URL(`${baseUrl}/specs/openapi.yaml`);
+    url.searchParams.set('operation', id);
+    return url.toString();
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req.url || '/');
+      if (req.url === '/specs/openapi.yaml' || req.url === '/portal/openapi.yaml') {
+        res.setHeader('content-type', 'application/yaml');
+        res.end(DEPLOY_API);
+      } else if (req.url === '/portal/') {
+        res.setHeader('content-type', 'text/html');
+        res.end('<!DOCTYPE html><html><body><div id="redoc"></div></body></html>');
+      } else {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as any).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('lists every operation as a page of the source, loading the spec once', async () => {
+    requests.length = 0;
+    const pages = await connector.listPages(entry());
+    await connector.fetch(entry({ url: operationUrl('getHealth'), sourceUrl: entry().url }));
+
+    expect(pages).toEqual([
+      { url: operationUrl('listDeployments'), title: 'GET /deployments: List deployments', breadcrumbs: ['deployments'] },
+      { url: operationUrl('createDeployment'), title: 'POST /deployments: Create a deployment', breadcrumbs: ['deployments'] },
+      { url: operationUrl('DELETE /deployments/{id}'), title: 'DELETE /deployments/{id}: Cancel a deployment', breadcrumbs: ['deployments'] },
+      { url: operationUrl('getHealth'), title: 'GET /health', breadcrumbs: [] }
+    ]);
+    expect(requests).toEqual(['/specs/openapi.yaml']);
+  });
+
+  it('renders an operation with its endpoint, schemas and examples, following $refs', async () => {
+    const create = await connector.fetch(entry({ url: operationUrl('createDeployment'), sourceUrl: entry().url }));
+
+    expect(create).toContain('# POST /deployments\n\nCreate a deployment');
+    expect(create).toContain(`- Endpoint: \`POST ${baseUrl}/v1/deployments\``);
+    expect(create).toContain('- Authentication: bearerAuth');
+    expect(create).toContain('## Request body\n\nRequired.\n\n`application/json`: NewDeployment');
+    expect(create).toContain('- `release` (required, string): Release tag to deploy');
+    expect(create).toContain('- `environment` (required, Environment, values: staging, production)');
+    expect(create).toContain('- `strategy` (string, values: rolling, canary, default "rolling")');
+    expect(create).toContain('Example (Canary to production):\n\n```json\n{\n  "release": "2024.06.1"');
+
+    // allOf is merged, and the self-reference is named without being expanded again
+    expect(create).toContain('### 201: The deployment was queued\n\n`application/json`: Deployment');
+    expect(create).toContain('- `id` (required, string)');
+    expect(create).toContain('- `createdAt` (string (date-time))');
+    expect(create).toContain('- `previous` (Deployment)\n');
+    expect(create).toContain('### 409: Another deployment is running');
+    expect(create).toContain('"message": "dep-41 is still rolling out"');
+
+    const list = await connector.fetch(entry({ url: operationUrl('listDeployments'), sourceUrl: entry().url }));
+    expect(list).toContain('- `limit` (query, integer, default 20): Page size');
+    expect(list).toContain('`application/json`: array of Deployment');
+
+    const cancel = await connector.fetch(entry({ url: operationUrl('DELETE /deployments/{id}'), sourceUrl: entry().url }));
+    expect(cancel).toContain('- Authentication: none');
+    expect(cancel).toContain('- `id` (path, required, string): Deployment id');
+  });
+
+  it('finds the operation that answers a question', async () => {
+    const hits = await connector.search(entry(), 'which endpoint creates a deployment', 3);
+    const [cancel] = await connector.search(entry(), 'which endpoint deletes a deployment', 3);
+    const [list] = await connector.search(entry(), 'how do I list deployments', 3);
+
+    expect(hits[0]).toMatchObject({ url: operationUrl('createDeployment'), title: 'POST /deployments: Create a deployment', breadcrumbs: ['deployments'] });
+    expect(cancel).toMatchObject({ title: 'DELETE /deployments/{id}: Cancel a deployment' });
+    expect(list).toMatchObject({ url: operationUrl('listDeployments') });
+  });
+
+  it('discovers the spec behind a documentation site and describes the API by tag', async () => {
+    const overview = await connector.fetch(entry({ url: `${baseUrl}/portal/` }));
+
+    expect(overview).toContain('# Deploy API (2.1.0)\n\nShip releases to environments.');
+    expect(overview).toContain(`Servers: ${baseUrl}/v1`);
+    expect(overview).toContain('## deployments\n\nRollouts of a release to an environment\n\n- `GET /deployments`: List deployments');
+    expect(overview).toContain('## Other operations\n\n- `GET /health`');
+    expect(await connector.checkHealth(entry({ url: `${baseUrl}/nothing/`, options: { specUrl: 'missing.json' } })))
+      .toMatchObject({ healthy: false });
+  });
+
+  it('reads Swagger 2 files, mapping body parameters and response examples', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-openapi-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'swagger.json'), JSON.stringify(PET_STORE));
+      const source = pathToFileURL(path.join(dir, 'swagger.json')).toString();
+      const pets = (id: string) => entry({ url: `${source}?operation=${id}`, sourceUrl: source });
+
+      const add = await connector.fetch(pets('addPet'));
+      expect(add).toContain('- Endpoint: `POST https://pets.example.com/api/pets`');
+      expect(add).toContain('## Request body\n\nRequired.\n\n`application/json`: Pet\n\n- `id` (integer (int64))');
+      expect(add).toContain('- `name` (required, string)');
+      expect(add).toContain('```json\n{\n  "id": 7,\n  "name": "Rex"\n}\n```');
+
+      const find = await connector.fetch(pets('findPets'));
+      expect(find).toContain('- `tags` (query, array of string): Tags to filter by');
+      expect(find).not.toContain('## Request body');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('WikiSource with an OpenAPI spec', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-openapi-'));
+    fs.writeFileSync(path.join(dir, 'openapi.yaml'), DEPLOY_API);
+    fs.writeFileSync(path.join(dir, 'mcp.config.json'), JSON.stringify({ wikiUrls: [pathToFileURL(path.join(dir, 'openapi.yaml')).toString()] }));
+    process.env.MCP_CONFIG_PATH = path.join(dir, 'mcp.config.json');
+  });
+
+  afterAll(() => {
+    delete process.env.MCP_CONFIG_PATH;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serves operations as resources and returns the operation for a question', async () => {
+    const source = new WikiSource();
+    await new Promise(resolve => source.once('resourceListChanged', resolve));
+
+    const [details] = source.getWikiSourceDetails();
+    expect(details).toMatchObject({ id: 'openapi-openapi-yaml', type: 'openapi' });
+
+    const createUri = resources(source).find(uri => uri.endsWith('?operation=createDeployment'));
+    expect(createUri).toBeDefined();
+    const contents = await source.readResource(createUri!);
+    expect(contents).toMatchObject({ mimeType: 'text/markdown', text: expect.stringContaining('# POST /deployments') });
+
+    const [hit] = await source.getContext({ query: { text: 'which endpoint creates a deployment' } });
+    expect(hit).toMatchObject({ title: 'POST /deployments: Create a deployment', resourceUri: createUri });
+    source.removeSource(details.id);
+  });
+
+  function resources(source: WikiSource): string[] {
+    return source.listResources().map(resource => resource.uri);
+  }
+});
@@ -0,0 +1,30 @@
+import { InvalidCursorError, decodeCursor, encodeCursor, paginate } from '../src/pagination';
+
+describe('paginate', () => {
+  const items = ['a', 'b', 'c', 'd', 'e'];
+
+  it('walks every item exactly once by following nextCursor', () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = paginate(items, cursor, 2, 'resources/list');
+      seen.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual(items);
+  });
+
+  it('omits nextCursor on the last page', () => {
+    expect(paginate(items, undefined, 5, 'tools/list')).toEqual({ items, nextCursor: undefined });
+  });
+
+  it('rejects cursors issued for another scope or not issued at all', () => {
+    const cursor = encodeCursor('search_wiki:deploy', 10);
+
+    expect(decodeCursor(cursor, 'search_wiki:deploy')).toBe(10);
+    expect(() => decodeCursor(cursor, 'search_wiki:rollback')).toThrow(InvalidCursorError);
+    expect(() => decodeCursor('not-a-cursor', 'tools/list')).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(encodeCursor('tools/list', -1), 'tools/list')).toThrow(InvalidCursorError);
+  });
+});
@@ -0,0 +1,327 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { GitHubConnector, GitLabConnector } from '../src/sources/connectors';
+import { WikiEntry, WikiType } from '../src/sources/types';
+
+const FILES: Record<string, string> = {
+  'README.md': '# Platform\n\nThe platform monorepo.',
+  'docs/README.md': '# Docs\n\nStart with the runbooks.',
+  'docs/runbooks/deploy.md': '---\ntitle: Deploying the platform\n---\nPromote the release café build.',
+  'docs/architecture.adoc': '= Architecture\n\nServices talk over gRPC.',
+  'docs/diagram.png': 'binary',
+  'src/index.ts': 'export {};'
+};
+
+const sha = (filePath: string) => `sha-${Buffer.from(filePath).toString('hex')}`;
+const pathOf = (blobSha: string) => Buffer.from(blobSha.slice(4), 'hex').toString();
+
+// The APIs wrap base64 at 60 characters
+function encode(text: string): string {
+  return Buffer.from(text).toString('base64').replace(/(.{60})/g, '$1\n');
+}
+
+interface Reply { status?: number; headers?: Record<string, string>; body: any }
+
+function github(url: URL, state: { truncate: boolean }): Reply | undefined {
+  const route = url.pathname.replace(/^\/api\/v3\/repos\/acme\/platform/, '');
+  if (route === '') return { body: { default_branch: 'main' } };
+
+  if (route === '/git/trees/main' && url.searchParams.get('recursive')) {
+    if (state.truncate) return { body: { tree: [], truncated: true } };
+    return { body: { tree: Object.keys(FILES).map(p => ({ path: p, type: 'blob', sha: sha(p) })), truncated: false } };
+  }
+
+  // Non-recursive trees: the root by ref, directories by their path stand-in sha
+  const tree = route.match(/^\/git\/trees\/(.+)$/);
+  if (tree) {
+    const dir = tree[1] === 'main' ? '' : Buffer.from(decodeURIComponent(tree[1]).slice(5), 'hex').toString();
+    const children = new Map<string, any>();
+    for (const filePath of Object.keys(FILES).filter(p => !dir || p.startsWith(`${dir}/`))) {
+      const [name, ...more] = filePath.slice(dir ? dir.length + 1 : 0).split('/');
+      const childPath = dir ? `${dir}/${name}` : name;
+      children.set(name, more.length > 0
+        ? { path: name, type: 'tree', sha: `tree-${Buffer.from(childPath).toString('hex')}` }
+        : { path: name, type: 'blob', sha: sha(childPath) });
+    }
+    return { body: { tree: Array.from(children.values()), truncated: false } };
+  }
+
+  const contents = route.match(/^\/contents\/(.+)$/);
+  if (contents && url.searchParams.get('ref') === 'main') {
+    const filePath = decodeURIComponent(contents[1]);
+    return FILES[filePath] !== undefined ? { body: { path: filePath, encoding: 'base64', content: encode(FILES[filePath]) } } : undefined;
+  }
+
+  const blob = route.match(/^\/git\/blobs\/(.+)$/);
+  if (blob) return { body: { sha: blob[1], encoding: 'base64', content: encode(FILES[pathOf(blob[1])]) } };
+  return undefined;
+}
+
+const WIKI = [
+  { slug: 'home', title: 'Home', content: 'Welcome to the wiki' },
+  { slug: 'ops/on-call', title: 'On-call', content: 'Page the secondary after ten minutes' }
+];
+
+function gitlab(url: URL): Reply | undefined {
+  const project = encodeURIComponent('acme/infra/platform');
+  const prefix = `/api/v4/projects/${project}`;
+  const pathname = url.pathname.startsWith(prefix) ? url.pathname.slice(prefix.length) : undefined;
+  // Node decodes nothing, so the encoded project path arrives as sent
+  if (pathname === undefined) return undefined;
+  if (pathname === '') return { body: { default_branch: 'main' } };
+
+  // Two entries per page, so listing has to follow x-next-page
+  if (pathname === '/repository/tree') {
+    const dir = url.searchParams.get('path') || '';
+    const items = Object.keys(FILES).filter(p => !dir || p.startsWith(`${dir}/`)).map(p => ({ path: p, type: 'blob', id: sha(p) }));
+    const page = Number(url.searchParams.get('page'));
+    const next = page * 2 < items.length ? String(page + 1) : '';
+    return { headers: { 'x-next-page': next }, body: items.slice((page - 1) * 2, page * 2) };
+  }
+
+  const file = pathname.match(/^\/repository\/files\/([^/]+)$/);
+  if (file) {
+    const filePath = decodeURIComponent(file[1]);
+    return { body: { file_path: filePath, encoding: 'base64', content: encode(FILES[filePath]) } };
+  }
+
+  const blob = pathname.match(/^\/repository\/blobs\/([^/]+)\/raw$/);
+  if (blob) return { headers: { 'content-type': 'text/plain' }, body: FILES[pathOf(blob[1])] };
+
+  if (pathname === '/wikis') {
+    return { body: WIKI.map(page => url.searchParams.get('with_content') ? page : { slug: page.slug, title: page.title }) };
+  }
+  const wiki = pathname.match(/^\/wikis\/(.+)$/);
+  if (wiki) return { body: WIKI.find(page => page.slug === decodeURIComponent(wiki[1])) };
+  return undefined;
+}
+
+describe('GitHub and GitLab repository connectors', () => {
+  let api: http.Server;
+  let baseUrl: string;
+  const requests: string[] = [];
+  const githubState = { truncate: false };
+  // Responses queued ahead of the normal answer, to simulate rate limiting
+  const limited: Reply[] = [];
+
+  beforeAll(async () => {
+    api = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push(`${url.pathname}${url.search}`);
+
+      // Blobs read behind earlier listings must not take the queued rate limit replies
+      const reply = (!url.pathname.includes('/blobs/') && limited.shift())
+        || (req.headers.authorization !== 'Bearer repo-token' ? { status: 401, body: { message: 'Bad credentials' } } : undefined)
+        || (url.pathname.startsWith('/api/v3/') ? github(url, githubState) : gitlab(url))
+        || { status: 404, body: { message: 'Not Found' } };
+
+      res.statusCode = reply.status || 200;
+      const headers = { 'content-type': 'application/json', 'x-ratelimit-remaining': '4999', ...reply.headers };
+      for (const [name, value] of Object.entries(headers)) res.setHeader(name, value);
+      res.end(typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body));
+    });
+    await new Promise<void>(resolve => api.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(api.address() as any).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => api.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    limited.length = 0;
+  });
+
+  const auth = { type: 'token' as const, config: { urlPattern: '.*', type: 'token', token: 'repo-token' } };
+
+  describe('GitHub', () => {
+    const connector = new GitHubConnector();
+    const entry = (overrides: Partial<WikiEntry> = {}): WikiEntry => ({
+      id: 'platform',
+      name: 'Platform',
+      type: WikiType.GitHub,
+      url: 'https://github.example.com/acme/platform/tree/main/docs',
+      auth,
+      options: { apiUrl: `${baseUrl}/api/v3` },
+      ...overrides
+    });
+
+    it('walks the tree under the path prefix and maps documents to blob URLs', async () => {
+      const pages = await connector.listPages(entry());
+
+      expect(pages).toEqual([
+        { url: 'https://github.example.com/acme/platform/blob/main/docs/architecture.adoc', title: 'architecture', breadcrumbs: [] },
+        { url: 'https://github.example.com/acme/platform/blob/main/docs/README.md', title: 'README', breadcrumbs: [] },
+        { url: 'https://github.example.com/acme/platform/blob/main/docs/runbooks/deploy.md', title: 'deploy', breadcrumbs: ['runbooks'] }
+      ]);
+    });
+
+    it('walks directory by directory when GitHub truncates the recursive tree', async () => {
+      githubState.truncate = true;
+      try {
+        const pages = await connector.listPages(entry());
+        expect(pages.map(page => page.title)).toEqual(['architecture', 'README', 'deploy']);
+        expect(requests.some(request => request.includes('/git/trees/tree-'))).toBe(true);
+      } finally {
+        githubState.truncate = false;
+      }
+    });
+
+    it('decodes base64 contents and reads the README of the default branch for a repository URL', async () => {
+      const deploy = await connector.fetch(entry({ url: 'https://github.example.com/acme/platform/blob/main/docs/runbooks/deploy.md' }));
+      const home = await connector.fetch(entry({ url: 'https://github.example.com/acme/platform' }));
+
+      expect(deploy).toBe(FILES['docs/runbooks/deploy.md']);
+      expect(home).toBe('# Platform\n\nThe platform monorepo.');
+      expect(requests).toContain('/api/v3/repos/acme/platform');
+    });
+
+    it('searches contents read behind the listing, reading each blob once', async () => {
+      const reader = new GitHubConnector();
+      expect(await reader.search(entry(), 'grpc', 5)).toBeNull();
+
+      await reader.listPages(entry());
+      // "grpc" occurs only inside architecture.adoc
+      const hits = await searchUntilFound(() => reader.search(entry(), 'grpc', 5));
+      await reader.listPages(entry());
+      await searchUntilFound(() => reader.search(entry(), 'release cafe', 5));
+      const blobRequests = requests.filter(request => request.includes('/git/blobs/')).length;
+      requests.length = 0;
+
+      expect(hits).toEqual([expect.objectContaining({
+        url: 'https://github.example.com/acme/platform/blob/main/docs/architecture.adoc',
+        title: 'Architecture',
+        content: expect.stringContaining('Services talk over gRPC.')
+      })]);
+      expect(await reader.search(entry(), 'release cafe', 5)).toEqual([expect.objectContaining({
+        title: 'Deploying the platform',
+        breadcrumbs: ['runbooks']
+      })]);
+      expect(blobRequests).toBe(3);
+      expect(requests).toEqual([]);
+    });
+
+    it('clones the wiki for /wiki URLs and reads, lists and searches its pages', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wiki-'));
+      try {
+        const pages: Record<string, string> = {
+          'Home.md': '# Welcome\n\nStart here.',
+          'Release-Process.md': 'Tag the release, then promote it.',
+          'ops/On-Call.md': 'Page the secondary after ten minutes.',
+          '_Sidebar.md': '* [[Home]]'
+        };
+        for (const [file, content] of Object.entries(pages)) {
+          fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+          fs.writeFileSync(path.join(dir, file), content);
+        }
+        const git = (...args: string[]) => execFileSync('git', ['-C', dir, '-c', 'user.name=Wiki', '-c', 'user.email=wiki@example.com', ...args]);
+        git('init', '--quiet');
+        git('add', '.');
+        git('commit', '--quiet', '-m', 'Wiki');
+
+        const wiki = (url: string) => entry({ url, options: { apiUrl: `${baseUrl}/api/v3`, wikiUrl: dir } });
+        const home = wiki('https://github.example.com/acme/platform/wiki');
+
+        expect(await connector.listPages(home)).toEqual([
+          { url: 'https://github.example.com/acme/platform/wiki/Home', title: 'Home', breadcrumbs: [] },
+          { url: 'https://github.example.com/acme/platform/wiki/Release-Process', title: 'Release Process', breadcrumbs: [] },
+          { url: 'https://github.example.com/acme/platform/wiki/On-Call', title: 'On Call', breadcrumbs: ['ops'] }
+        ]);
+        expect(await connector.fetch(home)).toBe('# Welcome\n\nStart here.');
+        expect(await connector.fetch(wiki('https://github.example.com/acme/platform/wiki/release-process'))).toBe('Tag the release, then promote it.');
+        await expect(connector.fetch(wiki('https://github.example.com/acme/platform/wiki/Missing'))).rejects.toThrow('has no page Missing');
+        expect(await connector.search(home, 'secondary', 5)).toEqual([
+          expect.objectContaining({ title: 'On Call', url: 'https://github.example.com/acme/platform/wiki/On-Call' })
+        ]);
+        expect(requests).toEqual([]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('waits for a rate limit that resets soon and fails fast on one that does not', async () => {
+      const soon = String(Math.ceil(Date.now() / 1000) + 1);
+      limited.push({ status: 403, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': soon }, body: { message: 'API rate limit exceeded' } });
+      const started = Date.now();
+      expect(await connector.checkHealth(entry())).toMatchObject({ healthy: true });
+      expect(Date.now() - started).toBeGreaterThanOrEqual(200);
+
+      const later = String(Math.ceil(Date.now() / 1000) + 3600);
+      limited.push({ status: 403, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': later }, body: { message: 'API rate limit exceeded' } });
+      const health = await connector.checkHealth(entry({ options: { apiUrl: `${baseUrl}/api/v3/` } }));
+      expect(health).toMatchObject({ healthy: false, message: expect.stringContaining('rate limit exceeded until') });
+
+      // The exhausted limit holds back further requests without sending them
+      const before = requests.length;
+      await expect(connector.listPages(entry())).rejects.toThrow('rate limit exceeded');
+      expect(requests.length).toBe(before);
+    });
+  });
+
+  describe('GitLab', () => {
+    const connector = new GitLabConnector();
+    const entry = (overrides: Partial<WikiEntry> = {}): WikiEntry => ({
+      id: 'platform',
+      name: 'Platform',
+      type: WikiType.GitLab,
+      url: 'https://gitlab.example.com/acme/infra/platform/-/tree/main/docs',
+      auth,
+      options: { apiUrl: `${baseUrl}/api/v4` },
+      ...overrides
+    });
+
+    it('follows tree pages and maps documents to blob URLs', async () => {
+      const pages = await connector.listPages(entry());
+
+      expect(pages.map(page => page.url)).toEqual([
+        'https://gitlab.example.com/acme/infra/platform/-/blob/main/docs/architecture.adoc',
+        'https://gitlab.example.com/acme/infra/platform/-/blob/main/docs/README.md',
+        'https://gitlab.example.com/acme/infra/platform/-/blob/main/docs/runbooks/deploy.md'
+      ]);
+      expect(requests.filter(request => request.includes('/repository/tree')).length).toBe(2);
+    });
+
+    it('decodes files and searches raw blobs read behind the listing', async () => {
+      const deploy = await connector.fetch(entry({ url: 'https://gitlab.example.com/acme/infra/platform/-/blob/main/docs/runbooks/deploy.md' }));
+      await connector.listPages(entry());
+      const hits = await searchUntilFound(() => connector.search(entry(), 'grpc services', 5));
+
+      expect(deploy).toBe(FILES['docs/runbooks/deploy.md']);
+      expect(hits).toEqual([expect.objectContaining({ title: 'Architecture', url: expect.stringContaining('/-/blob/main/docs/architecture.adoc') })]);
+    });
+
+    it('reads, lists and searches the project wiki', async () => {
+      const wiki = entry({ url: 'https://gitlab.example.com/acme/infra/platform/-/wikis/home' });
+
+      expect(await connector.fetch(wiki)).toBe('# Home\n\nWelcome to the wiki');
+      expect(await connector.listPages(wiki)).toEqual([
+        { url: 'https://gitlab.example.com/acme/infra/platform/-/wikis/home', title: 'Home', breadcrumbs: [] },
+        { url: 'https://gitlab.example.com/acme/infra/platform/-/wikis/ops/on-call', title: 'On-call', breadcrumbs: ['ops'] }
+      ]);
+      expect(await connector.search(wiki, 'secondary', 5)).toEqual([
+        expect.objectContaining({ title: 'On-call', url: 'https://gitlab.example.com/acme/infra/platform/-/wikis/ops/on-call' })
+      ]);
+    });
+
+    it('retries after a 429 with Retry-After', async () => {
+      limited.push({ status: 429, headers: { 'retry-after': '0' }, body: { message: 'Retry later' } });
+
+      expect(await connector.checkHealth(entry())).toMatchObject({ healthy: true });
+      expect(requests.length).toBe(2);
+    });
+  });
+});
+
+// Blobs are read in the background after a listing, so search until they have arrived
+async function searchUntilFound(search: () => Promise<unknown[] | null>): Promise<unknown[] | null> {
+  let hits = await search();
+  for (let attempt = 0; attempt < 50 && hits?.length === 0; attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+    hits = await search();
+  }
+  return hits;
+}
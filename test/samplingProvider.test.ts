@@ -0,0 +1,53 @@
+import { SamplingProvider } from '../src/ai/samplingProvider';
+import { RequestContext, requestContext } from '../src/requestContext';
+
+function runWithClient<T>(sendRequest: jest.Mock, fn: () => Promise<T>, capabilities: Record<string, any> = { sampling: {} }) {
+  const context: RequestContext = { sessionId: 'test', clientCapabilities: capabilities, signal: new AbortController().signal, sendRequest };
+  return requestContext.run(context, fn);
+}
+
+const reply = (text: string) => jest.fn(async (_method: string, _params: any, _options?: any) => ({ role: 'assistant', content: { type: 'text', text }, model: 'client-model' }));
+
+describe('SamplingProvider', () => {
+  it('sends summaries to the client with a token limit derived from the requested length', async () => {
+    const provider = new SamplingProvider({ type: 'sampling', enabled: true, modelHints: ['gpt-4o'] });
+    const sendRequest = reply(' Short summary ');
+
+    const summary = await runWithClient(sendRequest, () => provider.summarizeContent('long text', 300));
+
+    expect(summary).toBe('Short summary');
+    expect(sendRequest).toHaveBeenCalledWith('sampling/createMessage', expect.objectContaining({
+      maxTokens: 100,
+      includeContext: 'none',
+      messages: [{ role: 'user', content: { type: 'text', text: 'long text' } }],
+      modelPreferences: expect.objectContaining({ hints: [{ name: 'gpt-4o' }] })
+    }), expect.objectContaining({ timeoutMs: 120000 }));
+  });
+
+  it('caps requested tokens at the configured limit for the task', async () => {
+    const provider = new SamplingProvider({ type: 'sampling', enabled: true, maxTokens: { summary: 50 } });
+    const sendRequest = reply('ok');
+
+    await runWithClient(sendRequest, () => provider.summarizeContent('text', 2000));
+
+    expect(sendRequest.mock.calls[0][1].maxTokens).toBe(50);
+  });
+
+  it('parses relevance scores and clamps them to 0-1', async () => {
+    const provider = new SamplingProvider({ type: 'sampling', enabled: true });
+
+    expect(await runWithClient(reply('0.8'), () => provider.calculateRelevance('deploy', 'How to deploy'))).toBe(0.8);
+    expect(await runWithClient(reply('7'), () => provider.calculateRelevance('deploy', 'How to deploy'))).toBe(1);
+    expect(await runWithClient(reply('not sure'), () => provider.calculateRelevance('deploy', 'How to deploy'))).toBe(0);
+  });
+
+  it('falls back when there is no client that supports sampling', async () => {
+    const provider = new SamplingProvider({ type: 'sampling', enabled: true });
+    const sendRequest = reply('unused');
+
+    expect(await provider.summarizeContent('abcdefghij', 8)).toBe('abcde...');
+    expect(await runWithClient(sendRequest, () => provider.summarizeContent('abcdefghij', 8), {})).toBe('abcde...');
+    expect(sendRequest).not.toHaveBeenCalled();
+    await expect(provider.generateEmbedding()).rejects.toThrow('not available');
+  });
+});
@@ -0,0 +1,77 @@
+import { RequestCancelledError, RequestScheduler, RequestTimeoutError, SchedulerOverloadedError } from '../src/scheduler';
+
+// A task that finishes only when told to, recording the signal it was given
+function deferredTask() {
+  let finish!: (value: string) => void;
+  const task = {
+    signal: undefined as AbortSignal | undefined,
+    started: false,
+    finish: (value: string) => finish(value),
+    run: (signal: AbortSignal) => {
+      task.started = true;
+      task.signal = signal;
+      return new Promise<string>(resolve => { finish = resolve; });
+    }
+  };
+  return task;
+}
+
+describe('RequestScheduler', () => {
+  it('runs at most the configured number of tasks per class and starts queued ones in order', async () => {
+    const scheduler = new RequestScheduler({ search: { concurrency: 1, timeoutMs: 1000, maxQueued: 5 } });
+    const first = deferredTask();
+    const second = deferredTask();
+
+    const firstResult = scheduler.run('search', first.run);
+    const secondResult = scheduler.run('search', second.run);
+    expect(first.started).toBe(true);
+    expect(second.started).toBe(false);
+    expect(scheduler.stats()).toEqual({ search: { active: 1, queued: 1 } });
+
+    first.finish('one');
+    expect(await firstResult).toBe('one');
+    expect(second.started).toBe(true);
+    second.finish('two');
+    expect(await secondResult).toBe('two');
+  });
+
+  it('rejects new requests once the queue is full', async () => {
+    const scheduler = new RequestScheduler({ generation: { concurrency: 1, timeoutMs: 1000, maxQueued: 1 } });
+    const running = deferredTask();
+    const queued = deferredTask();
+
+    const results = [scheduler.run('generation', running.run), scheduler.run('generation', queued.run)];
+    await expect(scheduler.run('generation', deferredTask().run)).rejects.toBeInstanceOf(SchedulerOverloadedError);
+
+    running.finish('done');
+    await results[0];
+    queued.finish('done');
+    await results[1];
+  });
+
+  it('times out from arrival and aborts the task signal', async () => {
+    const scheduler = new RequestScheduler({ search: { concurrency: 1, timeoutMs: 20, maxQueued: 5 } });
+    const task = deferredTask();
+
+    await expect(scheduler.run('search', task.run)).rejects.toBeInstanceOf(RequestTimeoutError);
+    expect(task.signal?.aborted).toBe(true);
+    task.finish('late');
+  });
+
+  it('drops a queued request when its caller cancels it', async () => {
+    const scheduler = new RequestScheduler({ search: { concurrency: 1, timeoutMs: 1000, maxQueued: 5 } });
+    const running = deferredTask();
+    const queued = deferredTask();
+    const controller = new AbortController();
+
+    const runningResult = scheduler.run('search', running.run);
+    const queuedResult = scheduler.run('search', queued.run, controller.signal);
+    controller.abort();
+
+    await expect(queuedResult).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(scheduler.stats().search.queued).toBe(0);
+    running.finish('done');
+    await runningResult;
+    expect(queued.started).toBe(false);
+  });
+});
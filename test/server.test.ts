@@ -1,2 +1,883 @@
-// This file is now obsolete. All Express/REST API tests have been removed.
-// Add new tests for MCPServer and WikiSource using direct method calls or a mock stdio loop.
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { pathToFileURL } from 'url';
+import { MCPServer, MCPRequest, MCPNotification, MCPResponse, MCPSession, SUPPORTED_PROTOCOL_VERSIONS } from '../src/mcpServer';
+import { AIProvider, AIRequestOptions } from '../src/ai/aiProvider';
+import { ContentTransformer, TemplateEngine } from '../src/transformation';
+import { SourceRegistry } from '../src/sources/sourceRegistry';
+import { SamplingProvider } from '../src/ai/samplingProvider';
+import { DocumentSource, WikiType } from '../src/sources/types';
+import { GenericConnector } from '../src/sources/connectors';
+import { Logger } from '../src/utils/logger';
+
+// Dispatch a message and collect everything the server sends back
+function call(server: MCPServer, req: MCPRequest | MCPNotification, session?: MCPSession): Promise<MCPResponse[]> {
+  const responses: MCPResponse[] = [];
+  server.handleRequest(req, (resp) => responses.push(resp), session);
+  return new Promise(resolve => setImmediate(() => resolve(responses)));
+}
+
+function createSession(): MCPSession {
+  return { id: 'test', notify: jest.fn() };
+}
+
+describe('MCPServer lifecycle', () => {
+  let server: MCPServer;
+
+  beforeEach(() => {
+    server = new MCPServer();
+  });
+
+  it('echoes a supported protocol version', async () => {
+    const [resp] = await call(server, {
+      jsonrpc: '2.0', id: 1, method: 'initialize',
+      params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+    });
+
+    expect(resp.result.protocolVersion).toBe('2024-11-05');
+    expect(resp.result.serverInfo.name).toBe('MCP Wiki Server');
+    expect(resp.result.capabilities.tools).toBeDefined();
+    expect(resp.result.capabilities.resources).toBeDefined();
+    expect(resp.result.capabilities.logging).toEqual({});
+  });
+
+  it('offers its latest version when the requested one is unsupported', async () => {
+    const [resp] = await call(server, {
+      jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '1999-01-01' }
+    });
+
+    expect(resp.result.protocolVersion).toBe(SUPPORTED_PROTOCOL_VERSIONS[0]);
+  });
+
+  it('records client details on the session', async () => {
+    const session = createSession();
+    await call(server, {
+      jsonrpc: '2.0', id: 1, method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: { roots: {} }, clientInfo: { name: 'test', version: '1.0.0' } }
+    }, session);
+    expect(session.initialized).toBe(false);
+
+    const responses = await call(server, { jsonrpc: '2.0', method: 'notifications/initialized' }, session);
+
+    expect(responses).toHaveLength(0);
+    expect(session.initialized).toBe(true);
+    expect(session.protocolVersion).toBe('2025-03-26');
+    expect(session.clientCapabilities).toEqual({ roots: {} });
+    expect(session.clientInfo?.name).toBe('test');
+
+    // Declaring roots makes the server ask for them; answer so no request is left waiting
+    const [rootsRequest] = (session.notify as jest.Mock).mock.calls.map(([message]) => message).filter(m => m.method === 'roots/list');
+    await server.handleMessage({ jsonrpc: '2.0', id: rootsRequest.id, result: { roots: [] } }, session);
+  });
+
+  it('forwards log messages at or above the level a session sets', async () => {
+    const session = createSession();
+    await call(server, { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18' } }, session);
+    (session.notify as jest.Mock).mockClear();
+
+    await call(server, { jsonrpc: '2.0', method: 'notifications/unknown' }, session);
+    expect(session.notify).not.toHaveBeenCalled();
+
+    const [resp] = await call(server, { jsonrpc: '2.0', id: 2, method: 'logging/setLevel', params: { level: 'debug' } }, session);
+    await call(server, { jsonrpc: '2.0', method: 'notifications/unknown' }, session);
+
+    expect(resp.result).toEqual({});
+    expect(session.notify).toHaveBeenCalledWith({
+      jsonrpc: '2.0',
+      method: 'notifications/message',
+      params: { level: 'debug', logger: 'MCPServer', data: 'Ignoring notification: notifications/unknown' }
+    });
+  });
+
+  it('forwards a session only its own records and server-wide warnings', async () => {
+    const first: MCPSession = { id: 'first', notify: jest.fn() };
+    const second: MCPSession = { id: 'second', notify: jest.fn() };
+    for (const session of [first, second]) {
+      await call(server, { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18' } }, session);
+      await call(server, { jsonrpc: '2.0', id: 2, method: 'logging/setLevel', params: { level: 'debug' } }, session);
+      (session.notify as jest.Mock).mockClear();
+    }
+    const messages = (session: MCPSession) => (session.notify as jest.Mock).mock.calls.map(([message]) => message.params.data);
+
+    await call(server, { jsonrpc: '2.0', method: 'notifications/unknown' }, first);
+    const background = new Logger('HttpTransport');
+    background.info('Created session first for 127.0.0.1');
+    background.error('Wiki refresh failed');
+
+    expect(messages(first)).toEqual(['Ignoring notification: notifications/unknown', 'Wiki refresh failed']);
+    expect(messages(second)).toEqual(['Wiki refresh failed']);
+
+    server.close();
+    background.error('After close');
+    expect(messages(second)).toEqual(['Wiki refresh failed']);
+  });
+
+  it('rejects unknown log levels', async () => {
+    const [resp] = await call(server, { jsonrpc: '2.0', id: 1, method: 'logging/setLevel', params: { level: 'verbose' } });
+
+    expect(resp.error?.code).toBe(-32602);
+  });
+
+  it('answers ping with an empty result', async () => {
+    const [resp] = await call(server, { jsonrpc: '2.0', id: 7, method: 'ping', params: {} });
+
+    expect(resp).toEqual({ jsonrpc: '2.0', id: 7, result: {} });
+  });
+
+  it('never replies to notifications, even unknown ones', async () => {
+    const responses = await call(server, { jsonrpc: '2.0', method: 'notifications/unknown' });
+
+    expect(responses).toHaveLength(0);
+  });
+
+  it('still reports unknown request methods', async () => {
+    const [resp] = await call(server, { jsonrpc: '2.0', id: 3, method: 'does/not/exist', params: {} });
+
+    expect(resp.error?.code).toBe(-32601);
+  });
+
+  it('answers with an internal error when an async handler fails', async () => {
+    jest.spyOn(server as any, 'getPromptLibrary').mockRejectedValue(new Error('templates directory missing'));
+    jest.spyOn(server.sources, 'search').mockRejectedValue(new Error('index unavailable'));
+
+    const prompts = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'prompts/list', params: {} }) as MCPResponse;
+    const context = await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'getContext', params: { query: { text: 'x' } } }) as MCPResponse;
+
+    expect(prompts.error).toEqual({ code: -32000, message: 'Internal server error: templates directory missing' });
+    expect(context.error).toEqual({ code: -32000, message: 'Internal server error: index unavailable' });
+  });
+});
+
+describe('MCPServer message validation', () => {
+  let server: MCPServer;
+
+  beforeEach(() => {
+    server = new MCPServer();
+  });
+
+  it('answers each request in a batch and skips notifications', async () => {
+    const reply = await server.handleMessage([
+      { jsonrpc: '2.0', id: 1, method: 'ping' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'ping' }
+    ]);
+
+    expect(reply).toEqual([
+      { jsonrpc: '2.0', id: 1, result: {} },
+      { jsonrpc: '2.0', id: 2, result: {} }
+    ]);
+  });
+
+  it('returns null for a batch of notifications only', async () => {
+    const reply = await server.handleMessage([
+      { jsonrpc: '2.0', method: 'notifications/initialized' }
+    ]);
+
+    expect(reply).toBeNull();
+  });
+
+  it('rejects an empty batch', async () => {
+    const reply = await server.handleMessage([]) as MCPResponse;
+
+    expect(reply.id).toBeNull();
+    expect(reply.error?.code).toBe(-32600);
+  });
+
+  it('rejects messages without a method', async () => {
+    const reply = await server.handleMessage({ jsonrpc: '2.0', id: 5 }) as MCPResponse;
+
+    expect(reply.id).toBe(5);
+    expect(reply.error?.code).toBe(-32600);
+  });
+
+  it('rejects invalid ids and jsonrpc versions', async () => {
+    const reply = await server.handleMessage([
+      { jsonrpc: '2.0', id: null, method: 'ping' },
+      { jsonrpc: '1.0', id: 6, method: 'ping' },
+      42
+    ]) as MCPResponse[];
+
+    expect(reply.map(r => r.error?.code)).toEqual([-32600, -32600, -32600]);
+    expect(reply[1].id).toBe(6);
+  });
+
+  it('ignores responses to server-initiated requests', async () => {
+    const reply = await server.handleMessage({ jsonrpc: '2.0', id: 'srv-1', result: {} });
+
+    expect(reply).toBeNull();
+  });
+});
+
+describe('MCPServer tools', () => {
+  let server: MCPServer;
+
+  beforeEach(() => {
+    server = new MCPServer();
+  });
+
+  it('lists each registered tool with its input schema', async () => {
+    const [resp] = await call(server, { jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} });
+    const names = resp.result.tools.map((t: any) => t.name);
+
+    expect(names).toEqual(['search_wiki', 'list_wiki_sources', 'transform_content', 'generate_code', 'generate_project']);
+    expect(resp.result.tools[2].inputSchema.required).toEqual(['content', 'targetLanguage']);
+    expect(resp.result.tools[2].outputSchema.required).toEqual(['success', 'files']);
+  });
+
+  it('omits output schemas for clients on older protocol versions', async () => {
+    const session = { ...createSession(), protocolVersion: '2025-03-26' };
+    const [resp] = await call(server, { jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }, session);
+
+    expect(resp.result.tools.every((t: any) => t.outputSchema === undefined)).toBe(true);
+  });
+
+  it('rejects missing required arguments with invalid params', async () => {
+    const [resp] = await call(server, {
+      jsonrpc: '2.0', id: 2, method: 'tools/call',
+      params: { name: 'transform_content', arguments: { targetLanguage: 'python' } }
+    });
+
+    expect(resp.error?.code).toBe(-32602);
+    expect(resp.error?.message).toContain("missing required property 'content'");
+    expect(resp.error?.data.errors).toHaveLength(1);
+  });
+
+  it('names fields with the wrong type', async () => {
+    const [resp] = await call(server, {
+      jsonrpc: '2.0', id: 3, method: 'tools/call',
+      params: { name: 'generate_project', arguments: { content: 'x', projectType: 'cli', language: 3, features: ['a', 1] } }
+    });
+
+    expect(resp.error?.code).toBe(-32602);
+    expect(resp.error?.data.errors).toEqual([
+      "'language' must be string, got number",
+      "'features[1]' must be string, got number"
+    ]);
+  });
+
+  it('pages tools/list with nextCursor', async () => {
+    server.listPageSize = 2;
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const [resp] = await call(server, { jsonrpc: '2.0', id: 1, method: 'tools/list', params: { cursor } });
+      names.push(...resp.result.tools.map((t: any) => t.name));
+      cursor = resp.result.nextCursor;
+    } while (cursor);
+
+    expect(names).toHaveLength(5);
+    expect(new Set(names).size).toBe(5);
+  });
+
+  it('rejects a cursor from another list method', async () => {
+    server.listPageSize = 2;
+    const [first] = await call(server, { jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} });
+    const [resp] = await call(server, {
+      jsonrpc: '2.0', id: 2, method: 'resources/list', params: { cursor: first.result.nextCursor }
+    });
+
+    expect(resp.error?.code).toBe(-32602);
+  });
+
+  it('pages search results with limit and a cursor bound to the query', async () => {
+    // A second search would rank differently; later pages must keep the first ranking
+    const ranking = [['one', 'two', 'three'], ['three', 'one', 'two']];
+    const source = Object.assign(new EventEmitter(), {
+      name: 'stub',
+      getContext: jest.fn(async () => ranking.shift()!.map(title => ({ title, content: title, source: 'stub' }))),
+      listResources: () => [],
+      readResource: async () => null,
+      getWikiSourceDetails: () => [],
+      getWikiSourceStats: () => ({ totalSources: 0, sourcesByType: {}, authenticatedSources: 0, cachedSources: 0, cacheTimeoutMinutes: 0 }),
+      checkHealth: async () => []
+    }) as DocumentSource;
+    server.sources = new SourceRegistry();
+    server.sources.register(source);
+
+    const search = async (id: number, args: Record<string, any>) => (await server.handleMessage({
+      jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'search_wiki', arguments: args }
+    }) as MCPResponse);
+
+    const first = await search(1, { query: 'deploy', limit: 2 });
+    const second = await search(2, { query: 'deploy', limit: 2, cursor: first.result.structuredContent.nextCursor });
+    const other = await search(3, { query: 'rollback', cursor: first.result.structuredContent.nextCursor });
+
+    expect(first.result.structuredContent.results.map((r: any) => r.title)).toEqual(['one', 'two']);
+    expect(first.result.structuredContent.total).toBe(3);
+    expect(second.result.structuredContent.results.map((r: any) => r.title)).toEqual(['three']);
+    expect(second.result.structuredContent.nextCursor).toBeUndefined();
+    expect(other.error?.code).toBe(-32602);
+    expect(source.getContext).toHaveBeenCalledTimes(1);
+
+    // Snapshots expire, and their cursors with them
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 11 * 60 * 1000);
+    try {
+      const expired = await search(4, { query: 'deploy', limit: 2, cursor: first.result.structuredContent.nextCursor });
+      expect(expired.error).toEqual({ code: -32602, message: 'Invalid arguments for tool search_wiki: Invalid or expired cursor; search again without one' });
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('reports unknown tools as invalid params', async () => {
+    const [resp] = await call(server, {
+      jsonrpc: '2.0', id: 4, method: 'tools/call', params: { name: 'nope', arguments: {} }
+    });
+
+    expect(resp.error).toEqual({ code: -32602, message: 'Unknown tool: nope' });
+  });
+});
+
+describe('MCPServer long-running tools', () => {
+  let server: MCPServer;
+  let session: MCPSession;
+  let summarize: jest.Mock;
+
+  beforeEach(() => {
+    summarize = jest.fn();
+    const provider: AIProvider = {
+      generateEmbedding: async () => [],
+      calculateRelevance: async () => 0,
+      summarizeContent: summarize
+    };
+    server = new MCPServer();
+    (server as any).contentTransformer = new ContentTransformer(provider, new TemplateEngine());
+    session = createSession();
+  });
+
+  const transformRequest = (id: number) => ({
+    jsonrpc: '2.0', id, method: 'tools/call',
+    params: {
+      name: 'transform_content',
+      arguments: { content: 'Run a health check endpoint', targetLanguage: 'python' },
+      _meta: { progressToken: 'tok-1' }
+    }
+  });
+
+  it('reports progress for each stage when a progressToken is given', async () => {
+    summarize
+      .mockResolvedValueOnce('[{"name": "health check", "codeHint": ""}, {"name": "server", "codeHint": ""}]')
+      .mockResolvedValue('```python\nprint("generated code")\n```');
+
+    const reply = await server.handleMessage(transformRequest(1), session) as MCPResponse;
+    const progress = (session.notify as jest.Mock).mock.calls
+      .map(([n]) => n)
+      .filter(n => n.method === 'notifications/progress')
+      .map(n => n.params);
+
+    expect(reply.result.content[1].resource.text).toContain('generated code');
+    expect(progress.map(p => p.progress)).toEqual([0, 1, 2, 3, 4]);
+    expect(progress.every(p => p.progressToken === 'tok-1')).toBe(true);
+    expect(progress[3]).toMatchObject({ total: 4, message: 'Generated file 2 of 2' });
+  });
+
+  it('embeds generated files as resources and describes them in structured content', async () => {
+    summarize
+      .mockResolvedValueOnce('[{"name": "health check", "codeHint": ""}]')
+      .mockResolvedValue('```python\nprint("ok")\n```');
+
+    const reply = await server.handleMessage(transformRequest(3), session) as MCPResponse;
+    const [file] = reply.result.structuredContent.files;
+
+    expect(reply.result.structuredContent.success).toBe(true);
+    expect(file.mimeType).toBe('text/x-python');
+    expect(file.uri).toMatch(/^generated:\/\/files\//);
+    expect(reply.result.content[1]).toEqual({
+      type: 'resource',
+      resource: { uri: file.uri, mimeType: 'text/x-python', text: expect.stringContaining('print("ok")') }
+    });
+  });
+
+  it('aborts the pending provider request on notifications/cancelled and sends no reply', async () => {
+    let providerSignal: AbortSignal | undefined;
+    summarize.mockImplementation((_prompt: string, _max: number, options: AIRequestOptions) => {
+      providerSignal = options.signal;
+      return new Promise((_resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    });
+
+    const pending = server.handleMessage(transformRequest(2), session);
+    await new Promise(resolve => setImmediate(resolve));
+    await server.handleMessage({
+      jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 2, reason: 'user stopped it' }
+    }, session);
+
+    expect(await pending).toBeNull();
+    expect(providerSignal?.aborted).toBe(true);
+  });
+
+  it('answers with a timeout error and aborts the work once the deadline passes', async () => {
+    let providerSignal: AbortSignal | undefined;
+    summarize.mockImplementation((_prompt: string, _max: number, options: AIRequestOptions) => {
+      providerSignal = options.signal;
+      return new Promise((_resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    });
+    server = new MCPServer({ scheduler: { generation: { timeoutMs: 30 } } });
+    (server as any).contentTransformer = new ContentTransformer(
+      { generateEmbedding: async () => [], calculateRelevance: async () => 0, summarizeContent: summarize },
+      new TemplateEngine()
+    );
+
+    const reply = await server.handleMessage(transformRequest(4), session) as MCPResponse;
+
+    expect(reply.error).toEqual({ code: -32003, message: 'Request timed out after 0.03 seconds' });
+    expect(providerSignal?.aborted).toBe(true);
+  });
+
+  it('aborts wiki requests that are still waiting when a search passes its deadline', async () => {
+    let closed = false;
+    const hungWiki = http.createServer(req => req.socket.on('close', () => { closed = true; })); // Never answers
+    await new Promise<void>(resolve => hungWiki.listen(0, '127.0.0.1', () => resolve()));
+    const url = `http://127.0.0.1:${(hungWiki.address() as any).port}/docs`;
+    const connector = new GenericConnector();
+    server = new MCPServer({ scheduler: { search: { timeoutMs: 50 } } });
+    server.sources = new SourceRegistry();
+    server.sources.register(Object.assign(new EventEmitter(), {
+      name: 'hung',
+      getContext: async () => [{ title: 'Docs', content: await connector.fetch({ id: 'hung', name: 'Hung', type: WikiType.Unknown, url }), source: 'hung' }],
+      listResources: () => [],
+      readResource: async () => null,
+      getWikiSourceDetails: () => [],
+      getWikiSourceStats: () => ({ totalSources: 0, sourcesByType: {}, authenticatedSources: 0, cachedSources: 0, cacheTimeoutMinutes: 0 }),
+      checkHealth: async () => []
+    }) as DocumentSource);
+
+    try {
+      const reply = await server.handleMessage({
+        jsonrpc: '2.0', id: 8, method: 'tools/call', params: { name: 'search_wiki', arguments: { query: 'docs' } }
+      }, session) as MCPResponse;
+
+      expect(reply.error?.code).toBe(-32003);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(closed).toBe(true);
+    } finally {
+      hungWiki.closeAllConnections();
+      await new Promise(resolve => hungWiki.close(resolve));
+    }
+  });
+
+  it('rejects generation requests beyond the queue limit while search requests still run', async () => {
+    let release!: () => void;
+    summarize
+      .mockImplementationOnce(() => new Promise(resolve => {
+        release = () => resolve('[{"name": "health check", "codeHint": ""}]');
+      }))
+      .mockResolvedValue('```python\nprint("ok")\n```');
+    server = new MCPServer({ scheduler: { generation: { concurrency: 1, maxQueued: 0 } } });
+    (server as any).contentTransformer = new ContentTransformer(
+      { generateEmbedding: async () => [], calculateRelevance: async () => 0, summarizeContent: summarize },
+      new TemplateEngine()
+    );
+
+    const first = server.handleMessage(transformRequest(5), session);
+    const overloaded = await server.handleMessage(transformRequest(6), session) as MCPResponse;
+    const search = await server.handleMessage({
+      jsonrpc: '2.0', id: 7, method: 'tools/call', params: { name: 'list_wiki_sources', arguments: {} }
+    }, session) as MCPResponse;
+
+    expect(overloaded.error?.code).toBe(-32004);
+    expect(search.result).toBeDefined();
+    await new Promise(resolve => setImmediate(resolve));
+    release();
+    expect((await first as MCPResponse).id).toBe(5);
+  });
+});
+
+describe('MCPServer client sampling', () => {
+  let server: MCPServer;
+  let session: MCPSession;
+  let sent: any[];
+
+  beforeEach(async () => {
+    server = new MCPServer();
+    (server as any).contentTransformer = new ContentTransformer(
+      new SamplingProvider({ type: 'sampling', enabled: true }), new TemplateEngine()
+    );
+    sent = [];
+    session = { id: 'sampling', notify: jest.fn(message => sent.push(message)) };
+    await server.handleMessage({
+      jsonrpc: '2.0', id: 0, method: 'initialize',
+      params: { protocolVersion: '2025-06-18', capabilities: { sampling: {} } }
+    }, session);
+  });
+
+  const transform = (id: number) => server.handleMessage({
+    jsonrpc: '2.0', id, method: 'tools/call',
+    params: { name: 'transform_content', arguments: { content: 'Run a health check endpoint', targetLanguage: 'python' } }
+  }, session);
+
+  // Answer each sampling request the server has sent so far
+  async function answerSampling(text: string) {
+    for (let i = 0; i < 20; i++) {
+      await new Promise(resolve => setImmediate(resolve));
+      const request = sent.find(m => m.method === 'sampling/createMessage' && !m.answered);
+      if (!request) continue;
+      request.answered = true;
+      await server.handleMessage({
+        jsonrpc: '2.0', id: request.id, result: { role: 'assistant', content: { type: 'text', text }, model: 'client-model' }
+      }, session);
+    }
+  }
+
+  it('runs AI prompts through the client and uses its replies', async () => {
+    const pending = transform(1);
+    await answerSampling('```python\nprint("from the client")\n```');
+    const reply = await pending as MCPResponse;
+
+    expect(sent.some(m => m.method === 'sampling/createMessage' && m.params.maxTokens > 0)).toBe(true);
+    expect(JSON.stringify(reply.result.content)).toContain('from the client');
+  });
+
+  it('cancels the sampling request on the client when the tool call is cancelled', async () => {
+    const pending = transform(2);
+    await new Promise(resolve => setImmediate(resolve));
+    const request = sent.find(m => m.method === 'sampling/createMessage');
+
+    await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 2 } }, session);
+
+    expect(await pending).toBeNull();
+    expect(sent).toContainEqual({
+      jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: request.id, reason: 'cancelled' }
+    });
+  });
+});
+
+describe('MCPServer workspace roots', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-roots-'));
+    fs.writeFileSync(path.join(root, 'runbook.md'), '# Failover runbook\n\nPromote the replica during failover.');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('requests roots after initialization, re-indexes on list_changed and searches them', async () => {
+    const server = new MCPServer();
+    const sent: any[] = [];
+    const session: MCPSession = { id: 'roots', notify: jest.fn(message => sent.push(message)) };
+    const answerRoots = async (roots: any[]) => {
+      await new Promise(resolve => setImmediate(resolve));
+      const request = sent.filter(m => m.method === 'roots/list').pop();
+      await server.handleMessage({ jsonrpc: '2.0', id: request.id, result: { roots } }, session);
+      await new Promise(resolve => setTimeout(resolve, 50));
+    };
+    const search = async () => (await server.handleMessage({
+      jsonrpc: '2.0', id: 9, method: 'tools/call', params: { name: 'search_wiki', arguments: { query: 'failover' } }
+    }, session) as MCPResponse).result.structuredContent.results;
+
+    await server.handleMessage({
+      jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: { roots: { listChanged: true } } }
+    }, session);
+    await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }, session);
+    await answerRoots([{ uri: pathToFileURL(root).href, name: 'ops-repo' }]);
+
+    expect((await search())[0]).toMatchObject({ title: 'Failover runbook', source: 'workspace: ops-repo' });
+
+    await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/roots/list_changed' }, session);
+    await answerRoots([]);
+
+    expect((await search()).map((r: any) => r.source)).not.toContain('workspace: ops-repo');
+    expect(sent.filter(m => m.method === 'roots/list')).toHaveLength(2);
+  });
+});
+
+describe('MCPServer resources', () => {
+  let wiki: http.Server;
+  let configDir: string;
+  let server: MCPServer;
+  let baseUrl: string;
+  let deployPage = 'Deployment runbook steps';
+
+  beforeAll(async () => {
+    wiki = http.createServer((req, res) => {
+      const pathname = (req.url || '').split('?')[0];
+      if (pathname === '/handbook/' || pathname === '/handbook/deploy') {
+        res.setHeader('Content-Type', 'text/plain');
+        res.end(pathname === '/handbook/' ? 'Team handbook index' : deployPage);
+        return;
+      }
+      res.statusCode = 404;
+      res.end('not found');
+    });
+    await new Promise<void>(resolve => wiki.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(wiki.address() as any).port}`;
+
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wiki-'));
+    const configPath = path.join(configDir, 'mcp.config.json');
+    fs.writeFileSync(configPath, JSON.stringify({ wikiUrls: [`${baseUrl}/handbook/`], cacheTimeoutMinutes: 0.0001 }));
+    process.env.MCP_CONFIG_PATH = configPath;
+
+    server = new MCPServer();
+  });
+
+  afterAll(async () => {
+    delete process.env.MCP_CONFIG_PATH;
+    fs.rmSync(configDir, { recursive: true, force: true });
+    await new Promise(resolve => wiki.close(resolve));
+  });
+
+  it('lists configured sources as resources', async () => {
+    const [resp] = await call(server, { jsonrpc: '2.0', id: 1, method: 'resources/list', params: {} });
+
+    expect(resp.result.resources[0].uri).toBe('wiki://127-0-0-1');
+    expect(resp.result.resources[0].description).toContain(`${baseUrl}/handbook/`);
+  });
+
+  it('advertises the page resource template', async () => {
+    const [resp] = await call(server, { jsonrpc: '2.0', id: 1, method: 'resources/templates/list', params: {} });
+
+    expect(resp.result.resourceTemplates[0].uriTemplate).toBe('wiki://{source}/{pagePath}');
+  });
+
+  it('reads individual pages and lists them once cached', async () => {
+    const read = await server.handleMessage({
+      jsonrpc: '2.0', id: 2, method: 'resources/read', params: { uri: 'wiki://127-0-0-1/handbook/deploy' }
+    }) as MCPResponse;
+
+    expect(read.result.contents[0].text).toBe('Deployment runbook steps');
+
+    const [list] = await call(server, { jsonrpc: '2.0', id: 3, method: 'resources/list', params: {} });
+    const uris = list.result.resources.map((r: any) => r.uri);
+    expect(uris).toContain('wiki://127-0-0-1/handbook/deploy');
+  });
+
+  it('notifies subscribers when a page changes and stops after unsubscribe', async () => {
+    const session = createSession();
+    await call(server, { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }, session);
+    const uri = 'wiki://127-0-0-1/handbook/deploy';
+
+    const [subscribed] = await call(server, { jsonrpc: '2.0', id: 2, method: 'resources/subscribe', params: { uri } }, session);
+    expect(subscribed.result).toEqual({});
+
+    await server.handleMessage({ jsonrpc: '2.0', id: 3, method: 'resources/read', params: { uri } }, session);
+    deployPage = 'Deployment runbook steps, revised';
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await server.handleMessage({ jsonrpc: '2.0', id: 4, method: 'resources/read', params: { uri } }, session);
+
+    expect(session.notify).toHaveBeenCalledWith({
+      jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri }
+    });
+
+    (session.notify as jest.Mock).mockClear();
+    await call(server, { jsonrpc: '2.0', id: 5, method: 'resources/unsubscribe', params: { uri } }, session);
+    deployPage = 'Deployment runbook steps, revised again';
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await server.handleMessage({ jsonrpc: '2.0', id: 6, method: 'resources/read', params: { uri } }, session);
+
+    expect(session.notify).not.toHaveBeenCalledWith(expect.objectContaining({ method: 'notifications/resources/updated' }));
+  });
+
+  it('announces newly cached pages to initialized sessions', async () => {
+    const session = createSession();
+    await call(server, { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }, session);
+
+    await server.handleMessage({
+      jsonrpc: '2.0', id: 2, method: 'resources/read', params: { uri: 'wiki://127-0-0-1/handbook/deploy?v=2' }
+    }, session);
+
+    expect(session.notify).toHaveBeenCalledWith({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+  });
+
+  it('lists prompts loaded from the templates directory', async () => {
+    const reply = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'prompts/list', params: {} }) as MCPResponse;
+    const names = reply.result.prompts.map((p: any) => p.name);
+
+    expect(names).toEqual(expect.arrayContaining(['explain-runbook', 'dockerfile-from-page', 'summarise-source']));
+  });
+
+  it('renders a prompt with the wiki page embedded as a resource', async () => {
+    const reply = await server.handleMessage({
+      jsonrpc: '2.0', id: 2, method: 'prompts/get',
+      params: { name: 'summarise-source', arguments: { source: '127-0-0-1', maxBullets: '5' } }
+    }) as MCPResponse;
+
+    const [resource, instruction] = reply.result.messages;
+    expect(resource.content.type).toBe('resource');
+    expect(resource.content.resource.text).toBe('Team handbook index');
+    expect(instruction.content.text).toContain('(at most 5)');
+  });
+
+  it('rejects prompts with missing or mistyped arguments', async () => {
+    const missing = await server.handleMessage({
+      jsonrpc: '2.0', id: 3, method: 'prompts/get', params: { name: 'explain-runbook', arguments: {} }
+    }) as MCPResponse;
+    const mistyped = await server.handleMessage({
+      jsonrpc: '2.0', id: 4, method: 'prompts/get',
+      params: { name: 'explain-runbook', arguments: { page: 'wiki://127-0-0-1', audience: 'everyone' } }
+    }) as MCPResponse;
+
+    expect(missing.error?.code).toBe(-32602);
+    expect(missing.error?.message).toContain("'page'");
+    expect(mistyped.error?.message).toContain("'audience'");
+  });
+
+  it('links search results to their wiki resources', async () => {
+    const reply = await server.handleMessage({
+      jsonrpc: '2.0', id: 5, method: 'tools/call', params: { name: 'search_wiki', arguments: { query: 'handbook' } }
+    }) as MCPResponse;
+
+    expect(reply.result.content).toContainEqual(expect.objectContaining({ type: 'resource_link', uri: 'wiki://127-0-0-1' }));
+    expect(reply.result.structuredContent.query).toBe('handbook');
+    expect(reply.result.structuredContent.results[0]).toMatchObject({ uri: 'wiki://127-0-0-1', url: `${baseUrl}/handbook/` });
+  });
+
+  it('falls back to text-only tool results for older protocol versions', async () => {
+    const session = { ...createSession(), protocolVersion: '2024-11-05' };
+    const reply = await server.handleMessage({
+      jsonrpc: '2.0', id: 6, method: 'tools/call', params: { name: 'search_wiki', arguments: { query: 'handbook' } }
+    }, session) as MCPResponse;
+
+    expect(reply.result.structuredContent).toBeUndefined();
+    expect(reply.result.content.every((item: any) => item.type === 'text')).toBe(true);
+    expect(JSON.parse(reply.result.content[0].text).query).toBe('handbook');
+  });
+
+  it('completes source ids and page paths for the page template', async () => {
+    await server.handleMessage({
+      jsonrpc: '2.0', id: 1, method: 'resources/read', params: { uri: 'wiki://127-0-0-1/handbook/deploy' }
+    });
+    const complete = (argument: any, context?: any) => server.handleMessage({
+      jsonrpc: '2.0', id: 2, method: 'completion/complete',
+      params: { ref: { type: 'ref/resource', uri: 'wiki://{source}/{pagePath}' }, argument, context }
+    }) as Promise<MCPResponse>;
+
+    const sources = await complete({ name: 'source', value: '127' });
+    const pages = await complete({ name: 'pagePath', value: 'depl' }, { arguments: { source: '127-0-0-1' } });
+
+    expect(sources.result.completion.values).toEqual(['127-0-0-1']);
+    expect(pages.result.completion.values[0]).toBe('handbook/deploy');
+  });
+
+  it('completes prompt arguments, tool languages and template names', async () => {
+    const complete = (ref: any, name: string, value: string) => server.handleMessage({
+      jsonrpc: '2.0', id: 3, method: 'completion/complete', params: { ref, argument: { name, value } }
+    }) as Promise<MCPResponse>;
+
+    const source = await complete({ type: 'ref/prompt', name: 'summarise-source' }, 'source', '');
+    const language = await complete({ type: 'ref/tool', name: 'transform_content' }, 'targetLanguage', 'py');
+    const template = await complete({ type: 'ref/tool', name: 'generate_code' }, 'templateName', 'expr');
+    const unknown = await complete({ type: 'ref/prompt', name: 'nope' }, 'source', '');
+
+    expect(source.result.completion.values).toEqual(['127-0-0-1']);
+    expect(language.result.completion.values[0]).toBe('python');
+    expect(template.result.completion.values).toContain('express-server');
+    expect(unknown.error?.code).toBe(-32602);
+  });
+
+  it('returns resource-not-found for unknown sources', async () => {
+    const read = await server.handleMessage({
+      jsonrpc: '2.0', id: 4, method: 'resources/read', params: { uri: 'wiki://unknown/page' }
+    }) as MCPResponse;
+
+    expect(read.error?.code).toBe(-32002);
+  });
+});
+
+describe('MCPServer source administration', () => {
+  let wiki: http.Server;
+  let configDir: string;
+  let configPath: string;
+  let baseUrl: string;
+  let guide = 'Onboarding guide, first edition';
+
+  const callTool = (server: MCPServer, id: number, name: string, args: Record<string, any>) =>
+    server.handleMessage({ jsonrpc: '2.0', id, method: 'tools/call', params: { name, arguments: args } }) as Promise<MCPResponse>;
+
+  const readGuide = async (server: MCPServer) => {
+    const read = await server.handleMessage({
+      jsonrpc: '2.0', id: 99, method: 'resources/read', params: { uri: 'wiki://127-0-0-1' }
+    }) as MCPResponse;
+    return read.result?.contents[0].text;
+  };
+
+  beforeAll(async () => {
+    wiki = http.createServer((req, res) => {
+      res.setHeader('Content-Type', 'text/plain');
+      res.end(guide);
+    });
+    await new Promise<void>(resolve => wiki.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(wiki.address() as any).port}`;
+
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-admin-'));
+    configPath = path.join(configDir, 'mcp.config.json');
+    fs.writeFileSync(configPath, JSON.stringify({ wikiUrls: [], cacheTimeoutMinutes: 60 }));
+    process.env.MCP_CONFIG_PATH = configPath;
+  });
+
+  afterAll(async () => {
+    delete process.env.MCP_CONFIG_PATH;
+    fs.rmSync(configDir, { recursive: true, force: true });
+    await new Promise(resolve => wiki.close(resolve));
+  });
+
+  it('does not offer admin tools unless enabled', async () => {
+    const server = new MCPServer();
+    const list = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }) as MCPResponse;
+    const add = await callTool(server, 2, 'add_wiki_source', { url: `${baseUrl}/guide` });
+
+    expect(list.result.tools.map((t: any) => t.name)).not.toContain('add_wiki_source');
+    expect(add.error?.code).toBe(-32602);
+  });
+
+  it('offers admin tools only to sessions the transport marked as admin', async () => {
+    const server = new MCPServer({ adminTools: true });
+    const names = async (session: MCPSession) => ((await server.handleMessage({
+      jsonrpc: '2.0', id: 1, method: 'tools/list', params: {}
+    }, session)) as MCPResponse).result.tools.map((t: any) => t.name);
+    const client = createSession();
+
+    const clear = await server.handleMessage({
+      jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'clear_wiki_cache', arguments: {} }
+    }, client) as MCPResponse;
+
+    expect(await names(client)).not.toContain('clear_wiki_cache');
+    expect(clear.error).toEqual({ code: -32602, message: 'Unknown tool: clear_wiki_cache' });
+    expect(await names({ ...createSession(), admin: true })).toContain('clear_wiki_cache');
+  });
+
+  it('adds, refreshes, clears and removes sources and writes changes back on request', async () => {
+    const server = new MCPServer({ adminTools: true });
+
+    const added = await callTool(server, 1, 'add_wiki_source', { url: `${baseUrl}/guide`, persist: true });
+    expect(added.result.structuredContent.source).toMatchObject({ id: '127-0-0-1', url: `${baseUrl}/guide` });
+    expect(JSON.parse(fs.readFileSync(configPath, 'utf8'))).toEqual({ wikiUrls: [`${baseUrl}/guide`], cacheTimeoutMinutes: 60 });
+    expect(await readGuide(server)).toBe('Onboarding guide, first edition');
+
+    guide = 'Onboarding guide, second edition';
+    expect(await readGuide(server)).toBe('Onboarding guide, first edition');
+    const refreshed = await callTool(server, 2, 'refresh_wiki_source', { source: '127-0-0-1' });
+    expect(refreshed.result.structuredContent).toEqual({ source: '127-0-0-1', refreshed: [`${baseUrl}/guide`], failed: [] });
+    expect(await readGuide(server)).toBe('Onboarding guide, second edition');
+
+    const cleared = await callTool(server, 3, 'clear_wiki_cache', {});
+    expect(cleared.result.structuredContent.cleared).toBe(1);
+
+    const removed = await callTool(server, 4, 'remove_wiki_source', { source: '127-0-0-1', persist: true });
+    expect(removed.result.structuredContent.persisted).toBe(true);
+    expect(JSON.parse(fs.readFileSync(configPath, 'utf8')).wikiUrls).toEqual([]);
+    expect(await readGuide(server)).toBeUndefined();
+  });
+
+  it('rejects duplicate and invalid URLs and unknown source ids', async () => {
+    const server = new MCPServer({ adminTools: true });
+    await callTool(server, 1, 'add_wiki_source', { url: `${baseUrl}/guide` });
+
+    const duplicate = await callTool(server, 2, 'add_wiki_source', { url: `${baseUrl}/guide` });
+    const invalid = await callTool(server, 3, 'add_wiki_source', { url: 'file:///etc/passwd' });
+    const unknown = await callTool(server, 4, 'refresh_wiki_source', { source: 'nope' });
+
+    expect(duplicate.error?.message).toContain('already configured as 127-0-0-1');
+    expect(invalid.error?.message).toContain('must use http or https');
+    expect(unknown.error?.message).toContain('Unknown wiki source: nope');
+  });
+});
@@ -0,0 +1,269 @@
+import * as http from 'http';
+import { SharePointConnector } from '../src/sources/connectors';
+import { ClientCredentialsTokenProvider } from '../src/sources/connectors/clientCredentials';
+import { WikiEntry, WikiType } from '../src/sources/types';
+
+const SITE_URL = 'https://contoso.sharepoint.com/sites/Engineering';
+
+const SITE_PAGES = [
+  {
+    id: 'p1', name: 'Deploy.aspx', title: 'Deploy', webUrl: `${SITE_URL}/SitePages/Deploy.aspx`,
+    canvasLayout: {
+      horizontalSections: [{
+        columns: [{
+          webparts: [
+            { id: 'w1', innerHtml: '<h2>Steps</h2><p>Build and roll out</p>' },
+            { id: 'w2', data: { title: 'Contacts', serverProcessedContent: { searchablePlainTexts: [{ key: 'name', value: 'Ops on-call' }] } } }
+          ]
+        }]
+      }],
+      verticalSection: { webparts: [{ id: 'w3', innerHtml: '<p>Last reviewed in May</p>' }] }
+    }
+  },
+  // Graph can return page URLs relative to the site
+  { id: 'p2', name: 'Home.aspx', title: 'Home', webUrl: 'SitePages/Home.aspx', canvasLayout: {} }
+];
+
+const DRIVES = [
+  { id: 'd1', name: 'Documents' },
+  { id: 'd2', name: 'Archive' }
+];
+
+const ITEMS: Record<string, any[]> = {
+  'd1/root': [
+    { id: 'f1', name: 'Guides', webUrl: `${SITE_URL}/Shared Documents/Guides`, folder: { childCount: 2 } },
+    { id: 'i1', name: 'readme.md', webUrl: `${SITE_URL}/Shared Documents/readme.md`, file: { mimeType: 'text/markdown' }, content: '# Readme\n\nStart here' }
+  ],
+  'd1/f1': [
+    { id: 'i2', name: 'plan.pdf', webUrl: `${SITE_URL}/Shared Documents/Guides/plan.pdf`, file: { mimeType: 'application/pdf' }, size: 2048 }
+  ],
+  'd2/root': [
+    { id: 'i3', name: 'old.docx', webUrl: `${SITE_URL}/Archive/old.docx`, file: { mimeType: 'application/msword' } }
+  ]
+};
+
+function answer(baseUrl: string, pathname: string, params: URLSearchParams): any {
+  const graph = pathname.replace(/^\/v1\.0/, '');
+
+  if (decodeURIComponent(graph) === '/sites/contoso.sharepoint.com:/sites/Engineering') {
+    return { id: 'site-1', displayName: 'Engineering', description: 'Engineering team site', webUrl: SITE_URL };
+  }
+
+  // One page per response, so listing has to follow @odata.nextLink
+  if (graph === '/sites/site-1/pages/microsoft.graph.sitePage') {
+    const name = params.get('$filter')?.match(/name eq '(.+)'/)?.[1];
+    if (name) {
+      return { value: SITE_PAGES.filter(page => page.name === name).map(page => ({ id: page.id })) };
+    }
+    const skip = Number(params.get('$skip') || 0);
+    const next = skip + 1 < SITE_PAGES.length ? `${baseUrl}/v1.0${graph}?$skip=${skip + 1}` : undefined;
+    const value = SITE_PAGES.slice(skip, skip + 1).map(({ canvasLayout, ...page }) => page);
+    return next ? { value, '@odata.nextLink': next } : { value };
+  }
+
+  const page = graph.match(/^\/sites\/site-1\/pages\/(\w+)\/microsoft\.graph\.sitePage$/);
+  if (page) {
+    return SITE_PAGES.find(p => p.id === page[1]);
+  }
+
+  if (graph === '/sites/site-1/drives') {
+    return { value: DRIVES };
+  }
+
+  const children = graph.match(/^\/drives\/(\w+)\/(?:root|items\/(\w+))\/children$/);
+  if (children) {
+    return { value: (ITEMS[`${children[1]}/${children[2] || 'root'}`] || []).map(({ content, ...item }) => item) };
+  }
+
+  const share = graph.match(/^\/shares\/u!([\w-]+)\/driveItem$/);
+  if (share) {
+    const url = Buffer.from(share[1], 'base64url').toString();
+    for (const [key, items] of Object.entries(ITEMS)) {
+      const item = items.find(i => i.webUrl === url);
+      if (item) return { ...item, content: undefined, parentReference: { driveId: key.split('/')[0] } };
+    }
+    return undefined;
+  }
+
+  const content = graph.match(/^\/drives\/\w+\/items\/(\w+)\/content$/);
+  if (content) {
+    return Object.values(ITEMS).flat().find(item => item.id === content[1])?.content;
+  }
+
+  return undefined;
+}
+
+describe('SharePointConnector', () => {
+  let api: http.Server;
+  let baseUrl: string;
+  let issued = 0;
+  const tokenRequests: URLSearchParams[] = [];
+  const revoked = new Set<string>();
+  const connector = new SharePointConnector();
+
+  beforeAll(async () => {
+    api = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        if (url.pathname === '/tenant/oauth2/v2.0/token') {
+          const form = new URLSearchParams(body);
+          tokenRequests.push(form);
+          res.setHeader('Content-Type', 'application/json');
+          if (form.get('client_secret') !== 'secret') {
+            res.statusCode = 401;
+            res.end(JSON.stringify({ error: 'invalid_client', error_description: 'Bad client secret' }));
+            return;
+          }
+          res.end(JSON.stringify({ access_token: `token-${++issued}`, token_type: 'Bearer', expires_in: 3600 }));
+          return;
+        }
+
+        const token = req.headers.authorization?.replace(/^Bearer /, '');
+        if (!token || !token.startsWith('token-') || revoked.has(token)) {
+          res.statusCode = 401;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ error: { code: 'InvalidAuthenticationToken', message: 'Access token is invalid' } }));
+          return;
+        }
+
+        const answered = answer(baseUrl, url.pathname, url.searchParams);
+        res.statusCode = answered === undefined ? 404 : 200;
+        if (typeof answered === 'string') {
+          res.setHeader('Content-Type', 'text/plain');
+          res.end(answered);
+        } else {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(answered ?? { error: { code: 'itemNotFound', message: 'Not found' } }));
+        }
+      });
+    });
+    await new Promise<void>(resolve => api.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(api.address() as any).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => api.close(resolve));
+  });
+
+  const entry = (overrides: Partial<WikiEntry> = {}): WikiEntry => ({
+    id: 'eng',
+    name: 'Engineering',
+    type: WikiType.SharePoint,
+    url: SITE_URL,
+    auth: {
+      type: 'oauth',
+      config: { oauthConfig: { clientId: 'app', clientSecret: 'secret', tokenUrl: `${baseUrl}/tenant/oauth2/v2.0/token` } }
+    },
+    options: { graphUrl: `${baseUrl}/v1.0` },
+    ...overrides
+  });
+
+  it('extracts page web parts as text and describes the site', async () => {
+    const page = await connector.fetch(entry({ url: `${SITE_URL}/SitePages/Deploy.aspx` }));
+    const site = await connector.fetch(entry());
+
+    expect(page).toBe('# Deploy\n\nSteps Build and roll out\n\nContacts\nOps on-call\n\nLast reviewed in May');
+    expect(site).toBe('# Engineering\n\nEngineering team site\n\n## Pages\n- Deploy\n- Home');
+  });
+
+  it('lists site pages and walks document libraries with folder breadcrumbs', async () => {
+    const pages = await connector.listPages(entry());
+    const documentsOnly = await connector.listPages(entry({ options: { graphUrl: `${baseUrl}/v1.0`, pages: false, libraries: ['Documents'] } }));
+
+    expect(pages.map(page => page.title)).toEqual(['Deploy', 'Home', 'readme.md', 'plan.pdf', 'old.docx']);
+    expect(pages.slice(0, 2).map(page => page.url)).toEqual([`${SITE_URL}/SitePages/Deploy.aspx`, `${SITE_URL}/SitePages/Home.aspx`]);
+    expect(pages[3]).toEqual({
+      url: `${SITE_URL}/Shared Documents/Guides/plan.pdf`,
+      title: 'plan.pdf',
+      breadcrumbs: ['Engineering', 'Documents', 'Guides']
+    });
+    expect(documentsOnly.map(page => page.title)).toEqual(['readme.md', 'plan.pdf']);
+  });
+
+  it('reads text documents and describes other files by their metadata', async () => {
+    const readme = await connector.fetch(entry({ url: `${SITE_URL}/Shared Documents/readme.md` }));
+    const plan = await connector.fetch(entry({ url: `${SITE_URL}/Shared Documents/Guides/plan.pdf` }));
+
+    expect(readme).toBe('# Readme\n\nStart here');
+    expect(plan).toContain('Type: application/pdf');
+    expect(plan).toContain('Size: 2048 bytes');
+  });
+
+  it('reuses one token and requests a new one when Graph rejects it', async () => {
+    const requestsBefore = tokenRequests.length;
+    await connector.listPages(entry());
+    await connector.checkHealth(entry());
+    expect(tokenRequests.length).toBe(requestsBefore);
+    expect(tokenRequests[0].get('grant_type')).toBe('client_credentials');
+    expect(tokenRequests[0].get('scope')).toBe(`${baseUrl}/.default`);
+
+    revoked.add(`token-${issued}`);
+    const health = await connector.checkHealth(entry());
+
+    expect(health.healthy).toBe(true);
+    expect(tokenRequests.length).toBe(requestsBefore + 1);
+  });
+
+  it('reports token endpoint failures', async () => {
+    const badSecret = entry({
+      auth: { type: 'oauth', config: { oauthConfig: { clientId: 'other', clientSecret: 'wrong', tokenUrl: `${baseUrl}/tenant/oauth2/v2.0/token` } } }
+    });
+
+    const health = await connector.checkHealth(badSecret);
+
+    expect(health).toMatchObject({ healthy: false, message: expect.stringContaining('Bad client secret') });
+  });
+});
+
+describe('ClientCredentialsTokenProvider', () => {
+  let server: http.Server;
+  let tokenUrl: string;
+  let requests = 0;
+  let lifetime = 3600;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests++;
+      res.setHeader('Content-Type', 'application/json');
+      // Answer late so concurrent callers overlap
+      setTimeout(() => res.end(JSON.stringify({ access_token: `token-${requests}`, expires_in: lifetime })), 20);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    tokenUrl = `http://127.0.0.1:${(server.address() as any).port}/token`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = 0;
+  });
+
+  it('shares one token request between concurrent callers and caches the result', async () => {
+    const provider = new ClientCredentialsTokenProvider();
+    const config = { clientId: 'app', clientSecret: 'secret', tokenUrl };
+
+    const tokens = await Promise.all([provider.getToken(config), provider.getToken(config)]);
+    const later = await provider.getToken(config);
+
+    expect(tokens).toEqual(['token-1', 'token-1']);
+    expect(later).toBe('token-1');
+    expect(requests).toBe(1);
+  });
+
+  it('renews tokens that are about to expire', async () => {
+    const provider = new ClientCredentialsTokenProvider();
+    const config = { clientId: 'app', clientSecret: 'secret', tokenUrl };
+    lifetime = 30;
+
+    await provider.getToken(config);
+    const renewed = await provider.getToken(config);
+
+    expect(renewed).toBe('token-2');
+    expect(requests).toBe(2);
+    lifetime = 3600;
+  });
+});
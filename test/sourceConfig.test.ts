@@ -0,0 +1,32 @@
+import { globToRegExp, isPathIncluded, normalizeSourceConfig } from '../src/sources/sourceConfig';
+
+describe('normalizeSourceConfig', () => {
+  it('accepts plain URLs and source objects', () => {
+    expect(normalizeSourceConfig('https://wiki.example')).toEqual({ url: 'https://wiki.example' });
+    expect(normalizeSourceConfig({ url: 'https://kb.example', type: 'confluence', tags: ['ops'] }))
+      .toEqual({ url: 'https://kb.example', type: 'confluence', tags: ['ops'] });
+  });
+
+  it('names the field that is wrong', () => {
+    expect(() => normalizeSourceConfig({} as any)).toThrow('needs a url');
+    expect(() => normalizeSourceConfig({ url: 'https://kb.example', tags: 'ops' } as any)).toThrow('tags must be an array of strings');
+    expect(() => normalizeSourceConfig({ url: 'https://kb.example', priority: 0 })).toThrow('priority must be a positive number');
+  });
+});
+
+describe('page path patterns', () => {
+  it('matches * within a segment and ** across segments', () => {
+    expect(globToRegExp('docs/*.md').test('docs/intro.md')).toBe(true);
+    expect(globToRegExp('docs/*.md').test('docs/guides/intro.md')).toBe(false);
+    expect(globToRegExp('docs/**').test('docs/guides/intro.md')).toBe(true);
+    expect(globToRegExp('**/drafts/*').test('drafts/plan')).toBe(true);
+    expect(globToRegExp('/wiki/page?').test('wiki/page2')).toBe(true);
+  });
+
+  it('requires an include match and no exclude match', () => {
+    expect(isPathIncluded('/wiki/start', ['wiki/**'], ['**/drafts/*'])).toBe(true);
+    expect(isPathIncluded('/wiki/drafts/plan', ['wiki/**'], ['**/drafts/*'])).toBe(false);
+    expect(isPathIncluded('/archive/old', ['wiki/**'])).toBe(false);
+    expect(isPathIncluded('/anything', undefined, [])).toBe(true);
+  });
+});
@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { SourceRegistry } from '../src/sources/sourceRegistry';
+import { ConnectorRegistry } from '../src/sources/connectorRegistry';
+import { WikiSource } from '../src/sources/wikiSource';
+import { DocumentSource, WikiConnector, WikiEntry, WikiType } from '../src/sources/types';
+import { AIEnhancedWikiContent } from '../src/ai/types';
+
+class StubSource extends EventEmitter implements DocumentSource {
+  constructor(public name: string, private results: AIEnhancedWikiContent[] | Error) {
+    super();
+  }
+
+  async getContext(): Promise<AIEnhancedWikiContent[]> {
+    if (this.results instanceof Error) throw this.results;
+    return this.results;
+  }
+
+  listResources() {
+    return [{ uri: `wiki://${this.name}`, name: this.name, mimeType: 'text/plain' }];
+  }
+
+  async readResource(uri: string) {
+    return uri === `wiki://${this.name}` ? { uri, mimeType: 'text/plain', text: this.name } : null;
+  }
+
+  getWikiSourceDetails() {
+    return [{ id: this.name, name: this.name, url: `https://${this.name}`, type: 'stub', hasAuth: false, cached: false }];
+  }
+
+  getWikiSourceStats() {
+    return { totalSources: 1, sourcesByType: { stub: 1 }, authenticatedSources: 0, cachedSources: 0, cacheTimeoutMinutes: 30 };
+  }
+
+  async checkHealth() {
+    return [{ id: this.name, name: this.name, type: 'stub', healthy: true }];
+  }
+}
+
+describe('SourceRegistry', () => {
+  it('fans a search out to every source and interleaves the results', async () => {
+    const registry = new SourceRegistry();
+    registry.register(new StubSource('a', [
+      { title: 'A1', content: 'a1', url: 'https://a/1', source: 'a' },
+      { title: 'A2', content: 'a2', url: 'https://a/2', source: 'a' }
+    ]));
+    registry.register(new StubSource('b', [
+      { title: 'B1', content: 'b1', url: 'https://b/1', source: 'b' },
+      { title: 'A1', content: 'a1', url: 'https://a/1', source: 'b' }
+    ]));
+    registry.register(new StubSource('broken', new Error('offline')));
+
+    const results = await registry.search({ query: { text: 'deploy' } });
+
+    expect(results.map(r => r.title)).toEqual(['A1', 'B1', 'A2']);
+  });
+
+  it('ranks AI-scored results ahead of unscored ones', async () => {
+    const registry = new SourceRegistry();
+    registry.register(new StubSource('a', [{ title: 'plain', content: '', source: 'a' }]));
+    registry.register(new StubSource('b', [{ title: 'scored', content: '', source: 'b', relevanceScore: 0.9 }]));
+
+    const results = await registry.search({ query: { text: 'deploy' } });
+
+    expect(results[0].title).toBe('scored');
+  });
+
+  it('combines resources, details and stats across sources', async () => {
+    const registry = new SourceRegistry();
+    registry.register(new StubSource('a', []));
+    registry.register(new StubSource('b', []));
+
+    expect(registry.listResources().map(r => r.uri)).toEqual(['wiki://a', 'wiki://b']);
+    expect((await registry.readResource('wiki://b'))?.text).toBe('b');
+    expect(registry.getWikiSourceStats()).toMatchObject({ totalSources: 2, sourcesByType: { stub: 2 } });
+  });
+
+  it('re-emits resource events from registered sources', () => {
+    const registry = new SourceRegistry();
+    const source = new StubSource('a', []);
+    const listener = jest.fn();
+    registry.register(source);
+    registry.on('resourceUpdated', listener);
+
+    source.emit('resourceUpdated', 'wiki://a');
+
+    expect(listener).toHaveBeenCalledWith('wiki://a');
+  });
+});
+
+describe('WikiSource connectors', () => {
+  let configDir: string;
+
+  beforeAll(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wiki-'));
+    const configPath = path.join(configDir, 'mcp.config.json');
+    fs.writeFileSync(configPath, JSON.stringify({ wikiUrls: ['https://intranet.example/handbook'] }));
+    process.env.MCP_CONFIG_PATH = configPath;
+  });
+
+  afterAll(() => {
+    delete process.env.MCP_CONFIG_PATH;
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  function createStubConnector(): WikiConnector {
+    return {
+      type: WikiType.Unknown,
+      fetch: jest.fn(async () => 'Handbook home'),
+      listPages: jest.fn(async () => [{ url: 'https://intranet.example/handbook/onboarding', title: 'Onboarding' }]),
+      search: jest.fn(async () => [{ url: 'https://intranet.example/handbook/vpn', title: 'VPN setup', content: 'Install the VPN client' }]),
+      checkHealth: jest.fn(async () => ({ healthy: true, latencyMs: 1 }))
+    };
+  }
+
+  it('delegates fetching, listing, search and health to the registered connector', async () => {
+    const connectors = new ConnectorRegistry();
+    const connector = createStubConnector();
+    connectors.register(connector);
+
+    const source = new WikiSource(connectors);
+    await new Promise(resolve => source.once('resourceListChanged', resolve));
+
+    expect(connector.fetch).toHaveBeenCalled();
+    expect(source.listResources().map(r => r.title)).toContain('Onboarding');
+
+    const results = await source.getContext({ query: { text: 'vpn' } });
+    expect(results).toEqual([expect.objectContaining({ title: 'VPN setup', url: 'https://intranet.example/handbook/vpn' })]);
+
+    const [health] = await source.checkHealth();
+    expect(health).toMatchObject({ id: 'intranet-example', healthy: true });
+  });
+
+  it('matches the pages it has read and listed when the connector cannot search', async () => {
+    const connectors = new ConnectorRegistry();
+    const connector = {
+      ...createStubConnector(),
+      fetch: jest.fn(async (entry: WikiEntry) => entry.url.endsWith('/vpn') ? 'Install the VPN client, then sign in.' : 'Handbook home'),
+      listPages: jest.fn(async () => [
+        { url: 'https://intranet.example/handbook/vpn', title: 'VPN setup', breadcrumbs: ['IT'] },
+        { url: 'https://intranet.example/handbook/vpn-faq', title: 'VPN questions', breadcrumbs: ['IT'] },
+        { url: 'https://intranet.example/handbook/onboarding', title: 'Onboarding' }
+      ]),
+      search: jest.fn(async () => null)
+    };
+    connectors.register(connector);
+
+    const source = new WikiSource(connectors);
+    await new Promise(resolve => source.once('resourceListChanged', resolve));
+    await source.readResource('wiki://intranet-example/handbook/vpn');
+    connector.fetch.mockClear();
+
+    const results = await source.getContext({ query: { text: 'vpn client' } });
+
+    expect(results.map(r => r.title)).toEqual(['VPN setup', 'VPN questions']);
+    expect(results[0]).toMatchObject({ content: expect.stringContaining('Install the VPN client'), breadcrumbs: ['IT'] });
+    expect(results[1]).toMatchObject({ content: 'IT › VPN questions', resourceUri: 'wiki://intranet-example/handbook/vpn-faq' });
+    expect(connector.fetch).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the generic connector for types without their own', () => {
+    const connectors = new ConnectorRegistry();
+    const connector = createStubConnector();
+    connectors.register(connector);
+
+    expect(connectors.resolve(WikiType.Confluence)).toBe(connector);
+    expect(() => new ConnectorRegistry().resolve(WikiType.Confluence)).toThrow('No connector registered');
+  });
+});
+
+describe('WikiSource source objects', () => {
+  let configDir: string;
+
+  beforeAll(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-wiki-'));
+    const configPath = path.join(configDir, 'mcp.config.json');
+    fs.writeFileSync(configPath, JSON.stringify({
+      wikiUrls: [
+        'https://intranet.example/handbook',
+        {
+          url: 'https://kb.corp.local/wiki',
+          type: 'confluence',
+          name: 'Corp KB',
+          tags: ['engineering'],
+          include: ['wiki/**'],
+          exclude: ['**/drafts/*'],
+          maxPages: 2,
+          authRef: 'corp-sso',
+          priority: 2
+        },
+        { url: 'https://broken.example', maxPages: -1 }
+      ],
+      auth: [{ id: 'corp-sso', urlPattern: 'never-matches', type: 'token', token: 'secret' }]
+    }));
+    process.env.MCP_CONFIG_PATH = configPath;
+  });
+
+  afterAll(() => {
+    delete process.env.MCP_CONFIG_PATH;
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  function createConnector(type: string, pages: string[]): WikiConnector {
+    return {
+      type,
+      fetch: jest.fn(async () => `${type} home`),
+      listPages: jest.fn(async () => pages.map(url => ({ url, title: url.split('/').pop()! }))),
+      search: jest.fn(async (entry) => [{ url: `${entry.url}/result`, title: `${type} result`, content: 'vpn' }]),
+      checkHealth: jest.fn(async () => ({ healthy: true }))
+    };
+  }
+
+  it('uses the explicit type, name, auth reference and page filters and reports every field', async () => {
+    const connectors = new ConnectorRegistry();
+    const confluence = createConnector(WikiType.Confluence, [
+      'https://kb.corp.local/wiki/start',
+      'https://kb.corp.local/wiki/drafts/plan',
+      'https://kb.corp.local/wiki/team/oncall',
+      'https://kb.corp.local/wiki/faq',
+      'https://kb.corp.local/archive/old'
+    ]);
+    connectors.register(confluence);
+    connectors.register(createConnector(WikiType.Unknown, []));
+
+    const source = new WikiSource(connectors);
+    await new Promise(resolve => source.once('resourceListChanged', resolve));
+
+    const details = source.getWikiSourceDetails();
+    expect(details.map(d => d.id)).toEqual(['intranet-example', 'corp-kb']);
+    expect(details[0].priority).toBe(1);
+    expect(details[1]).toMatchObject({
+      name: 'Corp KB',
+      type: 'confluence',
+      hasAuth: true,
+      authType: 'token',
+      tags: ['engineering'],
+      include: ['wiki/**'],
+      exclude: ['**/drafts/*'],
+      maxPages: 2,
+      authRef: 'corp-sso',
+      priority: 2
+    });
+
+    const pages = source.listResources().filter(r => r.uri.startsWith('wiki://corp-kb/')).map(r => r.name);
+    expect(pages).toEqual(['wiki/start', 'wiki/team/oncall']);
+    expect(await source.readResource('wiki://corp-kb/archive/old')).toBeNull();
+
+    // The higher-priority source answers first
+    const results = await source.getContext({ query: { text: 'vpn' } });
+    expect(results.map(r => r.title)).toEqual(['confluence result', 'unknown result']);
+  });
+});
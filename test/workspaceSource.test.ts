@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { WorkspaceSource } from '../src/sources/workspaceSource';
+import { documentTitle, indexDocuments } from '../src/sources/localDocs';
+import { requestContext } from '../src/requestContext';
+
+function inSession<T>(sessionId: string, fn: () => Promise<T> | T) {
+  return requestContext.run({ sessionId, signal: new AbortController().signal, sendRequest: jest.fn() }, fn);
+}
+
+describe('WorkspaceSource', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-workspace-'));
+    const write = (file: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), content);
+    };
+    write('docs/adr/0001-database.md', '# Use PostgreSQL\n\nWe chose PostgreSQL as the primary database.');
+    write('docs/guide.adoc', '= Operations Guide\n\nRestart the database with the runbook.');
+    write('README.rst', 'Service Overview\n================\n\nDescribes the billing service.');
+    write('node_modules/pkg/README.md', '# Database driver');
+    write('.github/notes.md', '# Database notes');
+    write('notes.txt', 'database');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('indexes Markdown, AsciiDoc and reStructuredText outside dependency and hidden directories', async () => {
+    const documents = await indexDocuments(root);
+
+    expect(documents.map(d => d.relativePath)).toEqual(['README.rst', 'docs/guide.adoc', 'docs/adr/0001-database.md']);
+    expect(documents.map(d => d.title)).toEqual(['Service Overview', 'Operations Guide', 'Use PostgreSQL']);
+    expect(documentTitle('no heading here', 'docs/plain.md')).toBe('plain.md');
+  });
+
+  it("searches only the roots of the session handling the request, labelled with the root", async () => {
+    const source = new WorkspaceSource();
+    const listChanged = jest.fn();
+    source.on('resourceListChanged', listChanged);
+    await source.setRoots('s1', [{ uri: pathToFileURL(root).href, name: 'billing' }]);
+
+    const results = await inSession('s1', () => source.getContext({ query: { text: 'database' } }));
+    const otherSession = await inSession('s2', () => source.getContext({ query: { text: 'database' } }));
+
+    expect(listChanged).toHaveBeenCalled();
+    expect(results.map(r => r.title)).toEqual(['Use PostgreSQL', 'Operations Guide']);
+    expect(results[0]).toMatchObject({
+      source: 'workspace: billing',
+      resourceUri: pathToFileURL(path.join(root, 'docs/adr/0001-database.md')).href
+    });
+    expect(otherSession).toEqual([]);
+  });
+
+  it('reads indexed documents as resources and forgets closed sessions', async () => {
+    const source = new WorkspaceSource();
+    await source.setRoots('s1', [{ uri: pathToFileURL(root).href }, { uri: 'https://example.com/repo' }]);
+    const uri = pathToFileURL(path.join(root, 'README.rst')).href;
+
+    const contents = await inSession('s1', () => source.readResource(uri));
+    expect(contents).toMatchObject({ uri, mimeType: 'text/x-rst' });
+    expect(inSession('s1', () => source.getWikiSourceDetails())).toEqual([
+      expect.objectContaining({ name: path.basename(root), type: 'workspace', url: pathToFileURL(root).href })
+    ]);
+
+    source.removeSession('s1');
+    expect(await inSession('s1', () => source.readResource(uri))).toBeNull();
+  });
+
+  it('only indexes roots under the allowed directories when they are set', async () => {
+    const source = new WorkspaceSource();
+    source.allowedDirectories = [path.join(root, 'docs')];
+    await source.setRoots('s1', [
+      { uri: pathToFileURL(root).href, name: 'whole-repo' },
+      { uri: pathToFileURL(path.join(root, 'docs', '..', '..')).href, name: 'escape' },
+      { uri: pathToFileURL(path.join(root, 'docs', 'adr')).href, name: 'decisions' }
+    ]);
+
+    expect(inSession('s1', () => source.getWikiSourceDetails().map(details => details.name))).toEqual(['decisions']);
+
+    source.allowedDirectories = [];
+    await source.setRoots('s1', [{ uri: pathToFileURL(path.join(root, 'docs')).href }]);
+    expect(inSession('s1', () => source.listResources())).toEqual([]);
+  });
+});